@@ -0,0 +1,158 @@
+/**
+ * Collection Commit API
+ *
+ * Saves the entries previewed by a dry-run collection
+ * (POST /api/collect?dry_run=true) without querying the providers again.
+ * The entries are written while holding the month lock, like a collection.
+ *
+ * Security: Requires COLLECT_SECRET_TOKEN for authorization.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getOrCreateService,
+  saveUsageEntry,
+  getMonthlySummary,
+  isStorageConfigured,
+  UsageEntryPreview,
+  UsageWriteMode,
+} from '@/lib/storage';
+import { getLockedBy, sendCollectionReport, withMonthLock } from '@/lib/collection';
+
+/**
+ * POST /api/collect/commit
+ *
+ * Query params:
+ * - token: Secret token for authorization
+ * - mode: Optional "replace" (default) or "append"
+ * - send_email: Optional "true" to trigger email notification
+ *
+ * Body: { month: "2026-01", entries: UsageEntryPreview[] } (the `preview`
+ * of a dry-run response)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const token = searchParams.get('token');
+    const expectedToken = process.env.COLLECT_SECRET_TOKEN;
+
+    if (!expectedToken) {
+      return NextResponse.json(
+        { error: 'Server configuration error: COLLECT_SECRET_TOKEN not set' },
+        { status: 500 }
+      );
+    }
+
+    if (token !== expectedToken) {
+      return NextResponse.json(
+        { error: 'Unauthorized: Invalid or missing token' },
+        { status: 401 }
+      );
+    }
+
+    if (!isStorageConfigured()) {
+      return NextResponse.json(
+        { error: 'Storage is not configured' },
+        { status: 500 }
+      );
+    }
+
+    const mode = (searchParams.get('mode') || 'replace') as UsageWriteMode;
+    if (mode !== 'replace' && mode !== 'append') {
+      return NextResponse.json(
+        { error: `Invalid mode '${mode}' (expected replace or append)` },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const month: string | undefined = body?.month;
+    const entries: UsageEntryPreview[] | undefined = body?.entries;
+
+    if (!month || !/^\d{4}-\d{2}$/.test(month)) {
+      return NextResponse.json(
+        { error: 'Invalid or missing month (format: "2026-01")' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(entries) || entries.length === 0) {
+      return NextResponse.json(
+        { error: 'No entries to commit. Run a dry-run collection first.' },
+        { status: 400 }
+      );
+    }
+
+    const invalid = entries.find(entry => entry.month !== month || !entry.providerId || !entry.identifier);
+    if (invalid) {
+      return NextResponse.json(
+        { error: `Invalid entry '${invalid.identifier || '?'}': each entry needs a provider and the month ${month}` },
+        { status: 400 }
+      );
+    }
+
+    console.log(`[Collect] Committing ${entries.length} previewed entries for ${month} (mode: ${mode})`);
+
+    const { entriesCreated, entriesUpdated } = await withMonthLock(month, 'POST /api/collect/commit', async () => {
+      // Services are created once per provider
+      const serviceIds = new Map<string, string>();
+      let created = 0;
+      let updated = 0;
+
+      for (const { providerId, providerName, ...entry } of entries) {
+        if (!serviceIds.has(providerId)) {
+          serviceIds.set(providerId, (await getOrCreateService(providerId, providerName || providerId)).id);
+        }
+
+        const written = await saveUsageEntry({ ...entry, servicePageId: serviceIds.get(providerId)! }, mode);
+        if (written.created) {
+          created++;
+        } else {
+          updated++;
+        }
+      }
+
+      return { entriesCreated: created, entriesUpdated: updated };
+    });
+
+    // Summary of the month as now stored
+    const summary = await getMonthlySummary(month);
+
+    // Optionally send email
+    const emailSent = searchParams.get('send_email') === 'true'
+      ? await sendCollectionReport(month)
+      : false;
+
+    return NextResponse.json({
+      success: true,
+      month,
+      mode,
+      summary: summary
+        ? {
+          totalCostUsd: summary.data.totalCostUsd,
+          previousMonthCost: summary.data.previousMonthCost,
+          changePercent: summary.data.changePercent,
+          providerCount: summary.data.providerCount,
+          entriesCreated,
+          entriesUpdated,
+          reportUrl: summary.data.reportUrl,
+        }
+        : null,
+      emailSent,
+    });
+  } catch (error) {
+    const lockedBy = getLockedBy(error);
+    if (lockedBy) {
+      return NextResponse.json(
+        { error: `Month is already being collected (${lockedBy.owner})`, lockedBy },
+        { status: 409 }
+      );
+    }
+
+    console.error('[Collect] Commit error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Commit failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Collection Job Cancel API
+ *
+ * Security: Requires COLLECT_SECRET_TOKEN for authorization.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { cancelCollectionJob, getCollectionJob } from '@/lib/collection';
+
+/**
+ * POST /api/collect/jobs/:id/cancel
+ *
+ * Query params:
+ * - token: Secret token for authorization
+ *
+ * The job stops before its next target; entries already written are kept
+ * and the job can be resumed (POST /api/collect/jobs/:id/resume).
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { searchParams } = new URL(request.url);
+  const token = searchParams.get('token');
+  const expectedToken = process.env.COLLECT_SECRET_TOKEN;
+
+  if (!expectedToken || token !== expectedToken) {
+    return NextResponse.json(
+      { error: 'Unauthorized: Invalid or missing token' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const job = await getCollectionJob(id);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: `Job '${id}' not found` },
+        { status: 404 }
+      );
+    }
+
+    if (job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled') {
+      return NextResponse.json(
+        { error: `Job '${id}' is already ${job.status}` },
+        { status: 400 }
+      );
+    }
+
+    console.log(`[Collect] Cancelling job ${id}`);
+    return NextResponse.json({ success: true, job: await cancelCollectionJob(job) });
+  } catch (error) {
+    console.error('[Collect] Job cancel error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Cancel failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Collection Job Resume API
+ *
+ * Security: Requires COLLECT_SECRET_TOKEN for authorization.
+ */
+
+import { after, NextRequest, NextResponse } from 'next/server';
+import { isStorageConfigured } from '@/lib/storage';
+import {
+  getCollectionJob,
+  getLockedBy,
+  getMonthLock,
+  isJobResumable,
+  resumeCollectionJob,
+  runCollectionJob,
+} from '@/lib/collection';
+
+/**
+ * POST /api/collect/jobs/:id/resume
+ *
+ * Query params:
+ * - token: Secret token for authorization
+ *
+ * Runs a cancelled, failed or partially failed job again in the background:
+ * targets already collected are kept, the others are collected again.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { searchParams } = new URL(request.url);
+  const token = searchParams.get('token');
+  const expectedToken = process.env.COLLECT_SECRET_TOKEN;
+
+  if (!expectedToken || token !== expectedToken) {
+    return NextResponse.json(
+      { error: 'Unauthorized: Invalid or missing token' },
+      { status: 401 }
+    );
+  }
+
+  if (!isStorageConfigured()) {
+    return NextResponse.json(
+      { error: 'Storage is not configured' },
+      { status: 500 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const job = await getCollectionJob(id);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: `Job '${id}' not found` },
+        { status: 404 }
+      );
+    }
+
+    if (!isJobResumable(job)) {
+      return NextResponse.json(
+        { error: `Job '${id}' cannot be resumed (${job.status})` },
+        { status: 400 }
+      );
+    }
+
+    const lock = job.mode === 'dry-run' ? null : await getMonthLock(job.month);
+    if (lock) {
+      return NextResponse.json(
+        { error: `Month ${job.month} is already being collected (${lock.owner})`, lockedBy: lock },
+        { status: 409 }
+      );
+    }
+
+    const resumed = await resumeCollectionJob(job);
+    if (!resumed) {
+      return NextResponse.json(
+        { error: `Job '${id}' has already been resumed` },
+        { status: 409 }
+      );
+    }
+    console.log(`[Collect] Job ${id} resumed (attempt ${resumed.attempt})`);
+
+    // Runs once the response is sent
+    after(() => runCollectionJob(id));
+
+    return NextResponse.json(
+      { success: true, jobId: id, statusUrl: `/api/collect/jobs/${id}`, job: resumed },
+      { status: 202 }
+    );
+  } catch (error) {
+    const lockedBy = getLockedBy(error);
+    if (lockedBy) {
+      return NextResponse.json(
+        { error: `Job is already being resumed (${lockedBy.owner})`, lockedBy },
+        { status: 409 }
+      );
+    }
+
+    console.error('[Collect] Job resume error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Resume failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Collection Job Status API
+ *
+ * Progress of a background collection (POST /api/collect?background=true).
+ *
+ * Security: Requires COLLECT_SECRET_TOKEN for authorization.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getCollectionJob,
+  getPreviewEntries,
+  listFailedTargets,
+  isJobActive,
+  isJobResumable,
+} from '@/lib/collection';
+
+/**
+ * GET /api/collect/jobs/:id
+ *
+ * Query params:
+ * - token: Secret token for authorization
+ *
+ * Returns the job (status, progress, steps, per-provider and per-target
+ * results, summary once done). A completed dry-run job also returns the
+ * entries to save with /api/collect/commit (preview.entries).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { searchParams } = new URL(request.url);
+  const token = searchParams.get('token');
+  const expectedToken = process.env.COLLECT_SECRET_TOKEN;
+
+  if (!expectedToken || token !== expectedToken) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const job = await getCollectionJob(id);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: `Job '${id}' not found` },
+        { status: 404 }
+      );
+    }
+
+    const showPreview = job.mode === 'dry-run' && job.status === 'completed';
+
+    return NextResponse.json({
+      ...job,
+      // Entries are only returned in the dry-run preview
+      targets: job.targets.map(target => ({ ...target, entry: undefined })),
+      failedTargets: listFailedTargets(job),
+      active: isJobActive(job),
+      resumable: isJobResumable(job),
+      preview: showPreview ? { entries: getPreviewEntries(job) } : undefined,
+    });
+  } catch (error) {
+    console.error('[Collect] Job status error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to read job' },
+      { status: 500 }
+    );
+  }
+}
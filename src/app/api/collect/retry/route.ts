@@ -0,0 +1,144 @@
+/**
+ * Collection Retry API
+ *
+ * Collects again the targets that failed in a previous collection
+ * (`failedTargets` of POST /api/collect or of a job), without querying the
+ * targets that succeeded. Their 'Echec' entries are replaced in place.
+ *
+ * Security: Requires COLLECT_SECRET_TOKEN for authorization.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMonthlySummary, isStorageConfigured } from '@/lib/storage';
+import {
+  runCollection,
+  listFailedTargets,
+  listCollectionUnpricedModels,
+  getDiscrepancyThreshold,
+  sendCollectionReport,
+  getLockedBy,
+  withMonthLock,
+  TargetSelector,
+} from '@/lib/collection';
+
+/**
+ * POST /api/collect/retry
+ *
+ * Query params:
+ * - token: Secret token for authorization
+ * - send_email: Optional "true" to trigger email notification
+ *
+ * Body: { month: "2026-01", targets: [{ providerId, workspaceId?, projectId? }] }
+ * (a target without workspace or project collects the whole provider)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const token = searchParams.get('token');
+    const expectedToken = process.env.COLLECT_SECRET_TOKEN;
+
+    if (!expectedToken) {
+      return NextResponse.json(
+        { error: 'Server configuration error: COLLECT_SECRET_TOKEN not set' },
+        { status: 500 }
+      );
+    }
+
+    if (token !== expectedToken) {
+      return NextResponse.json(
+        { error: 'Unauthorized: Invalid or missing token' },
+        { status: 401 }
+      );
+    }
+
+    if (!isStorageConfigured()) {
+      return NextResponse.json(
+        { error: 'Storage is not configured' },
+        { status: 500 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const month: string | undefined = body?.month;
+    const targets: TargetSelector[] | undefined = body?.targets;
+
+    if (!month || !/^\d{4}-\d{2}$/.test(month)) {
+      return NextResponse.json(
+        { error: 'Invalid or missing month (format: "2026-01")' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(targets) || targets.length === 0) {
+      return NextResponse.json(
+        { error: 'No targets to retry. Pass the failedTargets of a collection.' },
+        { status: 400 }
+      );
+    }
+
+    if (targets.some(target => !target?.providerId)) {
+      return NextResponse.json(
+        { error: 'Invalid target: each target needs a providerId' },
+        { status: 400 }
+      );
+    }
+
+    console.log(`[Collect] Retrying ${targets.length} failed target(s) for ${month}`);
+
+    const run = await withMonthLock(month, 'POST /api/collect/retry', () => runCollection({
+      month,
+      mode: 'replace',
+      discrepancyThreshold: getDiscrepancyThreshold(),
+      targets: targets.map(({ providerId, workspaceId, projectId }) => ({ providerId, workspaceId, projectId })),
+    }));
+
+    // Summary of the month as now stored (the retry only covers part of it)
+    const summary = await getMonthlySummary(month);
+    const failedTargets = listFailedTargets(run);
+    const entriesCreated = run.results.reduce((sum, r) => sum + (r.entriesCreated || 0), 0);
+    const entriesUpdated = run.results.reduce((sum, r) => sum + (r.entriesUpdated || 0), 0);
+
+    console.log(`[Collect] Retry: ${run.targets.filter(target => target.success).length} target(s) collected, ${failedTargets.length} still failing`);
+
+    // Optionally send email
+    const emailSent = searchParams.get('send_email') === 'true'
+      ? await sendCollectionReport(month)
+      : false;
+
+    return NextResponse.json({
+      success: true,
+      month,
+      mode: 'replace',
+      summary: summary
+        ? {
+          totalCostUsd: summary.data.totalCostUsd,
+          previousMonthCost: summary.data.previousMonthCost,
+          changePercent: summary.data.changePercent,
+          providerCount: summary.data.providerCount,
+          entriesCreated,
+          entriesUpdated,
+          reportUrl: summary.data.reportUrl,
+        }
+        : null,
+      results: run.results,
+      unpricedModels: listCollectionUnpricedModels(run.results),
+      failedTargets,
+      targets: run.targets.map(target => ({ ...target, entry: undefined })),
+      emailSent,
+    });
+  } catch (error) {
+    const lockedBy = getLockedBy(error);
+    if (lockedBy) {
+      return NextResponse.json(
+        { error: `Month is already being collected (${lockedBy.owner})`, lockedBy },
+        { status: 409 }
+      );
+    }
+
+    console.error('[Collect] Retry error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Retry failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,54 +2,51 @@
  * Monthly Data Collection API
  *
  * This endpoint collects usage data from all configured providers,
- * saves detailed entries to Notion (Services + Usages databases),
- * and optionally triggers email notification.
+ * saves detailed entries to the usage storage (Notion or SQL, see lib/storage),
+ * and optionally triggers email notification. The collection itself runs in
+ * lib/collection (parallel providers, timeouts and retries).
  *
  * Security: Requires COLLECT_SECRET_TOKEN for authorization.
  */
 
-import { NextRequest, NextResponse } from 'next/server';
-import { getAvailableProviders, getProvider } from '@/lib/providers/factory';
+import { after, NextRequest, NextResponse } from 'next/server';
+import { getAvailableProviders } from '@/lib/providers/factory';
 import {
-  getOrCreateService,
-  createUsageEntry,
-  generateUsageIdentifier,
-  getMonthlySummary,
   getCurrentMonth,
-  getPreviousMonth,
-  calculateChangePercent,
-  isNotionConfigured,
-  CollectionStatus,
-} from '@/lib/notion';
-import { CostData } from '@/lib/types';
-
-interface CollectionResult {
-  provider: string;
-  success: boolean;
-  totalCost?: number;
-  requests?: number;
-  entriesCreated?: number;
-  error?: string;
-}
-
-interface UsageCollectionData {
-  providerName: string;
-  projectName: string;
-  workspace?: string;
-  costData: CostData;
-  logMessages: string[];
-  status: CollectionStatus;
-}
+  isStorageConfigured,
+  getStorageBackendName,
+} from '@/lib/storage';
+import {
+  runCollection,
+  getPreviewEntries,
+  listFailedTargets,
+  getDiscrepancyThreshold,
+  summarizeCollection,
+  listCollectionUnpricedModels,
+  sendCollectionReport,
+  createCollectionJob,
+  runCollectionJob,
+  getLockedBy,
+  getMonthLock,
+  withMonthLock,
+  COLLECTION_MODES,
+  CollectionMode,
+} from '@/lib/collection';
 
 /**
  * POST /api/collect
  *
- * Collects monthly usage data from all providers and saves to Notion.
+ * Collects monthly usage data from all providers and saves it to the usage storage.
  *
  * Query params:
  * - token: Secret token for authorization
  * - month: Optional month to collect (format: "2026-01"). Defaults to current month.
- * - send_email: Optional "true" to trigger email notification
+ * - mode: Optional "replace" (default), "append" or "dry-run" (see CollectionMode)
+ * - dry_run: Optional "true", same as mode=dry-run: the response contains the
+ *   entries that would be written (preview.entries), to save with /api/collect/commit
+ * - send_email: Optional "true" to trigger email notification (not in dry-run mode)
+ * - background: Optional "true" to run the collection as a job: the response
+ *   (202) contains the job ID, whose progress is read with GET /api/collect/jobs/:id
  */
 export async function POST(request: NextRequest) {
   try {
@@ -72,346 +69,96 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check Notion configuration
-    if (!isNotionConfigured()) {
+    // Check storage configuration
+    if (!isStorageConfigured()) {
       return NextResponse.json(
-        { error: 'Notion is not configured. Please set up Notion integration first.' },
+        { error: `Storage is not configured (STORAGE_BACKEND=${getStorageBackendName()}). Please set up Notion or a database first.` },
         { status: 500 }
       );
     }
 
+    const mode = (searchParams.get('dry_run') === 'true'
+      ? 'dry-run'
+      : searchParams.get('mode') || 'replace') as CollectionMode;
+    if (!COLLECTION_MODES.includes(mode)) {
+      return NextResponse.json(
+        { error: `Invalid mode '${mode}' (expected ${COLLECTION_MODES.join(', ')})` },
+        { status: 400 }
+      );
+    }
+
     // Determine which month to collect
     const targetMonth = searchParams.get('month') || getCurrentMonth();
-    const previousMonth = getPreviousMonth(targetMonth);
     const sendEmail = searchParams.get('send_email') === 'true';
 
-    console.log(`[Collect] Starting collection for month: ${targetMonth}`);
-
-    // Calculate date range for the month
-    const [year, month] = targetMonth.split('-').map(Number);
-    const startDate = new Date(year, month - 1, 1);
-    const endDate = new Date(year, month, 0); // Last day of month
-
-    const startDateStr = startDate.toISOString().split('T')[0];
-    const endDateStr = endDate.toISOString().split('T')[0];
-
-    console.log(`[Collect] Date range: ${startDateStr} to ${endDateStr}`);
-
-    // Get all available providers
-    const providers = getAvailableProviders();
-    console.log(`[Collect] Found ${providers.length} providers: ${providers.map(p => p.id).join(', ')}`);
-
-    // Collect data from each provider
-    const results: CollectionResult[] = [];
-    const allUsageData: UsageCollectionData[] = [];
-
-    for (const providerInfo of providers) {
-      console.log(`[Collect] Processing provider: ${providerInfo.id}`);
-      const providerLogs: string[] = [];
-      let entriesCreated = 0;
-
-      try {
-        const provider = getProvider(providerInfo.id);
-        let totalCost = 0;
-        let totalRequests = 0;
-
-        // Get or create the service in Notion
-        const service = await getOrCreateService(providerInfo.id, providerInfo.name);
-        providerLogs.push(`Service Notion: ${service.id}`);
-
-        if (provider.supportsWorkspaces) {
-          // For providers with workspaces, collect per workspace
-          const workspaces = await provider.getWorkspaces();
-          providerLogs.push(`${workspaces.length} workspace(s) trouvé(s)`);
-
-          for (const workspace of workspaces) {
-            try {
-              providerLogs.push(`Workspace: ${workspace.name} (${workspace.id})`);
-              
-              // Get costs for entire workspace (all projects)
-              const costs = await provider.getCosts({
-                workspace: workspace.id,
-                projectId: '', // Empty = all projects
-                startDate: startDateStr,
-                endDate: endDateStr,
-              });
-
-              // Skip if no data available (indicated by -1)
-              if (costs.total_cost_usd >= 0) {
-                totalCost += costs.total_cost_usd;
-                totalRequests += costs.breakdown.reduce((sum, m) => sum + m.requests, 0);
-
-                // Calculate tokens from breakdown (if available)
-                const tokensInput = 0;
-                const tokensOutput = 0;
-                const models: string[] = [];
-                
-                for (const item of costs.breakdown) {
-                  models.push(item.model);
-                  // Note: Token counts would need to be extracted from provider-specific data
-                }
-
-                // Create usage entry for this workspace
-                const identifier = generateUsageIdentifier(targetMonth, providerInfo.name, workspace.name);
-                
-                await createUsageEntry({
-                  identifier,
-                  servicePageId: service.id,
-                  month: targetMonth,
-                  projectApiKey: workspace.name,
-                  workspace: workspace.id,
-                  models: models.slice(0, 10).join(', '), // Limit to 10 models
-                  tokensInput,
-                  tokensOutput,
-                  costUsd: costs.total_cost_usd,
-                  requests: costs.breakdown.reduce((sum, m) => sum + m.requests, 0),
-                  breakdownJson: JSON.stringify(costs.breakdown),
-                  collectedAt: new Date().toISOString(),
-                  collectionStatus: 'Succes',
-                  logStatus: providerLogs.join('\n'),
-                });
-
-                entriesCreated++;
-                providerLogs.push(`✓ $${costs.total_cost_usd.toFixed(2)} sauvegardé`);
-
-                allUsageData.push({
-                  providerName: providerInfo.name,
-                  projectName: workspace.name,
-                  workspace: workspace.id,
-                  costData: costs,
-                  logMessages: [...providerLogs],
-                  status: 'Succes',
-                });
-              } else {
-                providerLogs.push('⚠ Données non disponibles via API');
-                
-                // Create entry marking data as unavailable
-                const identifier = generateUsageIdentifier(targetMonth, providerInfo.name, workspace.name);
-                
-                await createUsageEntry({
-                  identifier,
-                  servicePageId: service.id,
-                  month: targetMonth,
-                  projectApiKey: workspace.name,
-                  workspace: workspace.id,
-                  models: '',
-                  tokensInput: 0,
-                  tokensOutput: 0,
-                  costUsd: 0,
-                  requests: 0,
-                  breakdownJson: '[]',
-                  collectedAt: new Date().toISOString(),
-                  collectionStatus: 'Donnees indisponibles',
-                  logStatus: providerLogs.join('\n') + '\nAPI ne fournit pas les données de coût',
-                });
-
-                entriesCreated++;
-              }
-            } catch (wsError) {
-              const errorMsg = wsError instanceof Error ? wsError.message : 'Unknown error';
-              providerLogs.push(`✗ Erreur workspace ${workspace.id}: ${errorMsg}`);
-              console.error(`[Collect] Error fetching workspace ${workspace.id}:`, wsError);
-            }
-          }
-        } else {
-          // For providers without workspaces, get costs directly
-          try {
-            const projects = await provider.getProjects();
-            providerLogs.push(`${projects.length} projet(s) trouvé(s)`);
-
-            if (projects.length === 0) {
-              // No projects, create a single entry for the provider
-              providerLogs.push('Aucun projet - collecte au niveau provider');
-              
-              try {
-                const costs = await provider.getCosts({
-                  projectId: '',
-                  startDate: startDateStr,
-                  endDate: endDateStr,
-                });
-
-                if (costs.total_cost_usd >= 0) {
-                  totalCost += costs.total_cost_usd;
-                  totalRequests += costs.breakdown.reduce((sum, m) => sum + m.requests, 0);
-
-                  const identifier = generateUsageIdentifier(targetMonth, providerInfo.name, 'Default');
-                  
-                  await createUsageEntry({
-                    identifier,
-                    servicePageId: service.id,
-                    month: targetMonth,
-                    projectApiKey: 'Default',
-                    models: costs.breakdown.map(b => b.model).slice(0, 10).join(', '),
-                    tokensInput: 0,
-                    tokensOutput: 0,
-                    costUsd: costs.total_cost_usd,
-                    requests: costs.breakdown.reduce((sum, m) => sum + m.requests, 0),
-                    breakdownJson: JSON.stringify(costs.breakdown),
-                    collectedAt: new Date().toISOString(),
-                    collectionStatus: 'Succes',
-                    logStatus: providerLogs.join('\n'),
-                  });
-
-                  entriesCreated++;
-                }
-              } catch (defaultError) {
-                const errorMsg = defaultError instanceof Error ? defaultError.message : 'Unknown error';
-                providerLogs.push(`✗ Erreur: ${errorMsg}`);
-              }
-            } else {
-              for (const project of projects) {
-                try {
-                  providerLogs.push(`Projet: ${project.name}`);
-                  
-                  const costs = await provider.getCosts({
-                    projectId: project.id,
-                    startDate: startDateStr,
-                    endDate: endDateStr,
-                  });
-
-                  if (costs.total_cost_usd >= 0) {
-                    totalCost += costs.total_cost_usd;
-                    totalRequests += costs.breakdown.reduce((sum, m) => sum + m.requests, 0);
-
-                    const identifier = generateUsageIdentifier(targetMonth, providerInfo.name, project.name);
-                    
-                    await createUsageEntry({
-                      identifier,
-                      servicePageId: service.id,
-                      month: targetMonth,
-                      projectApiKey: project.name,
-                      models: costs.breakdown.map(b => b.model).slice(0, 10).join(', '),
-                      tokensInput: 0,
-                      tokensOutput: 0,
-                      costUsd: costs.total_cost_usd,
-                      requests: costs.breakdown.reduce((sum, m) => sum + m.requests, 0),
-                      breakdownJson: JSON.stringify(costs.breakdown),
-                      collectedAt: new Date().toISOString(),
-                      collectionStatus: 'Succes',
-                      logStatus: providerLogs.join('\n'),
-                    });
-
-                    entriesCreated++;
-                    providerLogs.push(`✓ $${costs.total_cost_usd.toFixed(2)} sauvegardé`);
-
-                    allUsageData.push({
-                      providerName: providerInfo.name,
-                      projectName: project.name,
-                      costData: costs,
-                      logMessages: [...providerLogs],
-                      status: 'Succes',
-                    });
-                  }
-                } catch (projError) {
-                  const errorMsg = projError instanceof Error ? projError.message : 'Unknown error';
-                  providerLogs.push(`✗ Erreur projet ${project.id}: ${errorMsg}`);
-                  console.error(`[Collect] Error fetching project ${project.id}:`, projError);
-                }
-              }
-            }
-          } catch (projListError) {
-            const errorMsg = projListError instanceof Error ? projListError.message : 'Unknown error';
-            providerLogs.push(`✗ Erreur listing projets: ${errorMsg}`);
-            console.error(`[Collect] Error listing projects for ${providerInfo.id}:`, projListError);
-          }
-        }
-
-        results.push({
-          provider: providerInfo.id,
-          success: true,
-          totalCost,
-          requests: totalRequests,
-          entriesCreated,
-        });
+    // A dry-run writes nothing: it can run next to another collection of the month
+    const lock = mode === 'dry-run' ? null : await getMonthLock(targetMonth);
+    if (lock) {
+      return NextResponse.json(
+        { error: `Month ${targetMonth} is already being collected (${lock.owner})`, lockedBy: lock },
+        { status: 409 }
+      );
+    }
 
-        console.log(`[Collect] ${providerInfo.id}: $${totalCost.toFixed(2)}, ${totalRequests} requests, ${entriesCreated} entries`);
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        providerLogs.push(`✗ Erreur fatale: ${errorMessage}`);
-        console.error(`[Collect] Error with provider ${providerInfo.id}:`, error);
+    if (searchParams.get('background') === 'true') {
+      const job = await createCollectionJob({ month: targetMonth, mode, sendEmail });
+      console.log(`[Collect] Job ${job.id} queued for month: ${targetMonth} (mode: ${mode})`);
 
-        // Try to create an error entry
-        try {
-          const service = await getOrCreateService(providerInfo.id, providerInfo.name);
-          const identifier = generateUsageIdentifier(targetMonth, providerInfo.name, 'Error');
-          
-          await createUsageEntry({
-            identifier,
-            servicePageId: service.id,
-            month: targetMonth,
-            projectApiKey: 'Error',
-            models: '',
-            tokensInput: 0,
-            tokensOutput: 0,
-            costUsd: 0,
-            requests: 0,
-            breakdownJson: '[]',
-            collectedAt: new Date().toISOString(),
-            collectionStatus: 'Echec',
-            logStatus: providerLogs.join('\n') + `\n\nErreur: ${errorMessage}`,
-          });
-        } catch {
-          // Ignore error creating error entry
-        }
+      // Runs once the response is sent
+      after(() => runCollectionJob(job.id));
 
-        results.push({
-          provider: providerInfo.id,
-          success: false,
-          error: errorMessage,
-        });
-      }
+      return NextResponse.json(
+        { success: true, jobId: job.id, statusUrl: `/api/collect/jobs/${job.id}`, job },
+        { status: 202 }
+      );
     }
 
-    // Calculate totals from results
-    const totalCost = results.reduce((sum, r) => sum + (r.totalCost || 0), 0);
-    const providerCount = results.filter(r => r.success && (r.totalCost || 0) > 0).length;
-    const totalEntries = results.reduce((sum, r) => sum + (r.entriesCreated || 0), 0);
+    console.log(`[Collect] Starting collection for month: ${targetMonth} (mode: ${mode})`);
 
-    // Get previous month's data for comparison
-    let previousMonthCost = 0;
-    const previousSummary = await getMonthlySummary(previousMonth);
-    if (previousSummary) {
-      previousMonthCost = previousSummary.data.totalCostUsd;
-    }
-
-    const changePercent = calculateChangePercent(totalCost, previousMonthCost);
+    const collect = () => runCollection({
+      month: targetMonth,
+      mode,
+      discrepancyThreshold: getDiscrepancyThreshold(),
+    });
+    const run = mode === 'dry-run'
+      ? await collect()
+      : await withMonthLock(targetMonth, 'POST /api/collect', collect);
+    const { results } = run;
 
-    // Generate report URL
-    const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
-    const reportToken = process.env.REPORT_SECRET_TOKEN || '';
-    const reportUrl = `${appUrl}/report?token=${reportToken}&month=${targetMonth}`;
+    const summary = await summarizeCollection(targetMonth, results);
+    const unpricedModels = listCollectionUnpricedModels(results);
 
-    console.log(`[Collect] Summary: $${totalCost.toFixed(2)} total, ${changePercent.toFixed(1)}% change, ${totalEntries} entries created`);
+    console.log(`[Collect] Summary: $${summary.totalCostUsd.toFixed(2)} total, ${summary.changePercent.toFixed(1)}% change, ${summary.entriesCreated} entries created, ${summary.entriesUpdated} updated`);
 
     // Optionally send email
-    let emailSent = false;
-    if (sendEmail && process.env.RESEND_API_KEY) {
-      try {
-        const emailResponse = await fetch(`${appUrl}/api/send-report?token=${expectedToken}&month=${targetMonth}`, {
-          method: 'POST',
-        });
-        emailSent = emailResponse.ok;
-        console.log(`[Collect] Email ${emailSent ? 'sent' : 'failed'}`);
-      } catch (emailError) {
-        console.error('[Collect] Error sending email:', emailError);
-      }
-    }
+    const emailSent = sendEmail && mode !== 'dry-run'
+      ? await sendCollectionReport(targetMonth)
+      : false;
 
     return NextResponse.json({
       success: true,
       month: targetMonth,
-      summary: {
-        totalCostUsd: totalCost,
-        previousMonthCost,
-        changePercent,
-        providerCount,
-        entriesCreated: totalEntries,
-        reportUrl,
-      },
+      mode,
+      dryRun: mode === 'dry-run',
+      summary,
       results,
+      unpricedModels,
       emailSent,
+      // Targets to collect again with POST /api/collect/retry
+      failedTargets: listFailedTargets(run),
+      // Per-target results (entries are only returned in the dry-run preview)
+      targets: run.targets.map(target => ({ ...target, entry: undefined })),
+      preview: mode === 'dry-run' ? { entries: getPreviewEntries(run) } : undefined,
     });
   } catch (error) {
+    const lockedBy = getLockedBy(error);
+    if (lockedBy) {
+      return NextResponse.json(
+        { error: `Month is already being collected (${lockedBy.owner})`, lockedBy },
+        { status: 409 }
+      );
+    }
+
     console.error('[Collect] Unexpected error:', error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Collection failed' },
@@ -441,7 +188,8 @@ export async function GET(request: NextRequest) {
 
   return NextResponse.json({
     configured: {
-      notion: isNotionConfigured(),
+      storage: isStorageConfigured(),
+      storageBackend: getStorageBackendName(),
       email: !!process.env.RESEND_API_KEY,
       providers: providers.map(p => p.id),
     },
@@ -0,0 +1,186 @@
+/**
+ * API Route: GET /api/costs/all
+ *
+ * Returns the costs of every available provider and workspace for a date
+ * range ("All providers" view): a combined total, a summary per provider and
+ * one entry per workspace.
+ * Query params:
+ * - start_date: Start date in ISO 8601 format (required)
+ * - end_date: End date in ISO 8601 format (required)
+ *
+ * A provider or workspace that fails does not fail the request: its entry
+ * has status 'error' and the combined total only sums the others
+ * (`failed_count` > 0).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAvailableProviders, getProvider } from '@/lib/providers/factory';
+import {
+  ConsolidatedCostData,
+  ConsolidatedCostEntry,
+  CostData,
+  CostSource,
+  ProviderCostSummary,
+  ProviderInfo,
+} from '@/lib/types';
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const startDate = searchParams.get('start_date');
+    const endDate = searchParams.get('end_date');
+
+    if (!startDate || !endDate) {
+      return NextResponse.json(
+        { error: `Missing required parameter: ${!startDate ? 'start_date' : 'end_date'}` },
+        { status: 400 }
+      );
+    }
+
+    const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+    if (!dateRegex.test(startDate) || !dateRegex.test(endDate)) {
+      return NextResponse.json(
+        { error: 'Invalid date format. Use YYYY-MM-DD (ISO 8601)' },
+        { status: 400 }
+      );
+    }
+
+    const providers = getAvailableProviders();
+    console.log(`[All providers] Fetching costs of ${providers.length} provider(s) from ${startDate} to ${endDate}`);
+
+    // Providers are independent: fetch them in parallel, workspaces of a
+    // provider one after the other
+    const entriesByProvider = await Promise.all(
+      providers.map(info => collectProviderEntries(info, startDate, endDate))
+    );
+    const entries = entriesByProvider.flat();
+
+    // Providers without any workspace have no entry
+    const summaries: ProviderCostSummary[] = entriesByProvider
+      .filter(providerEntries => providerEntries.length > 0)
+      .map(providerEntries => summarizeProvider(providerEntries))
+      .sort((a, b) => b.total_cost_usd - a.total_cost_usd);
+
+    const data: ConsolidatedCostData = {
+      start_date: startDate,
+      end_date: endDate,
+      total_cost_usd: entries.reduce((sum, entry) => sum + entry.total_cost_usd, 0),
+      providers: summaries,
+      entries,
+      failed_count: entries.filter(entry => entry.status === 'error').length,
+      last_updated: new Date().toISOString(),
+    };
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error fetching costs of all providers:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch costs of all providers',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Fetch the workspace totals of one provider, never throwing
+ */
+async function collectProviderEntries(
+  info: ProviderInfo,
+  startDate: string,
+  endDate: string
+): Promise<ConsolidatedCostEntry[]> {
+  const base = {
+    provider_id: info.id,
+    provider_name: info.name,
+    cost_source: info.capabilities.costSource,
+  };
+
+  if (!info.capabilities.reportsCosts) {
+    return [{ ...base, status: 'unavailable', total_cost_usd: 0 }];
+  }
+
+  try {
+    const provider = getProvider(info.id);
+
+    if (!provider.supportsWorkspaces) {
+      const costs = await provider.getCosts({ startDate, endDate });
+      return [{ ...base, status: 'ok', total_cost_usd: costs.total_cost_usd, cost_source: getCostSource(info, costs) }];
+    }
+
+    const workspaces = await provider.getWorkspaces();
+    const entries: ConsolidatedCostEntry[] = [];
+
+    for (const workspace of workspaces) {
+      const workspaceBase = { ...base, workspace_id: workspace.id, workspace_name: workspace.name };
+      try {
+        const costs = await provider.getCosts({ workspace: workspace.id, startDate, endDate });
+        entries.push({
+          ...workspaceBase,
+          status: 'ok',
+          total_cost_usd: costs.total_cost_usd,
+          cost_source: getCostSource(info, costs),
+        });
+      } catch (error) {
+        console.error(`[All providers] ${info.name} / ${workspace.name} failed:`, error);
+        entries.push({
+          ...workspaceBase,
+          status: 'error',
+          total_cost_usd: 0,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return entries;
+  } catch (error) {
+    console.error(`[All providers] ${info.name} failed:`, error);
+    return [{
+      ...base,
+      status: 'error',
+      total_cost_usd: 0,
+      error: error instanceof Error ? error.message : String(error),
+    }];
+  }
+}
+
+/**
+ * Origin of a total: for a provider with mixed sources, billed when the
+ * response has a billed amount
+ */
+function getCostSource(info: ProviderInfo, costs: CostData): CostSource {
+  if (info.capabilities.costSource !== 'mixed') {
+    return info.capabilities.costSource;
+  }
+  return costs.billed_cost_usd !== undefined ? 'billed' : 'estimated';
+}
+
+/**
+ * Sum the entries of one provider
+ */
+function summarizeProvider(entries: ConsolidatedCostEntry[]): ProviderCostSummary {
+  const failed = entries.filter(entry => entry.status === 'error').length;
+  // Sources of the totals that succeeded ('mixed' when they differ)
+  const sources = new Set(entries.filter(entry => entry.status === 'ok').map(entry => entry.cost_source));
+  const unavailable = entries.every(entry => entry.status === 'unavailable');
+
+  let status: ProviderCostSummary['status'] = 'ok';
+  if (unavailable) {
+    status = 'unavailable';
+  } else if (failed === entries.length) {
+    status = 'error';
+  } else if (failed > 0) {
+    status = 'partial';
+  }
+
+  return {
+    provider_id: entries[0].provider_id,
+    provider_name: entries[0].provider_name,
+    status,
+    total_cost_usd: entries.reduce((sum, entry) => sum + entry.total_cost_usd, 0),
+    cost_source: sources.size > 1 ? 'mixed' : [...sources][0] || entries[0].cost_source,
+  };
+}
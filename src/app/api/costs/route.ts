@@ -8,11 +8,31 @@
  * - project_id: Project ID (optional, omit for workspace-wide totals)
  * - start_date: Start date in ISO 8601 format (required)
  * - end_date: End date in ISO 8601 format (required)
+ * - refresh: 'true' to bypass the cache for the live part of the range,
+ *   'all' to also re-fetch closed months (optional)
+ *
+ * Ranges of providers with daily data are split into calendar months:
+ * closed months (see isClosedRange) are cached long-term and merged with
+ * the live tail, so that long ranges only re-fetch recent usage.
+ *
+ * The response lists in `unpriced_models` the models whose cost is an
+ * estimate (missing from the pricing catalog), and in `cache` how it was
+ * served (hit, stale, miss or refresh) and when the data was fetched.
  */
 
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
 import { getProvider } from '@/lib/providers/factory';
-import { generateCacheKey, getFromCache, setCache } from '@/utils/cache';
+import { CacheMetadata, CostData } from '@/lib/types';
+import { listUnpricedModels } from '@/lib/pricing';
+import { mergeCostData } from '@/lib/cost-data';
+import {
+  cached,
+  DateSegment,
+  generateCacheKey,
+  isClosedRange,
+  mergeCacheMetadata,
+  splitDateRange,
+} from '@/utils/cache';
 
 export async function GET(request: NextRequest) {
   try {
@@ -22,6 +42,7 @@ export async function GET(request: NextRequest) {
     const projectId = searchParams.get('project_id') || undefined; // Optional: omit for workspace totals
     const startDate = searchParams.get('start_date');
     const endDate = searchParams.get('end_date');
+    const refresh = searchParams.get('refresh');
 
     // Validate required parameters
     if (!provider) {
@@ -65,37 +86,52 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Generate cache key
-    const cacheKey = generateCacheKey(
-      provider,
-      workspace,
-      projectId,
-      startDate,
-      endDate
-    );
+    // Only additive daily data can be split into months and merged back
+    const { dateRange, dailyGranularity } = providerInstance.capabilities;
+    const segments: DateSegment[] = dateRange && dailyGranularity
+      ? splitDateRange(startDate, endDate)
+      : [{ startDate, endDate, closed: dateRange && isClosedRange(endDate) }];
 
-    // TEMPORARILY DISABLED: Cache to debug calculation issues
-    // Try to get from cache
-    // const cachedData = getFromCache(cacheKey);
-    // if (cachedData) {
-    //   console.log(`Cache HIT for key: ${cacheKey}`);
-    //   return NextResponse.json(cachedData);
-    // }
+    // Segments are fetched one after the other, like the provider's own chunks
+    const parts: CostData[] = [];
+    const partsCache: Array<CacheMetadata & { closed: boolean }> = [];
 
-    console.log(`Fetching fresh data (cache disabled for debugging), key: ${cacheKey}`);
+    for (const segment of segments) {
+      const { data, cache } = await cached<CostData>(
+        generateCacheKey(provider, workspace, projectId, segment.startDate, segment.endDate),
+        provider,
+        async () => {
+          const rawCostData = await providerInstance.getCosts({
+            workspace,
+            projectId,
+            startDate: segment.startDate,
+            endDate: segment.endDate,
+          });
+          return {
+            ...rawCostData,
+            unpriced_models: listUnpricedModels(rawCostData.breakdown),
+          };
+        },
+        {
+          forceRefresh: refresh === 'all' || (refresh === 'true' && !segment.closed),
+          closed: segment.closed,
+          // Partial data is fetched again instead of being kept for the TTL
+          cacheable: costData => !costData.missing?.length && !costData.breakdown_missing?.length,
+          waitUntil: after,
+        }
+      );
+      parts.push(data);
+      partsCache.push({ ...cache, closed: segment.closed });
+    }
 
-    // Fetch fresh data from provider
-    const costData = await providerInstance.getCosts({
-      workspace,
-      projectId,
-      startDate,
-      endDate,
-    });
+    if (segments.length > 1) {
+      console.log(`[Costs] ${startDate} to ${endDate} served from ${segments.length} segment(s), ${segments.filter(s => s.closed).length} closed`);
+    }
 
-    // Store in cache
-    setCache(cacheKey, costData);
+    const costData = mergeCostData(parts);
+    const cache = mergeCacheMetadata(partsCache);
 
-    return NextResponse.json(costData);
+    return NextResponse.json({ ...costData, cache });
   } catch (error) {
     console.error('Error fetching costs:', error);
 
@@ -0,0 +1,104 @@
+/**
+ * API Route: GET /api/costs/timeseries
+ *
+ * Returns costs per day (or per hour) and per model over a date range.
+ * Query params:
+ * - provider: Provider ID (required)
+ * - workspace: Workspace ID (optional, required if provider supports workspaces)
+ * - project_id: Project ID (optional, omit for workspace-wide totals)
+ * - start_date: Start date in ISO 8601 format (required)
+ * - end_date: End date in ISO 8601 format (required)
+ * - granularity: 'day' (default) or 'hour', among the provider's capabilities.timeSeries
+ *
+ * Hourly series are limited to 31 days.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getProvider } from '@/lib/providers/factory';
+import { TimeSeriesGranularity } from '@/lib/types';
+import { MAX_HOURLY_RANGE_DAYS } from '@/lib/timeseries';
+
+const GRANULARITIES: TimeSeriesGranularity[] = ['day', 'hour'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const provider = searchParams.get('provider');
+    const workspace = searchParams.get('workspace') || undefined;
+    const projectId = searchParams.get('project_id') || undefined;
+    const startDate = searchParams.get('start_date');
+    const endDate = searchParams.get('end_date');
+    const granularity = (searchParams.get('granularity') || 'day') as TimeSeriesGranularity;
+
+    // Validate required parameters
+    if (!provider) {
+      return NextResponse.json(
+        { error: 'Missing required parameter: provider' },
+        { status: 400 }
+      );
+    }
+
+    if (!startDate || !endDate) {
+      return NextResponse.json(
+        { error: `Missing required parameter: ${!startDate ? 'start_date' : 'end_date'}` },
+        { status: 400 }
+      );
+    }
+
+    const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+    if (!dateRegex.test(startDate) || !dateRegex.test(endDate)) {
+      return NextResponse.json(
+        { error: 'Invalid date format. Use YYYY-MM-DD (ISO 8601)' },
+        { status: 400 }
+      );
+    }
+
+    if (!GRANULARITIES.includes(granularity)) {
+      return NextResponse.json(
+        { error: `Invalid granularity. Use one of: ${GRANULARITIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const rangeDays = (new Date(endDate).getTime() - new Date(startDate).getTime()) / 86_400_000 + 1;
+    if (granularity === 'hour' && rangeDays > MAX_HOURLY_RANGE_DAYS) {
+      return NextResponse.json(
+        { error: `Hourly series are limited to ${MAX_HOURLY_RANGE_DAYS} days` },
+        { status: 400 }
+      );
+    }
+
+    const providerInstance = getProvider(provider);
+
+    if (!providerInstance.getCostTimeSeries || !providerInstance.capabilities.timeSeries.includes(granularity)) {
+      return NextResponse.json(
+        { error: `Provider '${provider}' does not support ${granularity} time series` },
+        { status: 400 }
+      );
+    }
+
+    if (providerInstance.supportsWorkspaces && !workspace) {
+      return NextResponse.json(
+        { error: `Provider '${provider}' requires a workspace parameter` },
+        { status: 400 }
+      );
+    }
+
+    const series = await providerInstance.getCostTimeSeries(
+      { workspace, projectId, startDate, endDate },
+      granularity
+    );
+
+    return NextResponse.json(series);
+  } catch (error) {
+    console.error('Error fetching cost time series:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch cost time series',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
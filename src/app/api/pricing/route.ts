@@ -0,0 +1,71 @@
+/**
+ * API Route: GET /api/pricing
+ *
+ * Returns the model pricing catalog used to estimate costs, and the models
+ * of the stored usage entries of the last months that were priced with a
+ * provider's 'default' rate and are still missing from the catalog (none
+ * when no storage is configured).
+ * Query params:
+ * - provider: Provider ID (optional, filters the catalog and fallbacks)
+ * - months: Months scanned for fallbacks, current month included (1-24, default 3)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getPricingCatalog,
+  getPricingCatalogSource,
+} from '@/lib/pricing';
+import { getPricingFallbacks, isStorageConfigured } from '@/lib/storage';
+
+const DEFAULT_FALLBACK_MONTHS = 3;
+const MAX_FALLBACK_MONTHS = 24;
+
+export async function GET(request: NextRequest) {
+  try {
+    const provider = request.nextUrl.searchParams.get('provider');
+    const monthsParam = request.nextUrl.searchParams.get('months');
+    const months = monthsParam ? Number(monthsParam) : DEFAULT_FALLBACK_MONTHS;
+    if (!Number.isInteger(months) || months < 1 || months > MAX_FALLBACK_MONTHS) {
+      return NextResponse.json(
+        { error: `months must be an integer from 1 to ${MAX_FALLBACK_MONTHS}` },
+        { status: 400 }
+      );
+    }
+
+    const catalog = getPricingCatalog();
+
+    if (provider && !catalog.providers[provider]) {
+      return NextResponse.json(
+        { error: `No pricing found for provider '${provider}'` },
+        { status: 404 }
+      );
+    }
+
+    const providers = provider
+      ? { [provider]: catalog.providers[provider] }
+      : catalog.providers;
+
+    const fallbacks = isStorageConfigured()
+      ? (await getPricingFallbacks(months)).filter(
+        (fallback) => !provider || fallback.provider === provider
+      )
+      : [];
+
+    return NextResponse.json({
+      version: catalog.version,
+      source: getPricingCatalogSource(),
+      providers,
+      fallbacks,
+    });
+  } catch (error) {
+    console.error('Error fetching pricing catalog:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch pricing catalog',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
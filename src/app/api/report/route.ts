@@ -1,7 +1,7 @@
 /**
  * Report Data API
  *
- * Fetches monthly report data from Notion for display on the report page.
+ * Fetches monthly report data from the usage storage for display on the report page.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -10,8 +10,8 @@ import {
   getMonthSnapshots,
   getAllMonthlySummaries,
   getCurrentMonth,
-  isNotionConfigured,
-} from '@/lib/notion';
+  isStorageConfigured,
+} from '@/lib/storage';
 
 /**
  * GET /api/report
@@ -43,9 +43,9 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    if (!isNotionConfigured()) {
+    if (!isStorageConfigured()) {
       return NextResponse.json(
-        { error: 'Notion is not configured' },
+        { error: 'Storage is not configured' },
         { status: 500 }
       );
     }
@@ -0,0 +1,77 @@
+/**
+ * Collection Schedule Update API
+ *
+ * Security: Requires COLLECT_SECRET_TOKEN for authorization.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getScheduleValidationError,
+  isScheduleId,
+  listScheduleStatuses,
+  updateCollectionSchedule,
+  SCHEDULE_IDS,
+} from '@/lib/collection';
+
+/**
+ * PUT /api/schedules/:id
+ *
+ * Query params:
+ * - token: Secret token for authorization
+ *
+ * Body (all optional): { enabled, dayOfMonth (1-28), hour (0-23, UTC), sendEmail, catchUp }
+ * The changes take precedence over the SCHEDULE_* environment variables.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { searchParams } = new URL(request.url);
+  const token = searchParams.get('token');
+  const expectedToken = process.env.COLLECT_SECRET_TOKEN;
+
+  if (!expectedToken || token !== expectedToken) {
+    return NextResponse.json(
+      { error: 'Unauthorized: Invalid or missing token' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+    if (!isScheduleId(id)) {
+      return NextResponse.json(
+        { error: `Schedule '${id}' not found (expected ${SCHEDULE_IDS.join(', ')})` },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json(
+        { error: 'Invalid body: expected a JSON object' },
+        { status: 400 }
+      );
+    }
+
+    const validationError = getScheduleValidationError(body);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    await updateCollectionSchedule(id, body);
+    const schedule = (await listScheduleStatuses()).find(status => status.id === id);
+    console.log(`[Schedule] ${id} updated: ${JSON.stringify(body)}`);
+
+    return NextResponse.json({ success: true, schedule });
+  } catch (error) {
+    console.error('[Schedule] Update error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Update failed' },
+      { status: 500 }
+    );
+  }
+}
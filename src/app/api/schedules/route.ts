@@ -0,0 +1,47 @@
+/**
+ * Collection Schedules API
+ *
+ * Built-in schedules of the collection (monthly close, daily snapshot),
+ * see lib/collection/schedules.
+ *
+ * Security: Requires COLLECT_SECRET_TOKEN for authorization.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { listScheduleStatuses } from '@/lib/collection';
+
+/**
+ * GET /api/schedules
+ *
+ * Query params:
+ * - token: Secret token for authorization
+ *
+ * Returns each schedule with its last run, the periods due and its next run,
+ * and whether this process runs them (SCHEDULER_ENABLED) or an external cron
+ * has to call /api/schedules/tick.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const token = searchParams.get('token');
+  const expectedToken = process.env.COLLECT_SECRET_TOKEN;
+
+  if (!expectedToken || token !== expectedToken) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    return NextResponse.json({
+      schedules: await listScheduleStatuses(),
+      inProcess: process.env.SCHEDULER_ENABLED === 'true',
+    });
+  } catch (error) {
+    console.error('[Schedule] Status error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to read schedules' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Collection Schedules Tick API
+ *
+ * Starts the scheduled collections that are due, for deployments where no
+ * process stays up to run them (serverless): call it from a cron every hour
+ * or more often, e.g. Vercel Cron (GET) or GitHub Actions. Not needed with
+ * SCHEDULER_ENABLED=true.
+ *
+ * Security: Requires COLLECT_SECRET_TOKEN for authorization.
+ */
+
+import { after, NextRequest, NextResponse } from 'next/server';
+import { isStorageConfigured } from '@/lib/storage';
+import { listScheduleStatuses, runDueSchedules } from '@/lib/collection';
+
+/**
+ * GET /api/schedules/tick
+ *
+ * Query params:
+ * - token: Secret token for authorization
+ *
+ * Responds right away (202) with the periods due; their collections run
+ * once the response is sent, one after the other.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const token = searchParams.get('token');
+  const expectedToken = process.env.COLLECT_SECRET_TOKEN;
+
+  if (!expectedToken || token !== expectedToken) {
+    return NextResponse.json(
+      { error: 'Unauthorized: Invalid or missing token' },
+      { status: 401 }
+    );
+  }
+
+  if (!isStorageConfigured()) {
+    return NextResponse.json(
+      { error: 'Storage is not configured' },
+      { status: 500 }
+    );
+  }
+
+  try {
+    const due = (await listScheduleStatuses())
+      .filter(schedule => schedule.pending.length > 0)
+      .map(schedule => ({ id: schedule.id, periods: schedule.pending }));
+
+    if (due.length > 0) {
+      console.log(`[Schedule] Tick: ${due.map(schedule => `${schedule.id} ${schedule.periods.join(', ')}`).join('; ')}`);
+      // Runs once the response is sent
+      after(() => runDueSchedules());
+    }
+
+    return NextResponse.json({ success: true, due }, { status: due.length > 0 ? 202 : 200 });
+  } catch (error) {
+    console.error('[Schedule] Tick error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Tick failed' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/schedules/tick
+ *
+ * Same as GET, for crons sending POST requests.
+ */
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
@@ -9,8 +9,8 @@ import {
   getMonthlySummary,
   getMonthSnapshots,
   getCurrentMonth,
-  isNotionConfigured,
-} from '@/lib/notion';
+  isStorageConfigured,
+} from '@/lib/storage';
 import { sendReportEmail, isEmailConfigured } from '@/lib/email';
 
 /**
@@ -43,9 +43,9 @@ export async function POST(request: NextRequest) {
     }
 
     // Check configurations
-    if (!isNotionConfigured()) {
+    if (!isStorageConfigured()) {
       return NextResponse.json(
-        { error: 'Notion is not configured' },
+        { error: 'Storage is not configured' },
         { status: 500 }
       );
     }
@@ -59,7 +59,7 @@ export async function POST(request: NextRequest) {
 
     const targetMonth = searchParams.get('month') || getCurrentMonth();
 
-    // Fetch data from Notion
+    // Fetch data from the usage storage
     const [summaryResult, snapshots] = await Promise.all([
       getMonthlySummary(targetMonth),
       getMonthSnapshots(targetMonth),
@@ -13,11 +13,14 @@ import ProjectSelector from '@/components/ProjectSelector';
 import DateRangePicker from '@/components/DateRangePicker';
 import CostDisplay from '@/components/CostDisplay';
 import ModelBreakdown from '@/components/ModelBreakdown';
+import CostTimeSeriesChart from '@/components/CostTimeSeriesChart';
+import ConsolidatedCostView from '@/components/ConsolidatedCostView';
 import MonthlyCollectionPanel from '@/components/MonthlyCollectionPanel';
-import { CostData } from '@/lib/types';
+import { CostData, ProviderCapabilities } from '@/lib/types';
 
 export default function Home() {
   // State management
+  const [view, setView] = useState<'provider' | 'all'>('provider'); // 'all': every provider combined
   const [providerId, setProviderId] = useState('');
   const [workspaceId, setWorkspaceId] = useState('');
   const [projectId, setProjectId] = useState('');
@@ -25,6 +28,7 @@ export default function Home() {
   const [endDate, setEndDate] = useState('');
 
   const [supportsWorkspaces, setSupportsWorkspaces] = useState(false);
+  const [capabilities, setCapabilities] = useState<ProviderCapabilities | null>(null);
   const [costData, setCostData] = useState<CostData | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -57,6 +61,11 @@ export default function Home() {
       return;
     }
 
+    // Nothing to fetch for providers without usage data
+    if (capabilities && !capabilities.reportsCosts) {
+      return;
+    }
+
     try {
       setWorkspaceTotalLoading(true);
       setWorkspaceTotalError(null);
@@ -120,6 +129,7 @@ export default function Home() {
 
         if (provider) {
           setSupportsWorkspaces(provider.supportsWorkspaces);
+          setCapabilities(provider.capabilities || null);
 
           // Reset workspace if provider doesn't support it
           if (!provider.supportsWorkspaces) {
@@ -134,9 +144,13 @@ export default function Home() {
     checkWorkspaceSupport();
   }, [providerId]);
 
-  // Fetch cost data
-  const fetchCosts = async () => {
-    if (!providerId || !projectId || !startDate || !endDate) {
+  // A project is only selected when the provider can split costs by project
+  const requiresProject = capabilities?.projectCosts !== false;
+  const reportsCosts = capabilities?.reportsCosts !== false;
+
+  // Fetch cost data (forceRefresh: bypass the server cache)
+  const fetchCosts = async (forceRefresh: boolean = false) => {
+    if (!providerId || (requiresProject && !projectId) || !startDate || !endDate || !reportsCosts) {
       return;
     }
 
@@ -151,15 +165,22 @@ export default function Home() {
 
       const params = new URLSearchParams({
         provider: providerId,
-        project_id: projectId,
         start_date: startDate,
         end_date: endDate,
       });
 
+      if (projectId) {
+        params.append('project_id', projectId);
+      }
+
       if (workspaceId) {
         params.append('workspace', workspaceId);
       }
 
+      if (forceRefresh) {
+        params.append('refresh', 'true');
+      }
+
       const response = await fetch(`/api/costs?${params.toString()}`);
 
       if (!response.ok) {
@@ -179,23 +200,23 @@ export default function Home() {
 
   // Auto-fetch when all required fields are filled
   useEffect(() => {
-    if (providerId && projectId && startDate && endDate) {
+    if (view === 'provider' && providerId && (projectId || !requiresProject) && startDate && endDate) {
       if (supportsWorkspaces && !workspaceId) {
         return; // Wait for workspace selection
       }
       fetchCosts();
     }
-  }, [providerId, workspaceId, projectId, startDate, endDate]);
+  }, [view, providerId, workspaceId, projectId, startDate, endDate, requiresProject]);
 
   // Auto-fetch workspace total when workspace and dates are set
   useEffect(() => {
-    if (providerId && workspaceId && workspaceTotalStartDate && workspaceTotalEndDate) {
+    if (view === 'provider' && providerId && workspaceId && workspaceTotalStartDate && workspaceTotalEndDate) {
       fetchWorkspaceTotal();
     }
-  }, [providerId, workspaceId, workspaceTotalStartDate, workspaceTotalEndDate]);
+  }, [view, providerId, workspaceId, workspaceTotalStartDate, workspaceTotalEndDate]);
 
   // Determine if we can show results
-  const canShowResults = providerId && projectId && startDate && endDate &&
+  const canShowResults = providerId && (projectId || !requiresProject) && startDate && endDate &&
                          (!supportsWorkspaces || workspaceId);
   
   // Determine if we can show workspace total
@@ -217,9 +238,34 @@ export default function Home() {
         {/* Monthly Collection Panel */}
         <MonthlyCollectionPanel />
 
+        {/* View Selection */}
+        <div className="flex gap-2 mb-4">
+          <button
+            onClick={() => setView('provider')}
+            className={`px-4 py-2 rounded-md font-medium transition-colors ${
+              view === 'provider'
+                ? 'bg-blue-600 text-white'
+                : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-100'
+            }`}
+          >
+            By Provider
+          </button>
+          <button
+            onClick={() => setView('all')}
+            className={`px-4 py-2 rounded-md font-medium transition-colors ${
+              view === 'all'
+                ? 'bg-blue-600 text-white'
+                : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-100'
+            }`}
+          >
+            All Providers
+          </button>
+        </div>
+
         {/* Selection Panel */}
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-8">
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {/* Kept mounted in the "All Providers" view to preserve the selection */}
+          <div className={`grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 ${view === 'all' ? 'hidden' : ''}`}>
             {/* Provider Selector */}
             <ProviderSelector
               value={providerId}
@@ -242,43 +288,63 @@ export default function Home() {
               visible={supportsWorkspaces}
             />
 
-            {/* Project Selector */}
-            <ProjectSelector
-              providerId={providerId}
-              workspaceId={workspaceId}
-              value={projectId}
-              onChange={(id) => {
-                setProjectId(id);
-                setCostData(null); // Clear results
-              }}
-              supportsWorkspaces={supportsWorkspaces}
-            />
+            {/* Project Selector (only when costs can be split by project) */}
+            {requiresProject && (
+              <ProjectSelector
+                providerId={providerId}
+                workspaceId={workspaceId}
+                value={projectId}
+                onChange={(id) => {
+                  setProjectId(id);
+                  setCostData(null); // Clear results
+                }}
+                supportsWorkspaces={supportsWorkspaces}
+              />
+            )}
           </div>
 
           {/* Date Range Picker */}
-          <div className="mt-6 pt-6 border-t border-gray-200">
+          <div className={view === 'provider' ? 'mt-6 pt-6 border-t border-gray-200' : ''}>
             <DateRangePicker
               startDate={startDate}
               endDate={endDate}
               onStartDateChange={setStartDate}
               onEndDateChange={setEndDate}
             />
+            {view === 'provider' && capabilities && !capabilities.dateRange && (
+              <p className="mt-3 text-sm text-amber-700">
+                This provider only reports fixed windows (today, last 7 days, last 30 days, total):
+                the window closest to the selected range is shown.
+              </p>
+            )}
+            {view === 'provider' && capabilities && capabilities.dateRange && !capabilities.dailyGranularity && (
+              <p className="mt-3 text-sm text-amber-700">
+                This provider reports monthly totals: a partial month may include usage outside the selected range.
+              </p>
+            )}
           </div>
 
           {/* Refresh Button */}
-          <div className="mt-6 pt-6 border-t border-gray-200">
-            <button
-              onClick={fetchCosts}
-              disabled={!canShowResults || loading}
-              className="px-6 py-3 bg-blue-600 text-white font-medium rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
-            >
-              {loading ? 'Loading...' : 'Refresh Data'}
-            </button>
-          </div>
+          {view === 'provider' && (
+            <div className="mt-6 pt-6 border-t border-gray-200">
+              <button
+                onClick={() => fetchCosts(true)}
+                disabled={!canShowResults || loading}
+                className="px-6 py-3 bg-blue-600 text-white font-medium rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+              >
+                {loading ? 'Loading...' : 'Refresh Data'}
+              </button>
+            </div>
+          )}
         </div>
 
+        {/* All Providers View */}
+        {view === 'all' && (
+          <ConsolidatedCostView startDate={startDate} endDate={endDate} />
+        )}
+
         {/* Project-Specific Results Section */}
-        {error && (
+        {view === 'provider' && error && (
           <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-8">
             <p className="text-red-800">
               <strong>Error:</strong> {error}
@@ -286,28 +352,62 @@ export default function Home() {
           </div>
         )}
 
-        {loading && (
+        {view === 'provider' && loading && (
           <div className="text-center py-12">
             <div className="inline-block h-12 w-12 animate-spin rounded-full border-4 border-solid border-blue-600 border-r-transparent"></div>
             <p className="mt-4 text-gray-600">Loading cost data...</p>
           </div>
         )}
 
-        {!loading && costData && (
+        {view === 'provider' && !reportsCosts && canShowResults && (
+          <CostDisplay
+            available={false}
+            totalCost={0}
+            lastUpdated=""
+            provider={providerId}
+          />
+        )}
+
+        {view === 'provider' && !loading && costData && (
           <div className="space-y-6">
             {/* Total Cost Display */}
             <CostDisplay
               totalCost={costData.total_cost_usd}
               lastUpdated={costData.last_updated}
               provider={providerId}
+              billedCost={costData.billed_cost_usd}
+              estimatedCost={costData.estimated_cost_usd}
+              discrepancyPercent={costData.discrepancy_percent}
+              costSource={capabilities?.costSource}
+              cache={costData.cache}
             />
 
+            {/* Cost over time (providers with dated usage) */}
+            {capabilities && capabilities.timeSeries.length > 0 && (
+              <CostTimeSeriesChart
+                providerId={providerId}
+                workspaceId={workspaceId || undefined}
+                projectId={projectId || undefined}
+                startDate={startDate}
+                endDate={endDate}
+                granularities={capabilities.timeSeries}
+              />
+            )}
+
             {/* Model Breakdown Table */}
             <ModelBreakdown breakdown={costData.breakdown} />
+
+            {/* Billed line items (providers exposing a billing API) */}
+            {costData.billed_breakdown && costData.billed_breakdown.length > 0 && (
+              <ModelBreakdown
+                breakdown={costData.billed_breakdown}
+                title="Billed Line Items"
+              />
+            )}
           </div>
         )}
 
-        {!loading && !costData && canShowResults && (
+        {view === 'provider' && !loading && !costData && canShowResults && reportsCosts && (
           <div className="text-center py-12 bg-white rounded-lg border border-gray-200">
             <p className="text-gray-500">
               Click &quot;Refresh Data&quot; to load cost information
@@ -316,7 +416,7 @@ export default function Home() {
         )}
 
         {/* Workspace Total Section - At Bottom */}
-        {supportsWorkspaces && workspaceId && (
+        {view === 'provider' && supportsWorkspaces && workspaceId && (
           <div className="bg-gradient-to-r from-indigo-600 to-purple-600 rounded-lg shadow-lg p-6 mt-8 text-white">
             <h2 className="text-2xl font-bold mb-4">
               📊 Workspace Total {providerId === 'anthropic' ? '(All API Keys)' : '(All Projects)'}
@@ -418,33 +518,19 @@ export default function Home() {
             )}
 
             {/* Workspace Total Result */}
-            {!workspaceTotalLoading && workspaceTotalCostData && (
+            {!workspaceTotalLoading && (workspaceTotalCostData || !reportsCosts) && (
               <div className="space-y-4">
-                {/* Check if usage is not available (indicated by -1) */}
-                {workspaceTotalCostData.total_cost_usd < 0 ? (
+                {/* Providers without usage data */}
+                {!reportsCosts ? (
                   <div className="bg-amber-500/20 border border-amber-300/50 rounded-lg p-4">
                     <div className="text-xl font-semibold">
                       ⚠️ Usage Data Not Available via API
                     </div>
                     <div className="text-sm text-white/90 mt-2">
-                      {providerId === 'anthropic' && (
-                        <>
-                          Anthropic does not expose usage/billing data via their API.
-                          <br />
-                          Check your usage manually at:{' '}
-                          <a 
-                            href="https://console.anthropic.com/settings/billing" 
-                            target="_blank" 
-                            rel="noopener noreferrer"
-                            className="underline font-medium hover:text-white"
-                          >
-                            console.anthropic.com/settings/billing
-                          </a>
-                        </>
-                      )}
+                      This provider does not expose usage or billing data through its API.
                     </div>
                   </div>
-                ) : (
+                ) : workspaceTotalCostData && (
                   <>
                     <div className="bg-white/10 rounded-lg p-4">
                       <div className="text-4xl font-bold">
@@ -16,8 +16,19 @@ interface ProviderSnapshot {
   provider: string;
   totalCostUsd: number;
   requests: number;
-  breakdown: Array<{ model: string; cost_usd: number; requests: number }>;
+  breakdown: Array<{
+    model: string;
+    cost_usd: number;
+    requests: number;
+    pricing_source?: 'exact' | 'prefix' | 'default' | 'provider';
+  }>;
   collectedAt: string;
+  // Entries collected with missing periods ('Partiel') or failed ('Echec')
+  incomplete?: Array<{
+    name: string;
+    status: string;
+    details: string[];
+  }>;
 }
 
 interface MonthlySummary {
@@ -164,6 +175,7 @@ function ReportContent() {
   }
 
   const { summary, providers } = data;
+  const incompleteProviders = providers.filter(provider => provider.incomplete?.length);
 
   return (
     <div className="min-h-screen bg-slate-950 text-white">
@@ -230,6 +242,14 @@ function ReportContent() {
           </div>
         )}
 
+        {/* Incomplete data warning */}
+        {incompleteProviders.length > 0 && (
+          <div className="bg-amber-950/40 border border-amber-800/60 rounded-2xl px-6 py-4 mb-8 text-sm text-amber-200">
+            ⚠ Données incomplètes pour {incompleteProviders.map(provider => getProviderName(provider.provider)).join(', ')} :
+            les totaux de ce mois n&apos;incluent pas les périodes manquantes.
+          </div>
+        )}
+
         {/* Provider Breakdown */}
         <div className="space-y-4">
           <h2 className="text-xl font-semibold text-slate-300 mb-4">
@@ -258,6 +278,22 @@ function ReportContent() {
                   </div>
                 </div>
 
+                {/* Incomplete entries */}
+                {provider.incomplete && provider.incomplete.length > 0 && (
+                  <div className="bg-amber-950/40 border border-amber-800/60 rounded-lg px-4 py-3 mb-4 text-sm">
+                    <p className="text-amber-300 font-medium mb-1">⚠ Données incomplètes</p>
+                    <ul className="space-y-1 text-amber-200/80">
+                      {provider.incomplete.map((entry, idx) => (
+                        <li key={idx}>
+                          <span className="font-mono">{entry.name}</span>
+                          {' '}({entry.status === 'Echec' ? 'échec' : 'partiel'})
+                          {entry.details.length > 0 && `: ${entry.details.join(' ; ')}`}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 {/* Model breakdown */}
                 {provider.breakdown.length > 0 && (
                   <div className="border-t border-slate-800 pt-4 mt-4">
@@ -275,6 +311,14 @@ function ReportContent() {
                           >
                             <span className="text-slate-300 font-mono truncate max-w-[60%]">
                               {model.model}
+                              {(model.pricing_source === 'prefix' || model.pricing_source === 'default') && (
+                                <span
+                                  className="ml-2 px-2 py-0.5 rounded text-xs font-sans bg-amber-500/20 text-amber-300"
+                                  title="Modèle absent du catalogue de tarifs : coût estimé, non facturé"
+                                >
+                                  Estimé
+                                </span>
+                              )}
                             </span>
                             <div className="flex items-center gap-4">
                               <span className="text-slate-500">
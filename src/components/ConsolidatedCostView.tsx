@@ -0,0 +1,218 @@
+'use client';
+
+/**
+ * ConsolidatedCostView Component
+ *
+ * "All providers" view: combined total of every provider and workspace for
+ * the selected date range, with a table per provider and per workspace.
+ * Providers or workspaces that failed are flagged, and the total is marked
+ * as partial.
+ */
+
+import { useEffect, useState } from 'react';
+import { ConsolidatedCostData, ConsolidatedCostEntry, ProviderCostSummary } from '@/lib/types';
+
+interface ConsolidatedCostViewProps {
+  startDate: string;
+  endDate: string;
+}
+
+export default function ConsolidatedCostView({ startDate, endDate }: ConsolidatedCostViewProps) {
+  const [data, setData] = useState<ConsolidatedCostData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0); // Incremented by the Refresh button
+
+  useEffect(() => {
+    if (!startDate || !endDate) {
+      return;
+    }
+
+    async function fetchAll() {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const params = new URLSearchParams({ start_date: startDate, end_date: endDate });
+        const response = await fetch(`/api/costs/all?${params.toString()}`);
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.message || errorData.error || 'Failed to fetch costs');
+        }
+
+        setData(await response.json());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load costs of all providers');
+        console.error('Error fetching costs of all providers:', err);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchAll();
+  }, [startDate, endDate, refreshKey]);
+
+  // Format cost with 2 decimal places
+  const formatCost = (cost: number): string => {
+    return cost.toFixed(2);
+  };
+
+  const calculatePercentage = (cost: number): string => {
+    if (!data || data.total_cost_usd === 0) return '0';
+    return ((cost / data.total_cost_usd) * 100).toFixed(1);
+  };
+
+  const statusBadge = (status: ProviderCostSummary['status'] | ConsolidatedCostEntry['status'], error?: string) => {
+    switch (status) {
+      case 'ok':
+        return null;
+      case 'partial':
+        return <span className="px-2 py-0.5 text-xs rounded bg-amber-100 text-amber-800">Partial</span>;
+      case 'unavailable':
+        return <span className="px-2 py-0.5 text-xs rounded bg-gray-100 text-gray-600">No usage data</span>;
+      case 'error':
+        return (
+          <span className="px-2 py-0.5 text-xs rounded bg-red-100 text-red-800" title={error}>
+            Failed
+          </span>
+        );
+    }
+  };
+
+  const workspacesOf = (providerId: string): ConsolidatedCostEntry[] =>
+    (data?.entries || []).filter((entry) => entry.provider_id === providerId && entry.workspace_id);
+
+  return (
+    <div className="space-y-6">
+      {/* Combined Total */}
+      <div className="bg-gradient-to-br from-blue-50 to-indigo-50 border border-blue-200 rounded-lg p-6 shadow-sm">
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex flex-col gap-2">
+            <h2 className="text-sm font-medium text-gray-600 uppercase tracking-wide">
+              Total Cost (All Providers)
+            </h2>
+            {data && !loading ? (
+              <>
+                <div className="text-5xl font-bold text-gray-900">
+                  ${formatCost(data.total_cost_usd)}
+                </div>
+                {data.failed_count > 0 && (
+                  <p className="text-sm text-amber-700">
+                    Partial total: {data.failed_count} provider workspace(s) could not be loaded.
+                  </p>
+                )}
+              </>
+            ) : (
+              <div className="h-12 w-48 bg-blue-100 rounded-md animate-pulse" />
+            )}
+          </div>
+          <button
+            onClick={() => setRefreshKey((key) => key + 1)}
+            disabled={loading}
+            className="px-4 py-2 bg-blue-600 text-white font-medium rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            {loading ? 'Loading...' : 'Refresh'}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-800">
+            <strong>Error:</strong> {error}
+          </p>
+        </div>
+      )}
+
+      {/* Per provider / per workspace table */}
+      {data && !loading && (
+        <div className="bg-white border border-gray-200 rounded-lg overflow-hidden shadow-sm">
+          <div className="px-6 py-4 bg-gray-50 border-b border-gray-200">
+            <h2 className="text-sm font-medium text-gray-700 uppercase tracking-wide">
+              Cost by Provider
+            </h2>
+          </div>
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Provider / Workspace</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Cost (USD)</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">% of Total</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {data.providers.map((provider) => {
+                const providerError = data.entries.find(
+                  (entry) => entry.provider_id === provider.provider_id && !entry.workspace_id
+                )?.error;
+
+                return [
+                  <tr key={provider.provider_id} className="bg-gray-50/50">
+                    <td className="px-6 py-3 text-sm font-semibold text-gray-900">
+                      <div className="flex items-center gap-2">
+                        {provider.provider_name}
+                        {provider.cost_source === 'estimated' && provider.status !== 'unavailable' && (
+                          <span className="text-xs font-normal text-gray-500">(estimated)</span>
+                        )}
+                        {provider.cost_source === 'mixed' && provider.status !== 'unavailable' && (
+                          <span className="text-xs font-normal text-gray-500">(partly estimated)</span>
+                        )}
+                        {statusBadge(provider.status, providerError)}
+                      </div>
+                    </td>
+                    <td className="px-6 py-3 text-sm font-semibold text-gray-900 text-right">
+                      ${formatCost(provider.total_cost_usd)}
+                    </td>
+                    <td className="px-6 py-3 text-sm text-gray-600 text-right">
+                      {calculatePercentage(provider.total_cost_usd)}%
+                    </td>
+                  </tr>,
+                  ...workspacesOf(provider.provider_id).map((entry) => (
+                    <tr key={`${provider.provider_id}:${entry.workspace_id}`}>
+                      <td className="pl-12 pr-6 py-2 text-sm text-gray-700">
+                        <div className="flex items-center gap-2">
+                          {entry.workspace_name || entry.workspace_id}
+                          {provider.cost_source === 'mixed' && entry.status === 'ok' && entry.cost_source === 'estimated' && (
+                            <span className="text-xs text-gray-500">(estimated)</span>
+                          )}
+                          {statusBadge(entry.status, entry.error)}
+                        </div>
+                      </td>
+                      <td className="px-6 py-2 text-sm text-gray-700 text-right">
+                        {entry.status === 'ok' ? `$${formatCost(entry.total_cost_usd)}` : '—'}
+                      </td>
+                      <td className="px-6 py-2 text-sm text-gray-500 text-right">
+                        {entry.status === 'ok' ? `${calculatePercentage(entry.total_cost_usd)}%` : ''}
+                      </td>
+                    </tr>
+                  )),
+                ];
+              })}
+            </tbody>
+          </table>
+
+          {/* Failure details */}
+          {data.failed_count > 0 && (
+            <div className="px-6 py-4 bg-red-50 border-t border-red-200">
+              <h3 className="text-sm font-medium text-red-800 mb-2">Failed</h3>
+              <ul className="space-y-1 text-sm text-red-700">
+                {data.entries
+                  .filter((entry) => entry.status === 'error')
+                  .map((entry) => (
+                    <li key={`${entry.provider_id}:${entry.workspace_id || ''}`}>
+                      <strong>
+                        {entry.provider_name}
+                        {entry.workspace_name ? ` / ${entry.workspace_name}` : ''}:
+                      </strong>{' '}
+                      {entry.error}
+                    </li>
+                  ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,17 +3,38 @@
 /**
  * CostDisplay Component
  *
- * Displays the total cost prominently in a card.
- * Handles special case of -1 meaning "usage data not available via API"
+ * Displays the total cost prominently in a card, or a notice for providers
+ * that do not expose usage data (`available` = false).
+ * When the provider reports billed amounts, the token-based estimate and the
+ * gap between both are shown below the total.
+ * Cached responses show how long ago the data was fetched.
  */
 
+import { CacheMetadata, CostSource } from '@/lib/types';
+
 interface CostDisplayProps {
   totalCost: number;
   lastUpdated: string;
   provider?: string;
+  billedCost?: number;
+  estimatedCost?: number;
+  discrepancyPercent?: number;
+  available?: boolean;                      // false: provider has no usage data (default: true)
+  costSource?: CostSource;                  // From the provider capabilities
+  cache?: CacheMetadata;                    // From the /api/costs response
 }
 
-export default function CostDisplay({ totalCost, lastUpdated, provider }: CostDisplayProps) {
+export default function CostDisplay({
+  totalCost,
+  lastUpdated,
+  provider,
+  billedCost,
+  estimatedCost,
+  discrepancyPercent,
+  available = true,
+  costSource,
+  cache,
+}: CostDisplayProps) {
   // Format the last updated timestamp
   const formatTimestamp = (isoString: string): string => {
     const date = new Date(isoString);
@@ -23,15 +44,21 @@ export default function CostDisplay({ totalCost, lastUpdated, provider }: CostDi
     }).format(date);
   };
 
+  // Format the age of cached data ("just now", "12 minutes ago", "3 hours ago")
+  const formatAge = (seconds: number): string => {
+    const minutes = Math.floor(seconds / 60);
+    if (minutes < 1) return 'just now';
+    if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'} ago`;
+    const hours = Math.floor(minutes / 60);
+    return `${hours} hour${hours === 1 ? '' : 's'} ago`;
+  };
+
   // Format cost with 2 decimal places
   const formatCost = (cost: number): string => {
     return cost.toFixed(2);
   };
 
-  // Check if usage data is not available (indicated by -1)
-  const isUsageNotAvailable = totalCost < 0;
-
-  if (isUsageNotAvailable) {
+  if (!available) {
     return (
       <div className="bg-gradient-to-br from-amber-50 to-orange-50 border border-amber-300 rounded-lg p-6 shadow-sm">
         <div className="flex flex-col gap-2">
@@ -39,29 +66,14 @@ export default function CostDisplay({ totalCost, lastUpdated, provider }: CostDi
             ⚠️ Usage Data Not Available
           </h2>
           <div className="text-xl font-semibold text-amber-900">
-            {provider === 'anthropic' 
-              ? 'Anthropic does not expose usage data via their API'
-              : 'Usage data not available via API'
-            }
+            Usage data not available via API
+            {provider && <span className="text-base font-normal"> ({provider})</span>}
           </div>
-          <p className="text-sm text-amber-700 mt-2">
-            {provider === 'anthropic' && (
-              <>
-                Check your usage manually at:{' '}
-                <a 
-                  href="https://console.anthropic.com/settings/billing" 
-                  target="_blank" 
-                  rel="noopener noreferrer"
-                  className="underline font-medium hover:text-amber-900"
-                >
-                  console.anthropic.com/settings/billing
-                </a>
-              </>
-            )}
-          </p>
-          <p className="text-xs text-amber-600 mt-2">
-            Checked at: {formatTimestamp(lastUpdated)}
-          </p>
+          {lastUpdated && (
+            <p className="text-xs text-amber-600 mt-2">
+              Checked at: {formatTimestamp(lastUpdated)}
+            </p>
+          )}
         </div>
       </div>
     );
@@ -71,13 +83,40 @@ export default function CostDisplay({ totalCost, lastUpdated, provider }: CostDi
     <div className="bg-gradient-to-br from-blue-50 to-indigo-50 border border-blue-200 rounded-lg p-6 shadow-sm">
       <div className="flex flex-col gap-2">
         <h2 className="text-sm font-medium text-gray-600 uppercase tracking-wide">
-          Total Cost
+          {billedCost !== undefined
+            ? 'Total Cost (billed)'
+            : costSource === 'estimated' || costSource === 'mixed' ? 'Total Cost (estimated from usage)' : 'Total Cost'}
         </h2>
         <div className="text-4xl font-bold text-blue-900">
           ${formatCost(totalCost)}
         </div>
+        {billedCost !== undefined && estimatedCost !== undefined && (
+          <p className="text-sm text-gray-600">
+            Estimated from usage: ${formatCost(estimatedCost)}
+            {discrepancyPercent !== undefined && (
+              <span
+                className={`ml-2 font-medium ${
+                  Math.abs(discrepancyPercent) > 5 ? 'text-amber-700' : 'text-gray-500'
+                }`}
+              >
+                ({discrepancyPercent > 0 ? '+' : ''}{discrepancyPercent.toFixed(1)}% vs billed)
+              </span>
+            )}
+          </p>
+        )}
         <p className="text-xs text-gray-500 mt-2">
           Last updated: {formatTimestamp(lastUpdated)}
+          {cache && (cache.status === 'hit' || cache.status === 'stale') && (
+            <span className="ml-2">
+              · cached {formatAge(cache.age_seconds)}
+              {cache.status === 'stale' && ' (refreshing in the background)'}
+            </span>
+          )}
+          {cache && !!cache.closed_segments && (
+            <span className="ml-2">
+              · {cache.closed_segments} closed month{cache.closed_segments === 1 ? '' : 's'} from cache
+            </span>
+          )}
         </p>
       </div>
     </div>
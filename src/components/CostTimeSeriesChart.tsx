@@ -0,0 +1,245 @@
+'use client';
+
+/**
+ * CostTimeSeriesChart Component
+ *
+ * Stacked-area chart of costs per day (or per hour) and per model.
+ * Loads /api/costs/timeseries for the current selection; only rendered for
+ * providers listing at least one granularity in capabilities.timeSeries.
+ * Models beyond the most expensive ones are grouped as "Other".
+ */
+
+import { useEffect, useState } from 'react';
+import { CostTimeSeries, TimeSeriesGranularity } from '@/lib/types';
+
+interface CostTimeSeriesChartProps {
+  providerId: string;
+  workspaceId?: string;
+  projectId?: string;
+  startDate: string;
+  endDate: string;
+  granularities: TimeSeriesGranularity[];  // From the provider capabilities
+}
+
+const MAX_SERIES = 7;
+const COLORS = ['#2563eb', '#7c3aed', '#db2777', '#ea580c', '#16a34a', '#0891b2', '#ca8a04', '#6b7280'];
+
+// Chart area, in SVG units
+const WIDTH = 800;
+const HEIGHT = 260;
+const PADDING = { top: 10, right: 10, bottom: 30, left: 60 };
+
+export default function CostTimeSeriesChart({
+  providerId,
+  workspaceId,
+  projectId,
+  startDate,
+  endDate,
+  granularities,
+}: CostTimeSeriesChartProps) {
+  const [granularity, setGranularity] = useState<TimeSeriesGranularity>(granularities[0] || 'day');
+  const [series, setSeries] = useState<CostTimeSeries | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Keep the selected granularity among the supported ones
+  useEffect(() => {
+    if (!granularities.includes(granularity)) {
+      setGranularity(granularities[0] || 'day');
+    }
+  }, [granularities, granularity]);
+
+  useEffect(() => {
+    if (!providerId || !startDate || !endDate || !granularities.includes(granularity)) {
+      return;
+    }
+
+    async function fetchSeries() {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const params = new URLSearchParams({
+          provider: providerId,
+          start_date: startDate,
+          end_date: endDate,
+          granularity,
+        });
+        if (workspaceId) {
+          params.append('workspace', workspaceId);
+        }
+        if (projectId) {
+          params.append('project_id', projectId);
+        }
+
+        const response = await fetch(`/api/costs/timeseries?${params.toString()}`);
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.message || errorData.error || 'Failed to fetch cost series');
+        }
+
+        setSeries(await response.json());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load cost series');
+        console.error('Error fetching cost series:', err);
+        setSeries(null);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchSeries();
+  }, [providerId, workspaceId, projectId, startDate, endDate, granularity, granularities]);
+
+  // Format a bucket timestamp for the axis and tooltips
+  const formatBucket = (timestamp: string): string => {
+    const date = new Date(timestamp);
+    return new Intl.DateTimeFormat('en-US', granularity === 'hour'
+      ? { month: 'short', day: 'numeric', hour: '2-digit', timeZone: 'UTC' }
+      : { month: 'short', day: 'numeric', timeZone: 'UTC' }
+    ).format(date);
+  };
+
+  // Top models keep their own area, the rest is summed as "Other"
+  const models = series ? series.models.slice(0, MAX_SERIES) : [];
+  const hasOther = !!series && series.models.length > MAX_SERIES;
+  const layers = hasOther ? [...models, 'Other'] : models;
+
+  const values = (series?.points || []).map((point) => {
+    const shown = models.map((model) => point.models[model] || 0);
+    if (hasOther) {
+      shown.push(point.total_cost_usd - shown.reduce((sum, value) => sum + value, 0));
+    }
+    return shown;
+  });
+
+  // Cumulative values: stacks[i][j] = top of layer j at point i
+  const stacks = values.map((row) => {
+    let sum = 0;
+    return row.map((value) => (sum += value));
+  });
+  const maxValue = Math.max(...stacks.map((row) => row[row.length - 1] || 0), 0);
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const count = stacks.length;
+  const x = (index: number): number =>
+    PADDING.left + (count > 1 ? (index / (count - 1)) * plotWidth : plotWidth / 2);
+  const y = (value: number): number =>
+    PADDING.top + plotHeight - (maxValue > 0 ? (value / maxValue) * plotHeight : 0);
+
+  const areaPath = (layer: number): string => {
+    const top = stacks.map((row, i) => `${x(i)},${y(row[layer])}`);
+    const bottom = stacks
+      .map((row, i) => `${x(i)},${y(layer > 0 ? row[layer - 1] : 0)}`)
+      .reverse();
+    return `M${top.join('L')}L${bottom.join('L')}Z`;
+  };
+
+  const yTicks = [0, 0.25, 0.5, 0.75, 1].map((ratio) => ratio * maxValue);
+  const xTicks = count > 1 ? [0, Math.floor((count - 1) / 2), count - 1] : [0];
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg overflow-hidden shadow-sm">
+      <div className="px-6 py-4 bg-gray-50 border-b border-gray-200 flex items-center justify-between">
+        <h2 className="text-sm font-medium text-gray-700 uppercase tracking-wide">
+          Cost Over Time
+          {series?.cost_source === 'estimated' && (
+            <span className="ml-2 normal-case text-gray-500">(estimated from usage)</span>
+          )}
+        </h2>
+        {granularities.length > 1 && (
+          <div className="flex gap-2">
+            {granularities.map((option) => (
+              <button
+                key={option}
+                onClick={() => setGranularity(option)}
+                className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                  granularity === option
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-100'
+                }`}
+              >
+                {option === 'day' ? 'Daily' : 'Hourly'}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="p-6">
+        {loading && (
+          <p className="text-center text-gray-500 py-12">Loading cost series...</p>
+        )}
+
+        {!loading && error && (
+          <p className="text-center text-red-700 py-12">{error}</p>
+        )}
+
+        {!loading && !error && series && layers.length === 0 && (
+          <p className="text-center text-gray-500 py-12">No cost data available for this period.</p>
+        )}
+
+        {!loading && !error && series && layers.length > 0 && (
+          <>
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Cost over time by model">
+              {/* Y axis grid and labels */}
+              {yTicks.map((tick) => (
+                <g key={tick}>
+                  <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} stroke="#e5e7eb" />
+                  <text x={PADDING.left - 8} y={y(tick)} textAnchor="end" dominantBaseline="middle" fontSize="11" fill="#6b7280">
+                    ${tick.toFixed(2)}
+                  </text>
+                </g>
+              ))}
+
+              {/* Stacked areas, first layer at the bottom */}
+              {layers.map((layer, index) => (
+                <path key={layer} d={areaPath(index)} fill={COLORS[index % COLORS.length]} fillOpacity={0.75} />
+              ))}
+
+              {/* X axis labels */}
+              {xTicks.map((index) => (
+                <text key={index} x={x(index)} y={HEIGHT - 8} textAnchor="middle" fontSize="11" fill="#6b7280">
+                  {formatBucket(series.points[index].timestamp)}
+                </text>
+              ))}
+
+              {/* Hover targets with the bucket details */}
+              {series.points.map((point, index) => (
+                <rect
+                  key={point.timestamp}
+                  x={x(index) - plotWidth / Math.max(count, 1) / 2}
+                  y={PADDING.top}
+                  width={plotWidth / Math.max(count, 1)}
+                  height={plotHeight}
+                  fill="transparent"
+                >
+                  <title>
+                    {[
+                      `${formatBucket(point.timestamp)}: $${point.total_cost_usd.toFixed(2)}`,
+                      ...layers
+                        .map((layer, j) => ({ layer, value: values[index][j] }))
+                        .filter(({ value }) => value > 0)
+                        .map(({ layer, value }) => `${layer}: $${value.toFixed(2)}`),
+                    ].join('\n')}
+                  </title>
+                </rect>
+              ))}
+            </svg>
+
+            {/* Legend */}
+            <div className="flex flex-wrap gap-4 mt-4">
+              {layers.map((layer, index) => (
+                <div key={layer} className="flex items-center gap-2 text-sm text-gray-700">
+                  <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: COLORS[index % COLORS.length] }} />
+                  {layer}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,21 +4,53 @@
  * ModelBreakdown Component
  *
  * Displays a table with cost breakdown by model.
- * Shows native model names from each LLM provider.
+ * Shows native model names from each LLM provider, with token counts
+ * (or characters / audio hours for TTS and STT providers) when available.
+ * Rows priced without an exact catalog match are badged as estimates.
  */
 
-import { ModelCost } from '@/lib/types';
+import { ModelCost, PricingSource, UsageUnitType } from '@/lib/types';
 
 interface ModelBreakdownProps {
   breakdown: ModelCost[];
+  title?: string;
 }
 
-export default function ModelBreakdown({ breakdown }: ModelBreakdownProps) {
+export default function ModelBreakdown({
+  breakdown,
+  title = 'Cost Breakdown by Model',
+}: ModelBreakdownProps) {
   // Format cost with 2 decimal places
   const formatCost = (cost: number): string => {
     return cost.toFixed(2);
   };
 
+  // Format non-token units with their unit label
+  const formatUnits = (units: number, unitType?: UsageUnitType): string => {
+    switch (unitType) {
+      case 'audio_hours':
+        return `${units.toFixed(2)} h`;
+      case 'audio_minutes':
+        return `${units.toFixed(1)} min`;
+      case 'images':
+        return `${units.toLocaleString()} images`;
+      case 'gb_days':
+        return `${units.toFixed(2)} GB-days`;
+      case 'sessions':
+        return `${units.toLocaleString()} sessions`;
+      case 'model_unit_hours':
+        return `${units.toFixed(1)} model unit-h`;
+      default:
+        return `${units.toLocaleString()} chars`;
+    }
+  };
+
+  // Costs priced from a similar model or the provider default are guesses
+  const isEstimated = (source?: PricingSource): boolean => {
+    return source === 'prefix' || source === 'default';
+  };
+  const hasEstimates = breakdown.some((item) => isEstimated(item.pricing_source));
+
   // Calculate percentage of total
   const totalCost = breakdown.reduce((sum, item) => sum + item.cost_usd, 0);
   const calculatePercentage = (cost: number): string => {
@@ -26,6 +58,14 @@ export default function ModelBreakdown({ breakdown }: ModelBreakdownProps) {
     return ((cost / totalCost) * 100).toFixed(1);
   };
 
+  // Only show usage columns when at least one row reports them
+  const hasTokens = breakdown.some(
+    (item) => item.input_tokens !== undefined || item.output_tokens !== undefined
+  );
+  const hasUnits = breakdown.some((item) => item.units !== undefined);
+  const totalInputTokens = breakdown.reduce((sum, item) => sum + (item.input_tokens || 0), 0);
+  const totalOutputTokens = breakdown.reduce((sum, item) => sum + (item.output_tokens || 0), 0);
+
   if (breakdown.length === 0) {
     return (
       <div className="bg-white border border-gray-200 rounded-lg p-6 text-center text-gray-500">
@@ -38,7 +78,7 @@ export default function ModelBreakdown({ breakdown }: ModelBreakdownProps) {
     <div className="bg-white border border-gray-200 rounded-lg overflow-hidden shadow-sm">
       <div className="px-6 py-4 bg-gray-50 border-b border-gray-200">
         <h2 className="text-sm font-medium text-gray-700 uppercase tracking-wide">
-          Cost Breakdown by Model
+          {title}
         </h2>
       </div>
 
@@ -52,6 +92,21 @@ export default function ModelBreakdown({ breakdown }: ModelBreakdownProps) {
               <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Requests
               </th>
+              {hasTokens && (
+                <>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Input Tokens
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Output Tokens
+                  </th>
+                </>
+              )}
+              {hasUnits && (
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Units
+                </th>
+              )}
               <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Cost (USD)
               </th>
@@ -68,10 +123,47 @@ export default function ModelBreakdown({ breakdown }: ModelBreakdownProps) {
               >
                 <td className="px-6 py-4 text-sm font-medium text-gray-900">
                   {item.model}
+                  {item.category && (
+                    <span className="ml-2 text-xs font-normal text-gray-400">
+                      {item.category.replace(/_/g, ' ')}
+                    </span>
+                  )}
+                  {isEstimated(item.pricing_source) && (
+                    <span
+                      className="ml-2 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-amber-100 text-amber-800"
+                      title={
+                        item.pricing_source === 'prefix'
+                          ? 'Not in the pricing catalog: priced like a similar model'
+                          : 'Not in the pricing catalog: priced with the provider default rate'
+                      }
+                    >
+                      Estimated
+                    </span>
+                  )}
                 </td>
                 <td className="px-6 py-4 text-sm text-gray-600 text-right">
                   {item.requests.toLocaleString()}
                 </td>
+                {hasTokens && (
+                  <>
+                    <td className="px-6 py-4 text-sm text-gray-600 text-right">
+                      {item.input_tokens !== undefined ? item.input_tokens.toLocaleString() : '—'}
+                      {!!item.cached_input_tokens && (
+                        <div className="text-xs text-gray-400">
+                          {item.cached_input_tokens.toLocaleString()} cached
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600 text-right">
+                      {item.output_tokens !== undefined ? item.output_tokens.toLocaleString() : '—'}
+                    </td>
+                  </>
+                )}
+                {hasUnits && (
+                  <td className="px-6 py-4 text-sm text-gray-600 text-right">
+                    {item.units !== undefined ? formatUnits(item.units, item.unit_type) : '—'}
+                  </td>
+                )}
                 <td className="px-6 py-4 text-sm font-semibold text-gray-900 text-right">
                   ${formatCost(item.cost_usd)}
                 </td>
@@ -87,6 +179,17 @@ export default function ModelBreakdown({ breakdown }: ModelBreakdownProps) {
               <td className="px-6 py-4 text-sm font-semibold text-gray-900 text-right">
                 {breakdown.reduce((sum, item) => sum + item.requests, 0).toLocaleString()}
               </td>
+              {hasTokens && (
+                <>
+                  <td className="px-6 py-4 text-sm font-semibold text-gray-900 text-right">
+                    {totalInputTokens.toLocaleString()}
+                  </td>
+                  <td className="px-6 py-4 text-sm font-semibold text-gray-900 text-right">
+                    {totalOutputTokens.toLocaleString()}
+                  </td>
+                </>
+              )}
+              {hasUnits && <td className="px-6 py-4" />}
               <td className="px-6 py-4 text-sm font-bold text-gray-900 text-right">
                 ${formatCost(totalCost)}
               </td>
@@ -95,6 +198,13 @@ export default function ModelBreakdown({ breakdown }: ModelBreakdownProps) {
           </tfoot>
         </table>
       </div>
+
+      {hasEstimates && (
+        <div className="px-6 py-3 bg-amber-50 border-t border-amber-200 text-xs text-amber-800">
+          Rows marked &quot;Estimated&quot; use approximate rates and are not billed amounts.
+          Add the missing models to the pricing catalog to price them exactly.
+        </div>
+      )}
     </div>
   );
 }
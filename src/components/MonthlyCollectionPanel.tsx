@@ -5,6 +5,8 @@
  *
  * Provides manual trigger for monthly data collection and displays status.
  * Collapsible panel with collection controls and last collection info.
+ * Collections run as background jobs whose progress is polled until done.
+ * Also shows the built-in schedules (last and next runs).
  */
 
 import { useState, useEffect } from 'react';
@@ -22,20 +24,122 @@ interface CollectionResult {
   success: boolean;
   totalCost?: number;
   requests?: number;
+  targetsFailed?: number;
+  targetsPartial?: number;
   error?: string;
 }
 
+// Target whose collection failed (whole provider without workspace or project)
+interface FailedTarget {
+  providerId: string;
+  workspaceId?: string;
+  projectId?: string;
+  label: string;
+  error: string;
+}
+
+// Entry that a dry-run collection would write
+interface PreviewEntry {
+  identifier: string;
+  providerId: string;
+  providerName: string;
+  month: string;
+  projectApiKey: string;
+  costUsd: number;
+  requests: number;
+  collectionStatus: string;
+}
+
+// Background collection job (GET /api/collect/jobs/:id)
+interface CollectionJob {
+  id: string;
+  month: string;
+  mode: string;
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  attempt: number;
+  progress: {
+    providersTotal: number;
+    providersDone: number;
+    targetsTotal: number;
+    targetsDone: number;
+    targetsFailed: number;
+    targetsPartial: number;
+    entriesCreated: number;
+    entriesUpdated: number;
+  };
+  current: string[];
+  steps: { at: string; message: string; error?: boolean }[];
+  results: CollectionResult[];
+  failedTargets: FailedTarget[];
+  summary?: CollectionSummary;
+  emailSent?: boolean;
+  error?: string;
+  active: boolean;
+  resumable: boolean;
+  preview?: { entries: PreviewEntry[] };
+}
+
+const JOB_POLL_INTERVAL_MS = 2000;
+
+// Steps shown in the progress view (the most recent ones)
+const VISIBLE_JOB_STEPS = 8;
+
+const JOB_STATUS_LABELS: Record<CollectionJob['status'], string> = {
+  queued: 'En attente',
+  running: 'En cours',
+  completed: 'Terminée',
+  failed: 'Échec',
+  cancelled: 'Annulée',
+};
+
+// Built-in schedule (GET /api/schedules)
+interface ScheduleStatus {
+  id: 'monthly-close' | 'daily-snapshot';
+  enabled: boolean;
+  dayOfMonth: number;
+  hour: number;
+  sendEmail: boolean;
+  catchUp: boolean;
+  lastRun?: {
+    period: string;
+    month: string;
+    status: 'running' | 'completed' | 'failed' | 'skipped';
+    startedAt: string;
+    finishedAt?: string;
+    error?: string;
+  };
+  pending: string[];
+  nextRunAt: string | null;
+}
+
+const SCHEDULE_RUN_LABELS: Record<NonNullable<ScheduleStatus['lastRun']>['status'], string> = {
+  running: 'en cours',
+  completed: 'terminée',
+  failed: 'échec',
+  skipped: 'ignorée',
+};
+
 interface CollectionResponse {
   success: boolean;
   month: string;
+  dryRun?: boolean;
   summary: CollectionSummary;
   results: CollectionResult[];
+  failedTargets?: FailedTarget[];
   emailSent: boolean;
+  preview?: { entries: PreviewEntry[] };
 }
 
+const STORAGE_LABELS: Record<string, string> = {
+  notion: 'Notion',
+  sqlite: 'SQLite',
+  postgres: 'PostgreSQL',
+};
+
 interface ConfigStatus {
   configured: {
-    notion: boolean;
+    storage: boolean;
+    storageBackend: string;
     email: boolean;
     providers: string[];
   };
@@ -45,10 +149,16 @@ interface ConfigStatus {
 export default function MonthlyCollectionPanel() {
   const [isExpanded, setIsExpanded] = useState(false);
   const [collecting, setCollecting] = useState(false);
+  const [committing, setCommitting] = useState(false);
+  const [retrying, setRetrying] = useState(false);
+  const [job, setJob] = useState<CollectionJob | null>(null);
+  const [cancelling, setCancelling] = useState(false);
   const [sendingEmail, setSendingEmail] = useState(false);
   const [lastCollection, setLastCollection] = useState<CollectionResponse | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [config, setConfig] = useState<ConfigStatus | null>(null);
+  const [schedules, setSchedules] = useState<ScheduleStatus[] | null>(null);
+  const [schedulerInProcess, setSchedulerInProcess] = useState(false);
   const [token, setToken] = useState('');
   const [targetMonth, setTargetMonth] = useState('');
   const [includeEmail, setIncludeEmail] = useState(true);
@@ -70,6 +180,7 @@ export default function MonthlyCollectionPanel() {
         const data = await response.json();
         setConfig(data);
         setError(null);
+        await loadSchedules();
       } else {
         const errorData = await response.json();
         setError(errorData.error || 'Erreur de configuration');
@@ -81,8 +192,83 @@ export default function MonthlyCollectionPanel() {
     }
   };
 
-  // Trigger monthly collection
-  const triggerCollection = async () => {
+  // Load the built-in schedules with their last and next runs
+  const loadSchedules = async () => {
+    try {
+      const response = await fetch(`/api/schedules?token=${token}`);
+      if (response.ok) {
+        const data = await response.json();
+        setSchedules(data.schedules);
+        setSchedulerInProcess(data.inProcess);
+      }
+    } catch {
+      setSchedules(null);
+    }
+  };
+
+  // Enable or disable a schedule
+  const toggleSchedule = async (schedule: ScheduleStatus) => {
+    try {
+      const response = await fetch(`/api/schedules/${schedule.id}?token=${token}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled: !schedule.enabled }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Erreur lors de la mise à jour');
+      }
+      await loadSchedules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erreur inconnue');
+    }
+  };
+
+  // Poll the running job until it is done
+  useEffect(() => {
+    if (!job?.active) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/collect/jobs/${job.id}?token=${token}`);
+        const data: CollectionJob = await response.json();
+
+        if (!response.ok) {
+          throw new Error((data as { error?: string }).error || 'Suivi de la collecte impossible');
+        }
+
+        setJob(data);
+        if (data.active) return;
+
+        if (data.status === 'completed' && data.summary) {
+          setLastCollection({
+            success: true,
+            month: data.month,
+            dryRun: data.mode === 'dry-run',
+            summary: data.summary,
+            results: data.results,
+            failedTargets: data.failedTargets,
+            emailSent: !!data.emailSent,
+            preview: data.preview,
+          });
+        } else if (data.status === 'failed') {
+          setError(data.error || 'Échec de la collecte');
+        }
+        setCollecting(false);
+        setCancelling(false);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Erreur inconnue');
+        setCollecting(false);
+      }
+    }, JOB_POLL_INTERVAL_MS);
+
+    return () => clearTimeout(timer);
+  }, [job, token]);
+
+  // Trigger monthly collection as a background job
+  // (dry run: preview the entries without saving them)
+  const triggerCollection = async (dryRun = false) => {
     if (!token) {
       setError('Veuillez entrer le token secret');
       return;
@@ -91,13 +277,17 @@ export default function MonthlyCollectionPanel() {
     setCollecting(true);
     setError(null);
     setLastCollection(null);
+    setJob(null);
 
     try {
       const params = new URLSearchParams({
         token,
         month: targetMonth,
+        background: 'true',
       });
-      if (includeEmail) {
+      if (dryRun) {
+        params.set('dry_run', 'true');
+      } else if (includeEmail) {
         params.set('send_email', 'true');
       }
 
@@ -111,14 +301,136 @@ export default function MonthlyCollectionPanel() {
         throw new Error(data.error || 'Échec de la collecte');
       }
 
-      setLastCollection(data);
+      setJob({ ...data.job, active: true, resumable: false });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erreur inconnue');
+      setCollecting(false);
+    }
+  };
+
+  // Stop the running job before its next target
+  const cancelJob = async () => {
+    if (!job) return;
+
+    setCancelling(true);
+
+    try {
+      const response = await fetch(`/api/collect/jobs/${job.id}/cancel?token=${token}`, {
+        method: 'POST',
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Échec de l\'annulation');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erreur inconnue');
+      setCancelling(false);
+    }
+  };
+
+  // Collect again the targets of the job that failed or were not collected
+  const resumeJob = async () => {
+    if (!job) return;
+
+    setCollecting(true);
+    setError(null);
+    setLastCollection(null);
+
+    try {
+      const response = await fetch(`/api/collect/jobs/${job.id}/resume?token=${token}`, {
+        method: 'POST',
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Échec de la reprise');
+      }
+
+      setJob({ ...data.job, active: true, resumable: false });
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Erreur inconnue');
-    } finally {
       setCollecting(false);
     }
   };
 
+  // Save the previewed entries
+  const commitPreview = async () => {
+    if (!lastCollection?.preview) return;
+
+    setCommitting(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ token });
+      if (includeEmail) {
+        params.set('send_email', 'true');
+      }
+
+      const response = await fetch(`/api/collect/commit?${params.toString()}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          month: lastCollection.month,
+          entries: lastCollection.preview.entries,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Échec de l\'enregistrement');
+      }
+
+      setLastCollection({
+        ...lastCollection,
+        dryRun: false,
+        preview: undefined,
+        summary: data.summary || lastCollection.summary,
+        emailSent: data.emailSent,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erreur inconnue');
+    } finally {
+      setCommitting(false);
+    }
+  };
+
+  // Collect again the failed targets of the last collection
+  const retryFailedTargets = async () => {
+    if (!lastCollection?.failedTargets?.length) return;
+
+    setRetrying(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/collect/retry?token=${token}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          month: lastCollection.month,
+          targets: lastCollection.failedTargets,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Échec de la relance');
+      }
+
+      setLastCollection({
+        ...lastCollection,
+        summary: data.summary || lastCollection.summary,
+        failedTargets: data.failedTargets,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erreur inconnue');
+    } finally {
+      setRetrying(false);
+    }
+  };
+
   // Send email separately
   const sendEmail = async () => {
     if (!token) {
@@ -231,10 +543,10 @@ export default function MonthlyCollectionPanel() {
               <h3 className="text-sm font-medium text-slate-300 mb-3">Configuration</h3>
               <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
                 <div className="flex items-center gap-2">
-                  <span className={config.configured.notion ? 'text-emerald-400' : 'text-rose-400'}>
-                    {config.configured.notion ? '✓' : '✗'}
+                  <span className={config.configured.storage ? 'text-emerald-400' : 'text-rose-400'}>
+                    {config.configured.storage ? '✓' : '✗'}
                   </span>
-                  <span className="text-slate-300">Notion</span>
+                  <span className="text-slate-300">{STORAGE_LABELS[config.configured.storageBackend] || config.configured.storageBackend}</span>
                 </div>
                 <div className="flex items-center gap-2">
                   <span className={config.configured.email ? 'text-emerald-400' : 'text-rose-400'}>
@@ -249,6 +561,56 @@ export default function MonthlyCollectionPanel() {
             </div>
           )}
 
+          {/* Schedules */}
+          {schedules && (
+            <div className="bg-slate-700/30 rounded-lg p-4">
+              <h3 className="text-sm font-medium text-slate-300 mb-3">Planification</h3>
+              <div className="space-y-3">
+                {schedules.map((schedule) => (
+                  <div key={schedule.id} className="flex items-start justify-between gap-4 text-sm">
+                    <div>
+                      <p className="text-white">
+                        {schedule.id === 'monthly-close'
+                          ? `Clôture mensuelle (le ${schedule.dayOfMonth} à ${schedule.hour}h UTC)`
+                          : `Snapshot quotidien (${schedule.hour}h UTC)`}
+                      </p>
+                      <p className="text-xs text-slate-400">
+                        Dernière exécution:{' '}
+                        {schedule.lastRun ? (
+                          <span className={schedule.lastRun.status === 'failed' ? 'text-rose-400' : ''}>
+                            {new Date(schedule.lastRun.startedAt).toLocaleString('fr-FR')} ({schedule.lastRun.period},{' '}
+                            {SCHEDULE_RUN_LABELS[schedule.lastRun.status]})
+                            {schedule.lastRun.error && ` - ${schedule.lastRun.error}`}
+                          </span>
+                        ) : 'jamais'}
+                      </p>
+                      <p className="text-xs text-slate-400">
+                        Prochaine exécution:{' '}
+                        {schedule.nextRunAt ? new Date(schedule.nextRunAt).toLocaleString('fr-FR') : '-'}
+                        {schedule.pending.length > 0 && (
+                          <span className="text-amber-400"> (en attente: {schedule.pending.join(', ')})</span>
+                        )}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => toggleSchedule(schedule)}
+                      className={`px-3 py-1 text-xs rounded-lg transition-colors ${schedule.enabled
+                        ? 'bg-emerald-700 text-white hover:bg-emerald-600'
+                        : 'bg-slate-600 text-slate-300 hover:bg-slate-500'}`}
+                    >
+                      {schedule.enabled ? 'Activée' : 'Désactivée'}
+                    </button>
+                  </div>
+                ))}
+              </div>
+              {!schedulerInProcess && schedules.some(schedule => schedule.enabled) && (
+                <p className="text-xs text-slate-500 mt-3">
+                  SCHEDULER_ENABLED n&apos;est pas activé : un cron doit appeler /api/schedules/tick.
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Collection Controls */}
           <div className="flex flex-wrap items-end gap-4">
             <div>
@@ -275,7 +637,7 @@ export default function MonthlyCollectionPanel() {
             </div>
 
             <button
-              onClick={triggerCollection}
+              onClick={() => triggerCollection()}
               disabled={collecting || !token}
               className="px-6 py-2 bg-indigo-600 text-white font-medium rounded-lg hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
             >
@@ -307,6 +669,14 @@ export default function MonthlyCollectionPanel() {
               )}
             </button>
 
+            <button
+              onClick={() => triggerCollection(true)}
+              disabled={collecting || !token}
+              className="px-4 py-2 bg-slate-600 text-white rounded-lg hover:bg-slate-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              👁 Aperçu
+            </button>
+
             <button
               onClick={sendEmail}
               disabled={sendingEmail || !token}
@@ -316,6 +686,73 @@ export default function MonthlyCollectionPanel() {
             </button>
           </div>
 
+          {/* Job Progress */}
+          {job && (
+            <div className="bg-slate-700/30 rounded-lg p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-medium text-slate-300">
+                  Collecte {formatMonth(job.month)} - {JOB_STATUS_LABELS[job.status]}
+                  {job.attempt > 1 && ` (tentative ${job.attempt})`}
+                </h3>
+                <div className="flex gap-2">
+                  {job.active && (
+                    <button
+                      onClick={cancelJob}
+                      disabled={cancelling}
+                      className="px-3 py-1 text-sm bg-rose-700 text-white rounded-lg hover:bg-rose-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                      {cancelling ? 'Annulation...' : '⏹ Annuler'}
+                    </button>
+                  )}
+                  {job.resumable && (
+                    <button
+                      onClick={resumeJob}
+                      disabled={collecting}
+                      className="px-3 py-1 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                      ↻ Reprendre
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+                <div
+                  className={`h-full transition-all ${job.progress.targetsFailed > 0 ? 'bg-amber-500' : 'bg-indigo-500'}`}
+                  style={{
+                    width: `${job.progress.targetsTotal > 0
+                      ? Math.round((job.progress.targetsDone / job.progress.targetsTotal) * 100)
+                      : job.active ? 0 : 100}%`,
+                  }}
+                />
+              </div>
+
+              <div className="flex flex-wrap gap-4 text-xs text-slate-400">
+                <span>Providers: {job.progress.providersDone}/{job.progress.providersTotal}</span>
+                <span>Cibles: {job.progress.targetsDone}/{job.progress.targetsTotal}</span>
+                <span>Entrées: {job.progress.entriesCreated} créée(s), {job.progress.entriesUpdated} mise(s) à jour</span>
+                {job.progress.targetsFailed > 0 && (
+                  <span className="text-rose-400">{job.progress.targetsFailed} échec(s)</span>
+                )}
+                {job.progress.targetsPartial > 0 && (
+                  <span className="text-amber-400">{job.progress.targetsPartial} partielle(s)</span>
+                )}
+              </div>
+
+              {job.current.length > 0 && (
+                <p className="text-xs text-slate-300">En cours: {job.current.join(', ')}</p>
+              )}
+
+              <ul className="text-xs font-mono space-y-1 max-h-40 overflow-y-auto">
+                {job.steps.slice(-VISIBLE_JOB_STEPS).map((step, index) => (
+                  <li key={`${step.at}-${index}`} className={step.error ? 'text-rose-400' : 'text-slate-400'}>
+                    {new Date(step.at).toLocaleTimeString('fr-FR')} {step.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Error Display */}
           {error && (
             <div className="bg-rose-900/30 border border-rose-700 rounded-lg p-4">
@@ -327,11 +764,24 @@ export default function MonthlyCollectionPanel() {
 
           {/* Collection Results */}
           {lastCollection && (
-            <div className="bg-emerald-900/20 border border-emerald-700/50 rounded-lg p-6 space-y-4">
-              <div className="flex items-center gap-2 text-emerald-400">
-                <span className="text-xl">✓</span>
-                <h3 className="font-semibold">Collecte réussie - {formatMonth(lastCollection.month)}</h3>
-              </div>
+            <div
+              className={`rounded-lg p-6 space-y-4 border ${
+                lastCollection.dryRun ? 'bg-amber-900/20 border-amber-700/50' : 'bg-emerald-900/20 border-emerald-700/50'
+              }`}
+            >
+              {lastCollection.dryRun ? (
+                <div className="flex items-center gap-2 text-amber-400">
+                  <span className="text-xl">👁</span>
+                  <h3 className="font-semibold">
+                    Aperçu - {formatMonth(lastCollection.month)} (rien n&apos;a été enregistré)
+                  </h3>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2 text-emerald-400">
+                  <span className="text-xl">✓</span>
+                  <h3 className="font-semibold">Collecte réussie - {formatMonth(lastCollection.month)}</h3>
+                </div>
+              )}
 
               {/* Summary */}
               <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
@@ -382,6 +832,12 @@ export default function MonthlyCollectionPanel() {
                         {result.success ? (
                           <span className="text-slate-300 font-mono">
                             ${result.totalCost?.toFixed(2)} ({result.requests?.toLocaleString()} req)
+                            {!!result.targetsFailed && (
+                              <span className="text-rose-400"> - {result.targetsFailed} échec(s)</span>
+                            )}
+                            {!!result.targetsPartial && (
+                              <span className="text-amber-400"> - {result.targetsPartial} partielle(s)</span>
+                            )}
                           </span>
                         ) : (
                           <span className="text-rose-400 text-sm">{result.error}</span>
@@ -392,8 +848,68 @@ export default function MonthlyCollectionPanel() {
                 </div>
               </div>
 
+              {/* Failed Targets */}
+              {!lastCollection.dryRun && !!lastCollection.failedTargets?.length && (
+                <div className="space-y-2">
+                  <h4 className="text-sm text-rose-400 uppercase tracking-wide">
+                    Cibles en échec ({lastCollection.failedTargets.length})
+                  </h4>
+                  <ul className="space-y-1 text-sm">
+                    {lastCollection.failedTargets.map((target) => (
+                      <li
+                        key={`${target.providerId}-${target.workspaceId || ''}-${target.projectId || ''}`}
+                        className="px-4 py-2 rounded-lg bg-rose-900/30"
+                      >
+                        <span className="text-white">{target.label}</span>
+                        <span className="text-rose-300"> : {target.error}</span>
+                      </li>
+                    ))}
+                  </ul>
+                  <button
+                    onClick={retryFailedTargets}
+                    disabled={retrying}
+                    className="px-4 py-2 bg-rose-700 text-white rounded-lg hover:bg-rose-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {retrying ? 'Relance...' : '↻ Relancer les échecs'}
+                  </button>
+                </div>
+              )}
+
+              {/* Previewed Entries */}
+              {lastCollection.preview && (
+                <div className="space-y-2">
+                  <h4 className="text-sm text-slate-400 uppercase tracking-wide">
+                    Entrées à enregistrer ({lastCollection.preview.entries.length})
+                  </h4>
+                  <div className="max-h-64 overflow-y-auto rounded-lg bg-slate-800/50">
+                    <table className="w-full text-sm">
+                      <tbody>
+                        {lastCollection.preview.entries.map((entry, index) => (
+                          <tr key={`${entry.identifier}-${index}`} className="border-b border-slate-700/50 last:border-0">
+                            <td className="px-4 py-2 text-white">{entry.providerName}</td>
+                            <td className="px-4 py-2 text-slate-300">{entry.projectApiKey}</td>
+                            <td className="px-4 py-2 text-slate-400">{entry.collectionStatus}</td>
+                            <td className="px-4 py-2 text-right text-slate-300 font-mono">
+                              ${entry.costUsd.toFixed(2)}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  <button
+                    onClick={commitPreview}
+                    disabled={committing || lastCollection.preview.entries.length === 0}
+                    className="px-6 py-2 bg-emerald-600 text-white font-medium rounded-lg hover:bg-emerald-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {committing ? 'Enregistrement...' : `✓ Enregistrer${includeEmail ? ' et envoyer l\'email' : ''}`}
+                  </button>
+                </div>
+              )}
+
               {/* Report Link */}
-              {lastCollection.summary.reportUrl && (
+              {!lastCollection.dryRun && lastCollection.summary.reportUrl && (
                 <div className="pt-4 border-t border-slate-700">
                   <a
                     href={lastCollection.summary.reportUrl}
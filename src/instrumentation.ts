@@ -0,0 +1,17 @@
+/**
+ * Server instrumentation
+ *
+ * Called once by Next.js when the server starts. With SCHEDULER_ENABLED=true,
+ * this process runs the collection schedules (see lib/collection/schedules):
+ * use it on a long-running server (`next start`, Docker). On serverless
+ * platforms, call /api/schedules/tick from a cron instead.
+ */
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs' || process.env.SCHEDULER_ENABLED !== 'true') {
+    return;
+  }
+
+  const { startScheduler } = await import('./lib/collection/schedules');
+  startScheduler();
+}
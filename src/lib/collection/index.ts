@@ -0,0 +1,67 @@
+/**
+ * Usage collection
+ *
+ * Collects the costs of all configured providers for a month and saves them
+ * to the usage storage (see pipeline.ts), in the request or as a background
+ * job (see jobs.ts), on demand or on a schedule (see schedules.ts).
+ */
+
+export {
+  getMonthRange,
+  getPreviewEntries,
+  getTargetKey,
+  listFailedTargets,
+  runCollection,
+} from './pipeline';
+export { getCollectionSettings, getDiscrepancyThreshold } from './settings';
+export {
+  cancelCollectionJob,
+  createCollectionJob,
+  getCollectionJob,
+  isJobActive,
+  isJobResumable,
+  resumeCollectionJob,
+  runCollectionJob,
+} from './jobs';
+export { getLockedBy, getMonthLock, withMonthLock } from './lock';
+export {
+  getCollectionSchedule,
+  getScheduleValidationError,
+  isScheduleId,
+  listScheduleStatuses,
+  runDueSchedules,
+  startScheduler,
+  updateCollectionSchedule,
+  SCHEDULE_IDS,
+} from './schedules';
+export { listCollectionUnpricedModels, sendCollectionReport, summarizeCollection } from './summary';
+export { isRetryableError, mapWithConcurrency, withRetry, withTimeout } from './retry';
+export { COLLECTION_MODES } from './types';
+export type {
+  CollectionJob,
+  CollectionJobProgress,
+  CollectionJobStatus,
+  CollectionJobStep,
+} from './jobs';
+export type { LockHolder } from './lock';
+export type {
+  CollectionSchedule,
+  ScheduleId,
+  ScheduleRun,
+  ScheduleRunStatus,
+  ScheduleState,
+  ScheduleStatus,
+} from './schedules';
+export type { CollectionSummary } from './summary';
+export type {
+  CollectionEvent,
+  CollectionMode,
+  CollectionOptions,
+  CollectionResult,
+  CollectionRun,
+  CollectionSettings,
+  CollectionTarget,
+  FailedTarget,
+  TargetResult,
+  TargetSelector,
+} from './types';
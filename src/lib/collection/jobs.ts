@@ -0,0 +1,409 @@
+/**
+ * Background collection jobs
+ *
+ * A job runs a collection after the request that created it has returned
+ * (POST /api/collect?background=true). Its state is saved after each step
+ * in the cache backend (CACHE_BACKEND), so that its progress can be read
+ * (GET /api/collect/jobs/:id) and its cancellation requested from any
+ * request. With the memory backend, jobs are only visible to the process
+ * running them: use filesystem or redis when the app runs on several
+ * instances.
+ *
+ * A cancelled or partially failed job can be resumed: targets already
+ * collected are kept and only the others are collected again. A resume is
+ * claimed under the job's lock, so that two requests never both run it. A
+ * job fails right away when its month is being collected by another run
+ * (see lock.ts).
+ */
+
+import { randomUUID } from 'crypto';
+import { COLLECTION_KEY_PREFIX, getCacheBackend } from '../../utils/cache';
+import { withLock, withMonthLock } from './lock';
+import { runCollection } from './pipeline';
+import { getDiscrepancyThreshold } from './settings';
+import {
+  CollectionSummary,
+  listCollectionUnpricedModels,
+  sendCollectionReport,
+  summarizeCollection,
+} from './summary';
+import { CollectionEvent, CollectionMode, CollectionResult, TargetResult } from './types';
+
+// Jobs are kept 7 days after their last update
+const JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// A running job not updated for 15 minutes is considered dead (process
+// stopped or serverless function timed out) and can be resumed
+const STALE_JOB_MS = 15 * 60 * 1000;
+
+// Steps kept in a job (the most recent ones)
+const MAX_JOB_STEPS = 200;
+
+export type CollectionJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface CollectionJobStep {
+  at: string;
+  providerId?: string;
+  message: string;
+  error?: boolean;
+}
+
+export interface CollectionJobProgress {
+  providersTotal: number;
+  providersDone: number;
+  targetsTotal: number;
+  targetsDone: number;
+  targetsFailed: number;
+  targetsPartial: number;         // Collected with missing periods
+  entriesCreated: number;
+  entriesUpdated: number;
+}
+
+export interface CollectionJob {
+  id: string;
+  month: string;
+  mode: CollectionMode;
+  sendEmail: boolean;
+  status: CollectionJobStatus;
+  attempt: number;                // 1, then incremented at each resume
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+  progress: CollectionJobProgress;
+  current: string[];              // Targets being collected ("OpenAI / Projet X")
+  steps: CollectionJobStep[];
+  results: CollectionResult[];    // Per provider, once done
+  targets: TargetResult[];        // Per target, once done
+  summary?: CollectionSummary;
+  unpricedModels?: string[];
+  emailSent?: boolean;
+  error?: string;
+}
+
+function getJobKey(id: string): string {
+  return `${COLLECTION_KEY_PREFIX}job_${id}`;
+}
+
+// Cancellation is stored apart from the job, which the running
+// process keeps overwriting, with the step recording the request
+function getCancelKey(id: string): string {
+  return `${COLLECTION_KEY_PREFIX}job-cancel_${id}`;
+}
+
+async function saveJob(job: CollectionJob): Promise<void> {
+  job.updatedAt = new Date().toISOString();
+  await getCacheBackend().set(getJobKey(job.id), { data: job, timestamp: Date.now() }, JOB_RETENTION_MS);
+}
+
+export async function getCollectionJob(id: string): Promise<CollectionJob | null> {
+  const backend = getCacheBackend();
+  const entry = await backend.get<CollectionJob>(getJobKey(id));
+  if (!entry) {
+    return null;
+  }
+
+  // A cancellation not yet seen by the running process
+  const job = entry.data;
+  if (isJobActive(job)) {
+    const cancel = await backend.get<CollectionJobStep>(getCancelKey(id));
+    if (cancel) {
+      addCancelStep(job, cancel.data);
+    }
+  }
+  return job;
+}
+
+/**
+ * Whether a job is queued or running (and not stale)
+ */
+export function isJobActive(job: CollectionJob): boolean {
+  if (job.status !== 'queued' && job.status !== 'running') {
+    return false;
+  }
+  return Date.now() - new Date(job.updatedAt).getTime() < STALE_JOB_MS;
+}
+
+/**
+ * Whether a job can be resumed: cancelled, failed, stale, or completed
+ * with failed providers or targets
+ */
+export function isJobResumable(job: CollectionJob): boolean {
+  if (isJobActive(job)) {
+    return false;
+  }
+  return job.status !== 'completed'
+    || job.results.some(result => !result.success)
+    || job.targets.some(target => !target.success);
+}
+
+/**
+ * Create a queued job (run it with runCollectionJob)
+ */
+export async function createCollectionJob(options: {
+  month: string;
+  mode: CollectionMode;
+  sendEmail: boolean;
+}): Promise<CollectionJob> {
+  const now = new Date().toISOString();
+  const job: CollectionJob = {
+    id: randomUUID(),
+    ...options,
+    status: 'queued',
+    attempt: 1,
+    createdAt: now,
+    updatedAt: now,
+    progress: emptyProgress(),
+    current: [],
+    steps: [{ at: now, message: `Collecte ${options.month} en attente (mode: ${options.mode})` }],
+    results: [],
+    targets: [],
+  };
+
+  await saveJob(job);
+  return job;
+}
+
+/**
+ * Request the cancellation of a job: it stops before its next target
+ *
+ * The request step is saved with the cancellation and added to the job by
+ * the running process. A stale job is marked as cancelled right away.
+ */
+export async function cancelCollectionJob(job: CollectionJob): Promise<CollectionJob> {
+  if (!isJobActive(job)) {
+    job.status = 'cancelled';
+    job.finishedAt = new Date().toISOString();
+    job.current = [];
+    addStep(job, { message: 'Collecte annulée' });
+    await saveJob(job);
+    return job;
+  }
+
+  const step: CollectionJobStep = { at: new Date().toISOString(), message: 'Annulation demandée' };
+  await getCacheBackend().set(getCancelKey(job.id), { data: step, timestamp: Date.now() }, JOB_RETENTION_MS);
+  addCancelStep(job, step);
+  return job;
+}
+
+/**
+ * Queue a job again (run it with runCollectionJob): its successful targets
+ * are kept, the others are collected again
+ *
+ * The job is read again under its lock: of two requests resuming it at the
+ * same time, only one queues it.
+ *
+ * @returns The queued job, or null if it is no longer resumable (resumed
+ * by another request in the meantime)
+ * @throws Error (with `lockedBy`) if the job is being resumed by another request
+ */
+export function resumeCollectionJob(job: CollectionJob): Promise<CollectionJob | null> {
+  return withLock(`job-${job.id}`, `job ${job.id} resume`, async () => {
+    const current = await getCollectionJob(job.id);
+    if (!current || !isJobResumable(current)) {
+      return null;
+    }
+
+    await getCacheBackend().delete(getCancelKey(current.id));
+
+    current.status = 'queued';
+    current.attempt++;
+    current.finishedAt = undefined;
+    current.error = undefined;
+    addStep(current, { message: `Reprise de la collecte (tentative ${current.attempt})` });
+    await saveJob(current);
+    return current;
+  });
+}
+
+/**
+ * Run a queued job until it completes, fails or is cancelled
+ *
+ * Never throws: failures are saved in the job.
+ */
+export async function runCollectionJob(id: string): Promise<void> {
+  const job = await getCollectionJob(id);
+  if (!job || job.status !== 'queued') {
+    console.warn(`[Collect] Job ${id} is not queued, not running it`);
+    return;
+  }
+
+  // Saves are chained so that a slow save never overwrites a later state
+  let saving: Promise<void> = Promise.resolve();
+  const persist = () => {
+    const snapshot = structuredClone(job);
+    saving = saving
+      .then(() => saveJob(snapshot))
+      .catch(error => console.error(`[Collect] Error saving job ${id}:`, error));
+    return saving;
+  };
+
+  const previousTargets = job.targets;
+  job.status = 'running';
+  job.progress = emptyProgress();
+  job.current = [];
+  job.results = [];
+  job.targets = [];
+  addStep(job, { message: `Collecte ${job.month} démarrée` });
+  await persist();
+
+  try {
+    const collect = () => runCollection({
+      month: job.month,
+      mode: job.mode,
+      discrepancyThreshold: getDiscrepancyThreshold(),
+      completedTargets: previousTargets,
+      onEvent: event => {
+        applyEvent(job, event);
+        persist();
+      },
+      isCancelled: async () => {
+        const cancel = await getCacheBackend().get<CollectionJobStep>(getCancelKey(id));
+        if (cancel) {
+          addCancelStep(job, cancel.data);
+        }
+        return !!cancel;
+      },
+    });
+    // A dry-run writes nothing: it can run next to another collection of the month
+    const run = job.mode === 'dry-run'
+      ? await collect()
+      : await withMonthLock(job.month, `job ${id}`, collect);
+
+    job.progress.providersTotal = run.results.length;
+    job.summary = await summarizeCollection(job.month, run.results);
+    job.unpricedModels = listCollectionUnpricedModels(run.results);
+
+    if (run.cancelled) {
+      job.status = 'cancelled';
+      addStep(job, { message: 'Collecte annulée' });
+    } else {
+      if (job.sendEmail && job.mode !== 'dry-run') {
+        job.emailSent = await sendCollectionReport(job.month);
+      }
+      job.status = 'completed';
+      addStep(job, {
+        message: `Collecte terminée: $${job.summary.totalCostUsd.toFixed(2)}, ` +
+          `${job.progress.entriesCreated} entrée(s) créée(s), ${job.progress.entriesUpdated} mise(s) à jour` +
+          (job.progress.targetsFailed > 0 ? `, ${job.progress.targetsFailed} échec(s)` : '') +
+          (job.progress.targetsPartial > 0 ? `, ${job.progress.targetsPartial} partielle(s)` : ''),
+        error: job.progress.targetsFailed > 0,
+      });
+    }
+  } catch (error) {
+    console.error(`[Collect] Job ${id} failed:`, error);
+    job.status = 'failed';
+    job.error = error instanceof Error ? error.message : 'Collection failed';
+    addStep(job, { message: `✗ ${job.error}`, error: true });
+  }
+
+  job.current = [];
+  job.finishedAt = new Date().toISOString();
+  await persist();
+}
+
+function emptyProgress(): CollectionJobProgress {
+  return {
+    providersTotal: 0,
+    providersDone: 0,
+    targetsTotal: 0,
+    targetsDone: 0,
+    targetsFailed: 0,
+    targetsPartial: 0,
+    entriesCreated: 0,
+    entriesUpdated: 0,
+  };
+}
+
+function addStep(job: CollectionJob, step: Omit<CollectionJobStep, 'at'>): void {
+  job.steps.push({ at: new Date().toISOString(), ...step });
+  if (job.steps.length > MAX_JOB_STEPS) {
+    job.steps.splice(0, job.steps.length - MAX_JOB_STEPS);
+  }
+}
+
+/**
+ * Add the step of a cancellation request, unless the job already has it
+ */
+function addCancelStep(job: CollectionJob, step: CollectionJobStep): void {
+  if (!job.steps.some(existing => existing.at === step.at && existing.message === step.message)) {
+    job.steps.push(step);
+  }
+}
+
+/**
+ * Label of a target in progress messages
+ */
+function getTargetLabel(result: Pick<TargetResult, 'target'>): string {
+  const { target } = result;
+  const name = target.workspace?.name || target.project?.name;
+  return name ? `${target.providerName} / ${name}` : target.providerName;
+}
+
+/**
+ * Update a job's progress from a pipeline event
+ */
+function applyEvent(job: CollectionJob, event: CollectionEvent): void {
+  const { progress } = job;
+
+  switch (event.type) {
+    case 'provider-started':
+      progress.providersTotal++;
+      job.current.push(event.providerName);
+      addStep(job, { providerId: event.providerId, message: `${event.providerName}: démarré` });
+      break;
+
+    case 'targets-planned':
+      progress.targetsTotal += event.targets.length;
+      job.current = job.current.filter(label => label !== event.providerName);
+      job.current.push(...event.targets.map(target => getTargetLabel({ target })));
+      addStep(job, { providerId: event.providerId, message: `${event.providerName}: ${event.targets.length} cible(s)` });
+      break;
+
+    case 'target-done': {
+      const { result } = event;
+      const label = getTargetLabel(result);
+      job.current = job.current.filter(current => current !== label);
+      job.targets.push(result.entry && job.mode !== 'dry-run' ? { ...result, entry: undefined } : result);
+      progress.targetsDone++;
+
+      if (result.cancelled) {
+        break;
+      }
+      if (!result.success) {
+        progress.targetsFailed++;
+        addStep(job, { providerId: result.target.providerId, message: `✗ ${label}: ${result.error}`, error: true });
+        break;
+      }
+
+      if (result.written === 'updated') {
+        progress.entriesUpdated++;
+      } else {
+        progress.entriesCreated++;
+      }
+      if (result.missing) {
+        progress.targetsPartial++;
+      }
+      addStep(job, {
+        providerId: result.target.providerId,
+        message: `${result.missing ? '⚠' : '✓'} ${label}: $${(result.costUsd || 0).toFixed(2)}` +
+          (result.missing ? ` (partiel, ${result.missing.length} période(s) manquante(s))` : '') +
+          (result.attempts > 1 ? ` (${result.attempts} tentatives)` : ''),
+      });
+      break;
+    }
+
+    case 'provider-done': {
+      const { result } = event;
+      progress.providersDone++;
+      job.results.push(result);
+      // Targets left when the provider failed
+      job.current = job.current.filter(label =>
+        label !== event.providerName && !label.startsWith(`${event.providerName} / `)
+      );
+      if (!result.success && result.error !== 'Cancelled') {
+        addStep(job, { providerId: result.provider, message: `✗ ${event.providerName}: ${result.error}`, error: true });
+      }
+      break;
+    }
+  }
+}
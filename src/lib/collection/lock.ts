@@ -0,0 +1,120 @@
+/**
+ * Collection locks
+ *
+ * A lock is an entry of the cache backend (CACHE_BACKEND) naming its owner.
+ * It is refreshed while the locked work runs and released when it ends, so
+ * that two runs (scheduled, manual or retry) never collect the same month
+ * at the same time, including on several instances with the filesystem or
+ * redis backends.
+ *
+ * A lock is acquired with the backend's atomic setIfAbsent (Redis SET NX,
+ * exclusive file creation, in-process Map): of two runs starting at the same
+ * moment, only one gets it. A lock whose owner stopped (process killed,
+ * serverless function timed out) expires after LOCK_TTL_MS.
+ */
+
+import { randomUUID } from 'crypto';
+import { COLLECTION_KEY_PREFIX, getCacheBackend } from '../../utils/cache';
+
+const LOCK_TTL_MS = 5 * 60 * 1000;
+const LOCK_REFRESH_MS = 60 * 1000;
+
+export interface LockHolder {
+  owner: string;        // "job 3f2a...", "POST /api/collect", ...
+  acquiredAt: string;
+}
+
+interface StoredLock extends LockHolder {
+  token: string;        // Unique per acquisition, to tell two owners with the same label apart
+}
+
+function getLockKey(name: string): string {
+  return `${COLLECTION_KEY_PREFIX}lock_${name}`;
+}
+
+/**
+ * Lock name of a month's collection
+ */
+export function getMonthLockName(month: string): string {
+  return `month-${month}`;
+}
+
+/**
+ * Current holder of a lock, or null when it is free
+ */
+export async function getLockHolder(name: string): Promise<LockHolder | null> {
+  const entry = await getCacheBackend().get<StoredLock>(getLockKey(name));
+  return entry ? { owner: entry.data.owner, acquiredAt: entry.data.acquiredAt } : null;
+}
+
+/**
+ * Run currently collecting a month, or null
+ */
+export function getMonthLock(month: string): Promise<LockHolder | null> {
+  return getLockHolder(getMonthLockName(month));
+}
+
+/**
+ * Run a task while holding a lock
+ *
+ * @throws Error (with `lockedBy`) if the lock is held by another run
+ */
+export async function withLock<T>(name: string, owner: string, task: () => Promise<T>): Promise<T> {
+  const backend = getCacheBackend();
+  const key = getLockKey(name);
+
+  const lock: StoredLock = { owner, acquiredAt: new Date().toISOString(), token: randomUUID() };
+  if (!await backend.setIfAbsent(key, { data: lock, timestamp: Date.now() }, LOCK_TTL_MS)) {
+    const current = await backend.get<StoredLock>(key);
+    // Released in the meantime: reported as held, the caller can try again
+    throw lockedError(name, current?.data || { owner: 'another run', acquiredAt: lock.acquiredAt });
+  }
+
+  // Only refreshed while still ours (it may have expired and been taken)
+  const heartbeat = setInterval(() => {
+    backend.get<StoredLock>(key)
+      .then(stored => stored?.data.token === lock.token
+        ? backend.set(key, { data: lock, timestamp: Date.now() }, LOCK_TTL_MS)
+        : console.error(`[Collect] Lock ${name} lost by ${owner}`))
+      .catch(error => {
+        console.error(`[Collect] Error refreshing lock ${name}:`, error instanceof Error ? error.message : error);
+      });
+  }, LOCK_REFRESH_MS);
+
+  try {
+    return await task();
+  } finally {
+    clearInterval(heartbeat);
+    try {
+      const stored = await backend.get<StoredLock>(key);
+      if (stored?.data.token === lock.token) {
+        await backend.delete(key);
+      }
+    } catch (error) {
+      console.error(`[Collect] Error releasing lock ${name}:`, error instanceof Error ? error.message : error);
+    }
+  }
+}
+
+/**
+ * Run a task while holding the lock of a month's collection
+ *
+ * @throws Error (with `lockedBy`) if the month is being collected by another run
+ */
+export function withMonthLock<T>(month: string, owner: string, task: () => Promise<T>): Promise<T> {
+  return withLock(getMonthLockName(month), owner, task);
+}
+
+/**
+ * Holder of the lock that made a task fail, if that is why it failed
+ */
+export function getLockedBy(error: unknown): LockHolder | undefined {
+  return (error as { lockedBy?: LockHolder } | null)?.lockedBy;
+}
+
+function lockedError(name: string, holder: LockHolder): Error {
+  return Object.assign(
+    new Error(`'${name}' is already locked by ${holder.owner} (since ${holder.acquiredAt})`),
+    { lockedBy: { owner: holder.owner, acquiredAt: holder.acquiredAt } }
+  );
+}
@@ -0,0 +1,621 @@
+/**
+ * Collection pipeline
+ *
+ * A collection is split into targets (workspaces, projects or the whole
+ * provider), each saved as one usage entry:
+ * - providers are collected in parallel
+ * - the targets of a provider run with a bounded concurrency
+ * - each provider call has a timeout and is retried with exponential backoff
+ *
+ * A failed target does not stop the others: its error is reported in its
+ * TargetResult and saved as an 'Echec' entry under the target's key, so
+ * that collecting it again (POST /api/collect/retry) replaces it; an entry
+ * already there keeps its costs and tokens, only its status and log change.
+ * A provider
+ * whose targets cannot be listed is saved under its provider target's key;
+ * that entry is removed once its targets are listed again. A target
+ * whose provider returned partial data (CostData.missing) is saved as
+ * 'Partiel', with the missing periods in its log. Progress is reported through
+ * options.onEvent, and a cancelled collection stops before its next target.
+ */
+
+import { getAvailableProviders, getProvider } from '../providers/factory';
+import { ILLMProvider } from '../providers/interface';
+import {
+  generateUsageIdentifier,
+  generateUsageKey,
+  getOrCreateService,
+  getUsageStore,
+  MISSING_DATA_LOG_PREFIX,
+  removeUsageEntry,
+  saveUsageEntry,
+  sumBreakdownTokens,
+  UsageEntry,
+  UsageEntryPreview,
+  UsageWriteMode,
+  UsageWriteResult,
+} from '../storage';
+import { listUnpricedModels } from '../pricing';
+import { CostData, MissingRange, ProviderInfo } from '../types';
+import { mapWithConcurrency, withRetry, withTimeout } from './retry';
+import { getCollectionSettings } from './settings';
+import {
+  CollectionOptions,
+  CollectionResult,
+  CollectionRun,
+  CollectionSettings,
+  CollectionTarget,
+  FailedTarget,
+  TargetResult,
+  TargetSelector,
+} from './types';
+
+// Models listed in an entry (the full list is in the breakdown)
+const MAX_ENTRY_MODELS = 10;
+
+// Project name of the provider target (no workspaces or projects)
+const PROVIDER_PROJECT_NAME = 'Default';
+
+interface ProviderContext {
+  info: ProviderInfo;
+  provider: ILLMProvider;
+  options: CollectionOptions;
+  settings: CollectionSettings;
+  startDate: string;
+  endDate: string;
+  serviceId: string;   // Empty in dry-run mode
+  logs: string[];      // Provider-level logs, prepended to each entry log
+  run: RunState;
+}
+
+interface RunState {
+  cancelled: boolean;
+  completedTargets: Map<string, TargetResult>;
+}
+
+/**
+ * Key of a target, unique within a collection
+ */
+export function getTargetKey(target: CollectionTarget): string {
+  return [target.providerId, target.workspace?.id || '', target.project?.id || ''].join('|');
+}
+
+/**
+ * First and last day of a month (YYYY-MM-DD)
+ */
+export function getMonthRange(month: string): { startDate: string; endDate: string } {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return {
+    startDate: new Date(Date.UTC(year, monthNumber - 1, 1)).toISOString().split('T')[0],
+    endDate: new Date(Date.UTC(year, monthNumber, 0)).toISOString().split('T')[0], // Last day of month
+  };
+}
+
+/**
+ * Collect a month from all available providers
+ */
+export async function runCollection(options: CollectionOptions): Promise<CollectionRun> {
+  const { startDate, endDate } = getMonthRange(options.month);
+  console.log(`[Collect] Date range: ${startDate} to ${endDate}`);
+
+  const providers = getAvailableProviders().filter(info =>
+    !options.targets || options.targets.some(selector => selector.providerId === info.id)
+  );
+  console.log(`[Collect] Found ${providers.length} providers: ${providers.map(p => p.id).join(', ')}`);
+
+  // Only successful targets are kept: failed and cancelled ones are collected again
+  const run: RunState = {
+    cancelled: false,
+    completedTargets: new Map(
+      (options.completedTargets || [])
+        .filter(target => target.success)
+        .map(target => [getTargetKey(target.target), target])
+    ),
+  };
+
+  const outcomes = await Promise.all(
+    providers.map(info => collectProvider(info, options, startDate, endDate, run))
+  );
+
+  return {
+    month: options.month,
+    mode: options.mode,
+    startDate,
+    endDate,
+    results: outcomes.map(outcome => outcome.result),
+    targets: outcomes.flatMap(outcome => outcome.targets),
+    cancelled: run.cancelled,
+  };
+}
+
+/**
+ * Whether the collection was cancelled (checked once cancelled)
+ */
+async function isCancelled(options: CollectionOptions, run: RunState): Promise<boolean> {
+  if (!run.cancelled && options.isCancelled) {
+    run.cancelled = await options.isCancelled();
+  }
+  return run.cancelled;
+}
+
+/**
+ * Whether a target is selected (no selectors: every target is)
+ */
+function isTargetSelected(target: CollectionTarget, selectors?: TargetSelector[]): boolean {
+  return !selectors || selectors.some(selector =>
+    selector.providerId === target.providerId &&
+    (!selector.workspaceId || selector.workspaceId === target.workspace?.id) &&
+    (!selector.projectId || selector.projectId === target.project?.id)
+  );
+}
+
+/**
+ * Targets and providers whose collection failed (cancelled ones excepted)
+ */
+export function listFailedTargets(run: Pick<CollectionRun, 'results' | 'targets'>): FailedTarget[] {
+  const failedProviders: FailedTarget[] = run.results
+    .filter(result => !result.success && result.error !== 'Cancelled')
+    .map(result => ({ providerId: result.provider, label: result.provider, error: result.error || 'Unknown error' }));
+
+  const failedTargets: FailedTarget[] = run.targets
+    .filter(result => !result.success && !result.cancelled)
+    .map(({ target, error }) => ({
+      providerId: target.providerId,
+      workspaceId: target.workspace?.id,
+      projectId: target.project?.id,
+      label: [target.providerName, target.workspace?.name || target.project?.name].filter(Boolean).join(' / '),
+      error: error || 'Unknown error',
+    }));
+
+  return [...failedProviders, ...failedTargets];
+}
+
+/**
+ * Entries built by a collection, with their provider (the `preview` of a
+ * dry-run response)
+ */
+export function getPreviewEntries(run: Pick<CollectionRun, 'targets'>): UsageEntryPreview[] {
+  return run.targets.flatMap(target => (target.entry ? [target.entry] : []));
+}
+
+/**
+ * Collect all targets of a provider, then report it as done
+ */
+async function collectProvider(
+  info: ProviderInfo,
+  options: CollectionOptions,
+  startDate: string,
+  endDate: string,
+  run: RunState
+): Promise<{ result: CollectionResult; targets: TargetResult[] }> {
+  const outcome = await collectProviderTargets(info, options, startDate, endDate, run);
+  options.onEvent?.({ type: 'provider-done', providerName: info.name, result: outcome.result });
+  return outcome;
+}
+
+/**
+ * Collect all targets of a provider (nothing when the collection is cancelled)
+ */
+async function collectProviderTargets(
+  info: ProviderInfo,
+  options: CollectionOptions,
+  startDate: string,
+  endDate: string,
+  run: RunState
+): Promise<{ result: CollectionResult; targets: TargetResult[] }> {
+  if (await isCancelled(options, run)) {
+    return { result: { provider: info.id, success: false, error: 'Cancelled' }, targets: [] };
+  }
+
+  console.log(`[Collect] Processing provider: ${info.id}`);
+  options.onEvent?.({ type: 'provider-started', providerId: info.id, providerName: info.name });
+  const logs: string[] = [];
+  const settings = getCollectionSettings(info.id);
+
+  try {
+    const provider = getProvider(info.id);
+
+    // Get or create the service in the storage (nothing is written in dry-run mode)
+    const serviceId = options.mode === 'dry-run'
+      ? ''
+      : (await getOrCreateService(info.id, info.name)).id;
+    if (serviceId) {
+      logs.push(`Service: ${serviceId}`);
+    }
+
+    const context: ProviderContext = { info, provider, options, settings, startDate, endDate, serviceId, logs, run };
+    const allTargets = await planTargets(context);
+    await removeProviderFailure(context, allTargets);
+    const plannedTargets = allTargets.filter(target => isTargetSelected(target, options.targets));
+    options.onEvent?.({
+      type: 'targets-planned',
+      providerId: info.id,
+      providerName: info.name,
+      targets: plannedTargets,
+    });
+
+    const targets = await mapWithConcurrency(plannedTargets, settings.concurrency, async target => {
+      const result = await collectTarget(context, target);
+      options.onEvent?.({ type: 'target-done', result });
+      return result;
+    });
+
+    const result = summarizeProvider(info.id, targets);
+    console.log(
+      `[Collect] ${info.id}: $${(result.totalCost || 0).toFixed(2)}, ${result.requests} requests, ` +
+      `${result.entriesCreated} entries created, ${result.entriesUpdated} updated` +
+      ` (${targets.length} target(s), concurrency ${settings.concurrency})`
+    );
+    return { result, targets };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logs.push(`✗ Erreur fatale: ${errorMessage}`);
+    console.error(`[Collect] Error with provider ${info.id}:`, error);
+
+    // Record the failure under the provider target's key, keeping the costs
+    // of an entry already there (nothing is written in dry-run mode)
+    try {
+      if (options.mode !== 'dry-run') {
+        const service = await getOrCreateService(info.id, info.name);
+        await saveTargetFailure({
+          ...emptyEntry(options.month, info.name, PROVIDER_PROJECT_NAME, service.id),
+          collectionStatus: 'Echec',
+          logStatus: logs.join('\n') + `\n\nErreur: ${errorMessage}`,
+        }, options.mode);
+      }
+    } catch {
+      // Ignore error creating error entry
+    }
+
+    return { result: { provider: info.id, success: false, error: errorMessage }, targets: [] };
+  }
+}
+
+/**
+ * Remove the 'Echec' entry of an earlier failure of the whole provider once
+ * its targets are listed (replace mode), unless a provider target replaces it
+ *
+ * Entries saved as 'Error' by earlier versions are removed too.
+ */
+async function removeProviderFailure(context: ProviderContext, targets: CollectionTarget[]): Promise<void> {
+  const { info, options } = context;
+  if (options.mode !== 'replace' || targets.some(target => target.kind === 'provider')) {
+    return;
+  }
+
+  const keys = [PROVIDER_PROJECT_NAME, 'Error'].map(projectName =>
+    generateUsageKey({ identifier: generateUsageIdentifier(options.month, info.name, projectName) })
+  );
+  try {
+    const failures = (await getUsageStore().getMonthUsages(options.month))
+      .filter(usage => usage.collectionStatus === 'Echec' && keys.includes(generateUsageKey(usage)));
+    for (const failure of failures) {
+      await removeUsageEntry(failure.id);
+      console.log(`[Collect] ${info.id}: previous provider failure removed (${failure.identifier})`);
+    }
+  } catch (error) {
+    console.error(`[Collect] Error removing the previous failure of ${info.id}:`, error);
+  }
+}
+
+/**
+ * List the targets of a provider
+ *
+ * @throws Error if the workspaces or projects cannot be listed
+ */
+async function planTargets(context: ProviderContext): Promise<CollectionTarget[]> {
+  const { info, provider, logs } = context;
+  const base = { providerId: info.id, providerName: info.name };
+
+  if (provider.supportsWorkspaces) {
+    // For providers with workspaces, collect per workspace
+    const workspaces = await callProvider(context, 'getWorkspaces', () => provider.getWorkspaces());
+    logs.push(`${workspaces.value.length} workspace(s) trouvé(s)`);
+    return workspaces.value.map(workspace => ({
+      ...base,
+      kind: 'workspace',
+      workspace: { id: workspace.id, name: workspace.name },
+    }));
+  }
+
+  if (!provider.capabilities.reportsCosts) {
+    logs.push('⚠ Données non disponibles via API');
+    return [];
+  }
+
+  // Per-project entries only when the provider can split costs by project
+  const projects = provider.capabilities.projectCosts
+    ? (await callProvider(context, 'getProjects', () => provider.getProjects())).value
+    : [];
+  if (provider.capabilities.projectCosts) {
+    logs.push(`${projects.length} projet(s) trouvé(s)`);
+  }
+
+  if (projects.length === 0) {
+    // No projects, create a single entry for the provider
+    logs.push('Aucun projet - collecte au niveau provider');
+    return [{ ...base, kind: 'provider' }];
+  }
+
+  return projects.map(project => ({
+    ...base,
+    kind: 'project',
+    project: { id: project.id, name: project.name },
+  }));
+}
+
+/**
+ * Collect one target and save its entry according to the collection mode
+ */
+async function collectTarget(context: ProviderContext, target: CollectionTarget): Promise<TargetResult> {
+  const { info, provider, options, serviceId } = context;
+
+  // Already collected by the run being resumed
+  const completed = context.run.completedTargets.get(getTargetKey(target));
+  if (completed) {
+    return completed;
+  }
+
+  if (await isCancelled(options, context.run)) {
+    return { target, success: false, cancelled: true, attempts: 0, durationMs: 0, logs: [], error: 'Cancelled' };
+  }
+
+  const startedAt = Date.now();
+  const logs: string[] = [];
+  const projectName = target.workspace?.name || target.project?.name || PROVIDER_PROJECT_NAME;
+  let attempts = 0;
+
+  if (target.workspace) {
+    logs.push(`Workspace: ${target.workspace.name} (${target.workspace.id})`);
+  } else if (target.project) {
+    logs.push(`Projet: ${target.project.name}`);
+  }
+
+  try {
+    let entry: UsageEntry;
+    let unpricedModels: string[] = [];
+    let missing: MissingRange[] | undefined;
+
+    if (!provider.capabilities.reportsCosts) {
+      // Workspace without cost data: the entry marks the data as unavailable
+      logs.push('⚠ Données non disponibles via API');
+      entry = {
+        ...emptyEntry(options.month, info.name, projectName, serviceId),
+        workspace: target.workspace?.id,
+        collectionStatus: 'Donnees indisponibles',
+        logStatus: [...context.logs, ...logs].join('\n') + '\nAPI ne fournit pas les données de coût',
+      };
+    } else {
+      const costs = await callProvider(context, `getCosts(${projectName})`, () => provider.getCosts({
+        workspace: target.workspace?.id,
+        projectId: target.project?.id || '', // Empty = all projects
+        startDate: context.startDate,
+        endDate: context.endDate,
+      }));
+      attempts = costs.attempts;
+
+      unpricedModels = noteCostWarnings(costs.value, options.discrepancyThreshold, logs);
+      missing = noteMissingRanges(costs.value, logs);
+      entry = buildEntry(context, target, projectName, costs.value, [...context.logs, ...logs].join('\n'));
+      logs.push(`${missing ? '⚠' : '✓'} $${costs.value.total_cost_usd.toFixed(2)} sauvegardé${missing ? ' (partiel)' : ''}`);
+    }
+
+    const written = options.mode === 'dry-run'
+      ? undefined
+      : (await saveUsageEntry(entry, options.mode)).created ? 'created' : 'updated';
+
+    return {
+      target,
+      success: true,
+      status: entry.collectionStatus,
+      costUsd: entry.costUsd,
+      requests: entry.requests,
+      written,
+      entry: { ...entry, providerId: info.id, providerName: info.name },
+      unpricedModels: unpricedModels.length > 0 ? unpricedModels : undefined,
+      missing,
+      attempts,
+      durationMs: Date.now() - startedAt,
+      logs,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    const label = target.workspace
+      ? `workspace ${target.workspace.id}`
+      : target.project ? `projet ${target.project.id}` : '';
+    logs.push(`✗ Erreur${label ? ` ${label}` : ''}: ${errorMessage}`);
+    console.error(`[Collect] Error fetching ${info.id} ${label || 'costs'}:`, error);
+
+    // Record the failure under the target's key (nothing is written in dry-run mode)
+    let written: TargetResult['written'];
+    if (options.mode !== 'dry-run') {
+      try {
+        const saved = await saveTargetFailure({
+          ...emptyEntry(options.month, info.name, projectName, serviceId),
+          projectId: target.project?.id,
+          workspace: target.workspace?.id,
+          collectionStatus: 'Echec',
+          logStatus: [...context.logs, ...logs].join('\n') + `\n\nErreur: ${errorMessage}`,
+        }, options.mode);
+        written = saved.created ? 'created' : 'updated';
+      } catch {
+        // Ignore error creating error entry
+      }
+    }
+
+    return {
+      target,
+      success: false,
+      status: written ? 'Echec' : undefined,
+      written,
+      attempts: attempts || (error as { attempts?: number }).attempts || 1,
+      durationMs: Date.now() - startedAt,
+      logs,
+      error: errorMessage,
+    };
+  }
+}
+
+/**
+ * Save the 'Echec' entry of a failed target (or of a failed provider)
+ *
+ * In replace mode, an entry already saved under the target's key keeps its
+ * costs, tokens and collection date: a transient error does not reset a
+ * month collected before to $0.
+ */
+async function saveTargetFailure(failure: UsageEntry, mode: UsageWriteMode): Promise<UsageWriteResult> {
+  if (mode !== 'replace') {
+    return saveUsageEntry(failure, mode);
+  }
+
+  const key = generateUsageKey(failure);
+  const previous = (await getUsageStore().getMonthUsages(failure.month))
+    .find(usage => generateUsageKey(usage) === key);
+  if (!previous) {
+    return saveUsageEntry(failure, mode);
+  }
+
+  return saveUsageEntry({
+    ...failure,
+    models: previous.models,
+    tokensInput: previous.tokensInput,
+    tokensOutput: previous.tokensOutput,
+    costUsd: previous.costUsd,
+    requests: previous.requests,
+    breakdownJson: previous.breakdownJson,
+    collectedAt: previous.collectedAt,
+    logStatus: `${failure.logStatus}\n\nValeurs conservées de la collecte du ${previous.collectedAt}`,
+  }, mode);
+}
+
+/**
+ * Call a provider with the timeout and retries of its settings
+ */
+function callProvider<T>(context: ProviderContext, label: string, call: () => Promise<T>) {
+  const { info, settings } = context;
+  return withRetry(
+    () => withTimeout(call, settings.timeoutMs, `${info.id} ${label}`),
+    { retries: settings.retries, baseDelayMs: settings.retryDelayMs }
+  );
+}
+
+/**
+ * Flag estimated costs and billed/estimated gaps in the entry log
+ * so they are not read as billed amounts
+ *
+ * @returns The unpriced models
+ */
+function noteCostWarnings(costs: CostData, discrepancyThreshold: number, logs: string[]): string[] {
+  const models = listUnpricedModels(costs.breakdown);
+  if (models.length > 0) {
+    logs.push(`⚠ Tarif estimé (modèle absent du catalogue): ${models.join(', ')}`);
+  }
+
+  if (
+    costs.discrepancy_percent !== undefined &&
+    Math.abs(costs.discrepancy_percent) > discrepancyThreshold
+  ) {
+    const sign = costs.discrepancy_percent > 0 ? '+' : '';
+    logs.push(
+      `⚠ Écart estimé/facturé: ${sign}${costs.discrepancy_percent.toFixed(1)}% ` +
+      `(facturé $${(costs.billed_cost_usd || 0).toFixed(2)}, estimé $${(costs.estimated_cost_usd || 0).toFixed(2)})`
+    );
+  }
+
+  return models;
+}
+
+/**
+ * List the periods missing from partial cost data in the entry log, and
+ * those missing from the breakdown only (the total is complete)
+ *
+ * @returns The ranges missing from the total, undefined when it is complete
+ */
+function noteMissingRanges(costs: CostData, logs: string[]): MissingRange[] | undefined {
+  const describe = (range: MissingRange): string => {
+    const period = range.startDate === range.endDate ? range.startDate : `${range.startDate} → ${range.endDate}`;
+    return `${period}${range.source ? ` (${range.source})` : ''}: ${range.reason}`;
+  };
+
+  for (const range of costs.breakdown_missing || []) {
+    logs.push(`⚠ Détail par modèle incomplet (total facturé complet): ${describe(range)}`);
+  }
+  for (const range of costs.missing || []) {
+    logs.push(`${MISSING_DATA_LOG_PREFIX}${describe(range)}`);
+  }
+
+  return costs.missing?.length ? costs.missing : undefined;
+}
+
+/**
+ * Usage entry of a collected target ('Partiel' when ranges are missing)
+ */
+function buildEntry(
+  context: ProviderContext,
+  target: CollectionTarget,
+  projectName: string,
+  costs: CostData,
+  logStatus: string
+): UsageEntry {
+  return {
+    identifier: generateUsageIdentifier(context.options.month, context.info.name, projectName),
+    servicePageId: context.serviceId,
+    month: context.options.month,
+    projectApiKey: projectName,
+    projectId: target.project?.id,
+    workspace: target.workspace?.id,
+    models: costs.breakdown.map(item => item.model).slice(0, MAX_ENTRY_MODELS).join(', '),
+    ...sumBreakdownTokens(costs.breakdown),
+    costUsd: costs.total_cost_usd,
+    requests: costs.breakdown.reduce((sum, m) => sum + m.requests, 0),
+    breakdownJson: JSON.stringify(costs.breakdown),
+    collectedAt: new Date().toISOString(),
+    collectionStatus: costs.missing?.length ? 'Partiel' : 'Succes',
+    logStatus,
+  };
+}
+
+/**
+ * Usage entry without cost data (status and log to be set)
+ */
+function emptyEntry(
+  month: string,
+  providerName: string,
+  projectName: string,
+  serviceId: string
+): Omit<UsageEntry, 'collectionStatus' | 'logStatus'> {
+  return {
+    identifier: generateUsageIdentifier(month, providerName, projectName),
+    servicePageId: serviceId,
+    month,
+    projectApiKey: projectName,
+    models: '',
+    tokensInput: 0,
+    tokensOutput: 0,
+    costUsd: 0,
+    requests: 0,
+    breakdownJson: '[]',
+    collectedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Per-provider result from its target results
+ */
+function summarizeProvider(providerId: string, targets: TargetResult[]): CollectionResult {
+  const collected = targets.filter(target => target.success);
+  const unpricedModels = new Set(collected.flatMap(target => target.unpricedModels || []));
+
+  return {
+    provider: providerId,
+    success: true,
+    totalCost: collected.reduce((sum, target) => sum + (target.costUsd || 0), 0),
+    requests: collected.reduce((sum, target) => sum + (target.requests || 0), 0),
+    // In dry-run mode, every entry counts as created
+    entriesCreated: collected.filter(target => target.written !== 'updated').length,
+    entriesUpdated: collected.filter(target => target.written === 'updated').length,
+    targetsFailed: targets.filter(target => !target.success && !target.cancelled).length,
+    targetsPartial: collected.filter(target => target.status === 'Partiel').length,
+    unpricedModels: unpricedModels.size > 0 ? Array.from(unpricedModels) : undefined,
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * Timeouts, retries and bounded concurrency for collection calls
+ */
+
+// Upper bound of a single backoff delay
+const MAX_RETRY_DELAY_MS = 30_000;
+
+/**
+ * Reject when a call takes longer than timeoutMs (0: no timeout)
+ *
+ * Provider calls cannot be aborted: the call keeps running in the
+ * background, but the collection moves on.
+ */
+export async function withTimeout<T>(call: () => Promise<T>, timeoutMs: number, label: string): Promise<T> {
+  if (timeoutMs <= 0) {
+    return call();
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => reject(new Error(`${label} timed out after ${timeoutMs / 1000}s`)), timeoutMs);
+  });
+
+  try {
+    return await Promise.race([call(), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Client errors that would fail the same way again (timeouts and rate limits do not)
+const NON_RETRYABLE_STATUSES = [400, 401, 403, 404, 422];
+
+/**
+ * HTTP status carried by an SDK error (`status`, `statusCode` or the AWS
+ * `$metadata.httpStatusCode`), if any
+ */
+function getErrorStatus(error: unknown): number | undefined {
+  if (typeof error !== 'object' || error === null) {
+    return undefined;
+  }
+  const { status, statusCode, $metadata } = error as {
+    status?: unknown;
+    statusCode?: unknown;
+    $metadata?: { httpStatusCode?: unknown };
+  };
+  const value = [status, statusCode, $metadata?.httpStatusCode].find(code => typeof code === 'number');
+  return value as number | undefined;
+}
+
+/**
+ * Whether a failed call is worth retrying
+ *
+ * Client errors (bad request, credentials, permissions, missing resource)
+ * and configuration errors would fail the same way again. The status code
+ * of the error is used when there is one, the message otherwise.
+ */
+export function isRetryableError(error: unknown): boolean {
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    return !NON_RETRYABLE_STATUSES.includes(status);
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return !(
+    /\((400|401|403|404|422)\)|not configured|not found|required|invalid/i.test(message) ||
+    /unauthori[sz]ed|forbidden|permission|access ?denied|not authori[sz]ed|authentication|credentials/i.test(message)
+  );
+}
+
+/**
+ * Run a call, retrying failures with exponential backoff and full jitter
+ * (a random delay between 0 and baseDelayMs * 2^attempt)
+ *
+ * @returns The value and the number of attempts
+ * @throws The last error, with the number of attempts in `attempts`
+ */
+export async function withRetry<T>(
+  call: () => Promise<T>,
+  options: { retries: number; baseDelayMs: number }
+): Promise<{ value: T; attempts: number }> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return { value: await call(), attempts: attempt };
+    } catch (error) {
+      if (attempt > options.retries || !isRetryableError(error)) {
+        throw Object.assign(error instanceof Error ? error : new Error(String(error)), { attempts: attempt });
+      }
+
+      const delay = Math.random() * Math.min(MAX_RETRY_DELAY_MS, options.baseDelayMs * 2 ** (attempt - 1));
+      console.warn(
+        `[Collect] Attempt ${attempt} failed (${error instanceof Error ? error.message : error}), ` +
+        `retrying in ${Math.round(delay)}ms`
+      );
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/**
+ * Map items with at most `limit` workers running at the same time
+ *
+ * @returns The results, in the order of the items
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const runWorker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, runWorker));
+  return results;
+}
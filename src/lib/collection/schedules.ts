@@ -0,0 +1,452 @@
+/**
+ * Collection schedules
+ *
+ * Built-in schedules, instead of an external cron calling /api/collect:
+ * - monthly-close: collects the previous month on day N of the month (after
+ *   the billing settlement lag) and sends the report email
+ * - daily-snapshot: collects the current month every day, its entries being
+ *   updated in place
+ *
+ * Schedules are defined by the environment (SCHEDULE_*) and can be changed
+ * with PUT /api/schedules/:id. The changes and the state of each schedule
+ * (last run, last period done) are kept in the cache backend (CACHE_BACKEND),
+ * like jobs. Due runs are started by runDueSchedules, called by the
+ * in-process timer (SCHEDULER_ENABLED, see instrumentation.ts) or by
+ * /api/schedules/tick from an external cron. Each run is a collection job
+ * (see jobs.ts), which holds the month lock (see lock.ts).
+ *
+ * The state is only a shortcut: a period it does not show as done is looked
+ * up in the usage storage, where it is done if an entry (failed ones apart)
+ * was collected after its run time. A restart or an evicted state (memory
+ * backend) does not lose the periods missed, nor collect again the ones done.
+ *
+ * Catch-up: a monthly close that did not run (app stopped) runs at the next
+ * tick, with the other months not closed among the last
+ * SCHEDULE_CATCH_UP_MAX_MONTHS.
+ */
+
+import { getCacheBackend } from '../../utils/cache';
+import { getUsageStore } from '../storage';
+import { createCollectionJob, getCollectionJob, runCollectionJob } from './jobs';
+import { getLockedBy, getMonthLock, withLock } from './lock';
+
+export type ScheduleId = 'monthly-close' | 'daily-snapshot';
+
+export const SCHEDULE_IDS: ScheduleId[] = ['monthly-close', 'daily-snapshot'];
+
+export interface CollectionSchedule {
+  id: ScheduleId;
+  enabled: boolean;
+  dayOfMonth: number;   // monthly-close: day of the month (1-28), ignored by daily-snapshot
+  hour: number;         // Hour of the day (UTC, 0-23)
+  sendEmail: boolean;
+  catchUp: boolean;     // monthly-close: also collect the months missed since the last close
+}
+
+export type ScheduleRunStatus = 'running' | 'completed' | 'failed' | 'skipped';
+
+export interface ScheduleRun {
+  period: string;       // Month closed ("2026-01") or day of the snapshot ("2026-02-14")
+  month: string;        // Month collected
+  status: ScheduleRunStatus;
+  jobId?: string;
+  startedAt: string;
+  finishedAt?: string;
+  error?: string;
+}
+
+export interface ScheduleState {
+  lastRun?: ScheduleRun;
+  lastPeriod?: string;  // Last period collected successfully
+}
+
+export interface ScheduleStatus extends CollectionSchedule, ScheduleState {
+  pending: string[];         // Periods due, run at the next tick
+  nextRunAt: string | null;  // null when disabled
+}
+
+type ScheduleChanges = Partial<Omit<CollectionSchedule, 'id'>>;
+
+// Schedule changes and states are kept until replaced
+const SCHEDULE_RETENTION_MS = 10 * 365 * 24 * 60 * 60 * 1000;
+
+// A failed run is not started again before an hour, so that a broken
+// configuration does not trigger a collection at every tick
+const FAILED_RUN_RETRY_MS = 60 * 60 * 1000;
+
+const DEFAULT_CATCH_UP_MAX_MONTHS = 3;
+const DEFAULT_INTERVAL_SECONDS = 60;
+
+// Monthly close on the 4th: the previous month is past the settlement lag
+// (CACHE_SETTLEMENT_DAYS, 3 days) and its billing is final
+const DEFAULT_SCHEDULES: Record<ScheduleId, CollectionSchedule> = {
+  'monthly-close': { id: 'monthly-close', enabled: false, dayOfMonth: 4, hour: 6, sendEmail: true, catchUp: true },
+  'daily-snapshot': { id: 'daily-snapshot', enabled: false, dayOfMonth: 1, hour: 5, sendEmail: false, catchUp: false },
+};
+
+let timer: ReturnType<typeof setInterval> | null = null;
+let ticking = false;
+
+function getScheduleKey(id: ScheduleId): string {
+  return `collect-schedule_${id}`;
+}
+
+function getStateKey(id: ScheduleId): string {
+  return `collect-schedule-state_${id}`;
+}
+
+export function isScheduleId(id: string): id is ScheduleId {
+  return (SCHEDULE_IDS as string[]).includes(id);
+}
+
+/**
+ * Schedule from the environment:
+ * SCHEDULE_<ID>_ENABLED, SCHEDULE_<ID>_DAY, SCHEDULE_<ID>_HOUR, SCHEDULE_<ID>_SEND_EMAIL
+ * (ID: MONTHLY_CLOSE or DAILY_SNAPSHOT)
+ */
+function getEnvSchedule(id: ScheduleId): CollectionSchedule {
+  const prefix = `SCHEDULE_${id.toUpperCase().replace(/-/g, '_')}`;
+  const schedule = { ...DEFAULT_SCHEDULES[id] };
+  const env = (name: string) => process.env[`${prefix}_${name}`];
+
+  if (env('ENABLED')) schedule.enabled = env('ENABLED') === 'true';
+  if (env('SEND_EMAIL')) schedule.sendEmail = env('SEND_EMAIL') === 'true';
+  if (env('DAY') && !getScheduleValidationError({ dayOfMonth: Number(env('DAY')) })) {
+    schedule.dayOfMonth = Number(env('DAY'));
+  }
+  if (env('HOUR') && !getScheduleValidationError({ hour: Number(env('HOUR')) })) {
+    schedule.hour = Number(env('HOUR'));
+  }
+
+  return schedule;
+}
+
+/**
+ * Why schedule changes are invalid, or null when they are valid
+ */
+export function getScheduleValidationError(changes: Record<string, unknown>): string | null {
+  const { enabled, dayOfMonth, hour, sendEmail, catchUp } = changes;
+
+  if (dayOfMonth !== undefined && !(Number.isInteger(dayOfMonth) && (dayOfMonth as number) >= 1 && (dayOfMonth as number) <= 28)) {
+    return 'dayOfMonth must be an integer from 1 to 28';
+  }
+  if (hour !== undefined && !(Number.isInteger(hour) && (hour as number) >= 0 && (hour as number) <= 23)) {
+    return 'hour must be an integer from 0 to 23 (UTC)';
+  }
+  for (const [name, value] of Object.entries({ enabled, sendEmail, catchUp })) {
+    if (value !== undefined && typeof value !== 'boolean') {
+      return `${name} must be a boolean`;
+    }
+  }
+  return null;
+}
+
+export async function getCollectionSchedule(id: ScheduleId): Promise<CollectionSchedule> {
+  const changes = await getCacheBackend().get<ScheduleChanges>(getScheduleKey(id));
+  return { ...getEnvSchedule(id), ...changes?.data, id };
+}
+
+/**
+ * Change a schedule (the changes take precedence over the environment)
+ *
+ * @throws Error if the changes are invalid (see getScheduleValidationError)
+ */
+export async function updateCollectionSchedule(id: ScheduleId, changes: ScheduleChanges): Promise<CollectionSchedule> {
+  const error = getScheduleValidationError(changes);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const backend = getCacheBackend();
+  const stored = await backend.get<ScheduleChanges>(getScheduleKey(id));
+  const { enabled, dayOfMonth, hour, sendEmail, catchUp } = changes;
+  const merged: ScheduleChanges = { ...stored?.data };
+  for (const [name, value] of Object.entries({ enabled, dayOfMonth, hour, sendEmail, catchUp })) {
+    if (value !== undefined) {
+      Object.assign(merged, { [name]: value });
+    }
+  }
+
+  await backend.set(getScheduleKey(id), { data: merged, timestamp: Date.now() }, SCHEDULE_RETENTION_MS);
+  return getCollectionSchedule(id);
+}
+
+async function getScheduleState(id: ScheduleId): Promise<ScheduleState> {
+  const entry = await getCacheBackend().get<ScheduleState>(getStateKey(id));
+  return entry ? entry.data : {};
+}
+
+async function saveScheduleState(id: ScheduleId, state: ScheduleState): Promise<void> {
+  await getCacheBackend().set(getStateKey(id), { data: state, timestamp: Date.now() }, SCHEDULE_RETENTION_MS);
+}
+
+/**
+ * Schedules with their last run, due periods and next run
+ */
+export async function listScheduleStatuses(now: Date = new Date()): Promise<ScheduleStatus[]> {
+  return Promise.all(SCHEDULE_IDS.map(async id => {
+    const [schedule, state] = await Promise.all([getCollectionSchedule(id), getScheduleState(id)]);
+    const pending = schedule.enabled ? (await getDueRuns(schedule, state, now)).map(run => run.period) : [];
+    const retryTime = pending.length > 0 ? getRetryTime(state, pending[0]) : null;
+    const nextRunTime = pending.length > 0
+      ? (retryTime && retryTime > now ? retryTime : now)
+      : getNextRunTime(schedule, now);
+    return {
+      ...schedule,
+      ...state,
+      pending,
+      nextRunAt: schedule.enabled ? nextRunTime.toISOString() : null,
+    };
+  }));
+}
+
+/**
+ * Start the runs that are due, one after the other
+ *
+ * Only one process runs the schedules at a time (scheduler lock). Never
+ * throws: failures are saved in the schedule state.
+ *
+ * @returns The runs started by this call
+ */
+export async function runDueSchedules(now: Date = new Date()): Promise<ScheduleRun[]> {
+  if (ticking) {
+    return [];
+  }
+  ticking = true;
+
+  try {
+    return await withLock('scheduler', `scheduler (pid ${process.pid})`, async () => {
+      const runs: ScheduleRun[] = [];
+
+      for (const id of SCHEDULE_IDS) {
+        const schedule = await getCollectionSchedule(id);
+        if (!schedule.enabled) {
+          continue;
+        }
+
+        const state = await getScheduleState(id);
+        const dueRuns = await getDueRuns(schedule, state, now);
+        const lastPeriod = getLastDuePeriod(schedule, now);
+        if (dueRuns.length === 0 && lastPeriod && !(state.lastPeriod && state.lastPeriod >= lastPeriod)) {
+          // Found done in the storage: not looked up again at the next ticks
+          await saveScheduleState(id, { ...state, lastPeriod });
+        }
+
+        for (const due of dueRuns) {
+          const retryTime = getRetryTime(state, due.period);
+          if (retryTime && retryTime > now) {
+            break;
+          }
+
+          const run = await runSchedule(schedule, due);
+          runs.push(run);
+          // Later months of a catch-up wait for the next tick
+          if (run.status !== 'completed') {
+            break;
+          }
+        }
+      }
+
+      return runs;
+    });
+  } catch (error) {
+    const lockedBy = getLockedBy(error);
+    if (lockedBy) {
+      console.log(`[Schedule] Schedules already running (${lockedBy.owner})`);
+    } else {
+      console.error('[Schedule] Error running schedules:', error);
+    }
+    return [];
+  } finally {
+    ticking = false;
+  }
+}
+
+/**
+ * Run the due schedules every SCHEDULER_INTERVAL_SECONDS (default 60) in
+ * this process, starting now (catch-up after a restart)
+ */
+export function startScheduler(): void {
+  if (timer) {
+    return;
+  }
+
+  const intervalSeconds = Number(process.env.SCHEDULER_INTERVAL_SECONDS) || DEFAULT_INTERVAL_SECONDS;
+  timer = setInterval(() => void runDueSchedules(), intervalSeconds * 1000);
+  // The timer alone does not keep the process alive
+  timer.unref?.();
+  console.log(`[Schedule] Scheduler started (every ${intervalSeconds}s)`);
+  void runDueSchedules();
+}
+
+/**
+ * Collect a due period as a job, unless its month is being collected
+ */
+async function runSchedule(schedule: CollectionSchedule, due: { period: string; month: string }): Promise<ScheduleRun> {
+  const state = await getScheduleState(schedule.id);
+  const run: ScheduleRun = { ...due, status: 'running', startedAt: new Date().toISOString() };
+
+  try {
+    const lock = await getMonthLock(due.month);
+    if (lock) {
+      console.log(`[Schedule] ${schedule.id} ${due.period} skipped: ${due.month} is being collected (${lock.owner})`);
+      run.status = 'skipped';
+      run.error = `Collecte de ${due.month} déjà en cours (${lock.owner})`;
+      run.finishedAt = new Date().toISOString();
+      await saveScheduleState(schedule.id, { ...state, lastRun: run });
+      return run;
+    }
+
+    const job = await createCollectionJob({ month: due.month, mode: 'replace', sendEmail: schedule.sendEmail });
+    run.jobId = job.id;
+    console.log(`[Schedule] ${schedule.id} ${due.period}: job ${job.id} for ${due.month}`);
+    await saveScheduleState(schedule.id, { ...state, lastRun: run });
+
+    await runCollectionJob(job.id);
+
+    const done = await getCollectionJob(job.id);
+    run.status = done?.status === 'completed' ? 'completed' : 'failed';
+    run.error = run.status === 'failed' ? done?.error || `Job ${done?.status || 'not found'}` : undefined;
+  } catch (error) {
+    console.error(`[Schedule] ${schedule.id} ${due.period} failed:`, error);
+    run.status = 'failed';
+    run.error = error instanceof Error ? error.message : 'Schedule run failed';
+  }
+
+  run.finishedAt = new Date().toISOString();
+  await saveScheduleState(schedule.id, {
+    lastRun: run,
+    lastPeriod: run.status === 'completed' ? due.period : state.lastPeriod,
+  }).catch(error => console.error(`[Schedule] Error saving ${schedule.id} state:`, error));
+  return run;
+}
+
+/**
+ * Periods of a schedule that are due, oldest first
+ */
+async function getDueRuns(
+  schedule: CollectionSchedule,
+  state: ScheduleState,
+  now: Date
+): Promise<Array<{ period: string; month: string }>> {
+  return schedule.id === 'monthly-close'
+    ? (await getDueMonths(schedule, state, now)).map(month => ({ period: month, month }))
+    : getDueSnapshot(schedule, state, now);
+}
+
+/**
+ * Last period whose run time has passed: the month to close or today's
+ * snapshot (null before the snapshot hour)
+ */
+function getLastDuePeriod(schedule: CollectionSchedule, now: Date): string | null {
+  if (schedule.id === 'monthly-close') {
+    const currentMonth = formatMonth(now.getUTCFullYear(), now.getUTCMonth());
+    const closeTime = getMonthlyRunTime(schedule, now.getUTCFullYear(), now.getUTCMonth());
+    return addMonths(currentMonth, now >= closeTime ? -1 : -2);
+  }
+  return now.getUTCHours() >= schedule.hour ? now.toISOString().split('T')[0] : null;
+}
+
+/**
+ * Whether a month has an entry collected since a time (by a schedule, a
+ * manual collection or another instance), failed entries apart
+ */
+async function hasCollectionSince(month: string, time: Date): Promise<boolean> {
+  const usages = await getUsageStore().getMonthUsages(month);
+  return usages.some(usage => usage.collectionStatus !== 'Echec' && new Date(usage.collectedAt) >= time);
+}
+
+/**
+ * When a period whose last run failed can run again, or null
+ */
+function getRetryTime(state: ScheduleState, period: string): Date | null {
+  const { lastRun } = state;
+  if (lastRun?.status !== 'failed' || lastRun.period !== period) {
+    return null;
+  }
+  return new Date(new Date(lastRun.finishedAt || lastRun.startedAt).getTime() + FAILED_RUN_RETRY_MS);
+}
+
+/**
+ * Months to close: the last month whose close time has passed, and with
+ * catch-up the earlier ones not closed (SCHEDULE_CATCH_UP_MAX_MONTHS at most)
+ *
+ * Months after the last close of the state are looked up in the storage.
+ */
+async function getDueMonths(schedule: CollectionSchedule, state: ScheduleState, now: Date): Promise<string[]> {
+  const lastDue = getLastDuePeriod(schedule, now) as string;
+  if (state.lastPeriod && state.lastPeriod >= lastDue) {
+    return [];
+  }
+
+  const maxMonths = schedule.catchUp
+    ? Math.max(1, Number(process.env.SCHEDULE_CATCH_UP_MAX_MONTHS) || DEFAULT_CATCH_UP_MAX_MONTHS)
+    : 1;
+  const months: string[] = [];
+  for (let month = addMonths(lastDue, 1 - maxMonths); month <= lastDue; month = addMonths(month, 1)) {
+    if (state.lastPeriod && month <= state.lastPeriod) {
+      continue;
+    }
+    if (!await hasCollectionSince(month, getMonthCloseTime(schedule, month))) {
+      months.push(month);
+    }
+  }
+  return months;
+}
+
+/**
+ * Today's snapshot of the current month, once its hour has passed and
+ * unless the month was collected since
+ */
+async function getDueSnapshot(
+  schedule: CollectionSchedule,
+  state: ScheduleState,
+  now: Date
+): Promise<Array<{ period: string; month: string }>> {
+  const today = getLastDuePeriod(schedule, now);
+  if (!today || state.lastPeriod === today) {
+    return [];
+  }
+
+  const month = today.slice(0, 7);
+  const runTime = new Date(`${today}T${String(schedule.hour).padStart(2, '0')}:00:00Z`);
+  return await hasCollectionSince(month, runTime) ? [] : [{ period: today, month }];
+}
+
+/**
+ * Next scheduled time after now
+ */
+function getNextRunTime(schedule: CollectionSchedule, now: Date): Date {
+  if (schedule.id === 'monthly-close') {
+    const thisMonth = getMonthlyRunTime(schedule, now.getUTCFullYear(), now.getUTCMonth());
+    return thisMonth > now ? thisMonth : getMonthlyRunTime(schedule, now.getUTCFullYear(), now.getUTCMonth() + 1);
+  }
+
+  const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), schedule.hour));
+  return today > now ? today : new Date(today.getTime() + 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Close time of a month (monthIndex: 0-11, may overflow to the next year)
+ */
+function getMonthlyRunTime(schedule: CollectionSchedule, year: number, monthIndex: number): Date {
+  return new Date(Date.UTC(year, monthIndex, schedule.dayOfMonth, schedule.hour));
+}
+
+/**
+ * Close time of a month: day N of the next month
+ */
+function getMonthCloseTime(schedule: CollectionSchedule, month: string): Date {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return getMonthlyRunTime(schedule, year, monthNumber);
+}
+
+function formatMonth(year: number, monthIndex: number): string {
+  const date = new Date(Date.UTC(year, monthIndex, 1));
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+}
+
+function addMonths(month: string, count: number): string {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return formatMonth(year, monthNumber - 1 + count);
+}
@@ -0,0 +1,70 @@
+/**
+ * Collection settings
+ *
+ * Read from the environment, for all providers or per provider:
+ * - COLLECT_CONCURRENCY / COLLECT_CONCURRENCY_<PROVIDER_ID> (default 2)
+ * - COLLECT_TIMEOUT_SECONDS / COLLECT_TIMEOUT_SECONDS_<PROVIDER_ID> (default 60)
+ * - COLLECT_RETRIES (default 2) and COLLECT_RETRY_DELAY_MS (default 1000)
+ * - COST_DISCREPANCY_THRESHOLD_PERCENT (default 5)
+ */
+
+import { CollectionSettings } from './types';
+
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_TIMEOUT_SECONDS = 60;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+
+// Billed/estimated gap (in %) above which the entry log gets a warning
+const DEFAULT_DISCREPANCY_THRESHOLD_PERCENT = 5;
+
+// Providers reading billing exports (files, BigQuery) gain nothing from
+// parallel calls: every target reads the same export
+const PROVIDER_CONCURRENCY: Record<string, number> = {
+  'azure-openai': 1,
+  bedrock: 1,
+  gemini: 1,
+};
+
+/**
+ * First non-negative number among the given environment variables
+ */
+function getEnvNumber(names: string[], fallback: number): number {
+  for (const name of names) {
+    const value = Number(process.env[name]);
+    if (process.env[name] && Number.isFinite(value) && value >= 0) {
+      return value;
+    }
+  }
+  return fallback;
+}
+
+/**
+ * Execution settings of a provider's collection
+ */
+export function getCollectionSettings(providerId: string): CollectionSettings {
+  const suffix = providerId.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+
+  return {
+    concurrency: Math.max(1, Math.floor(getEnvNumber(
+      [`COLLECT_CONCURRENCY_${suffix}`, 'COLLECT_CONCURRENCY'],
+      PROVIDER_CONCURRENCY[providerId] ?? DEFAULT_CONCURRENCY
+    ))),
+    timeoutMs: getEnvNumber(
+      [`COLLECT_TIMEOUT_SECONDS_${suffix}`, 'COLLECT_TIMEOUT_SECONDS'],
+      DEFAULT_TIMEOUT_SECONDS
+    ) * 1000,
+    retries: Math.floor(getEnvNumber(['COLLECT_RETRIES'], DEFAULT_RETRIES)),
+    retryDelayMs: getEnvNumber(['COLLECT_RETRY_DELAY_MS'], DEFAULT_RETRY_DELAY_MS),
+  };
+}
+
+/**
+ * Billed/estimated gap (in %) flagged in entry logs
+ */
+export function getDiscrepancyThreshold(): number {
+  const configuredThreshold = parseFloat(process.env.COST_DISCREPANCY_THRESHOLD_PERCENT || '');
+  return Number.isNaN(configuredThreshold)
+    ? DEFAULT_DISCREPANCY_THRESHOLD_PERCENT
+    : configuredThreshold;
+}
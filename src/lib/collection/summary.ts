@@ -0,0 +1,76 @@
+/**
+ * Collection summary and report email
+ */
+
+import { calculateChangePercent, getMonthlySummary, getPreviousMonth } from '../storage';
+import { CollectionResult } from './types';
+
+export interface CollectionSummary {
+  totalCostUsd: number;
+  previousMonthCost: number;
+  changePercent: number;
+  providerCount: number;
+  entriesCreated: number;
+  entriesUpdated: number;
+  reportUrl: string;
+}
+
+/**
+ * URL of the application (links in reports and emails)
+ */
+function getAppUrl(): string {
+  return process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+}
+
+/**
+ * Summary of a collection, compared with the previous month as stored
+ */
+export async function summarizeCollection(month: string, results: CollectionResult[]): Promise<CollectionSummary> {
+  const totalCostUsd = results.reduce((sum, r) => sum + (r.totalCost || 0), 0);
+
+  // Get previous month's data for comparison
+  const previousSummary = await getMonthlySummary(getPreviousMonth(month));
+  const previousMonthCost = previousSummary ? previousSummary.data.totalCostUsd : 0;
+
+  const reportToken = process.env.REPORT_SECRET_TOKEN || '';
+
+  return {
+    totalCostUsd,
+    previousMonthCost,
+    changePercent: calculateChangePercent(totalCostUsd, previousMonthCost),
+    providerCount: results.filter(r => r.success && (r.totalCost || 0) > 0).length,
+    entriesCreated: results.reduce((sum, r) => sum + (r.entriesCreated || 0), 0),
+    entriesUpdated: results.reduce((sum, r) => sum + (r.entriesUpdated || 0), 0),
+    reportUrl: `${getAppUrl()}/report?token=${reportToken}&month=${month}`,
+  };
+}
+
+/**
+ * Models whose cost is an estimate, as "provider/model"
+ */
+export function listCollectionUnpricedModels(results: CollectionResult[]): string[] {
+  return results.flatMap(r => (r.unpricedModels || []).map(model => `${r.provider}/${model}`));
+}
+
+/**
+ * Send the monthly report email (no-op without RESEND_API_KEY)
+ *
+ * @returns Whether the email was sent
+ */
+export async function sendCollectionReport(month: string): Promise<boolean> {
+  if (!process.env.RESEND_API_KEY) {
+    return false;
+  }
+
+  try {
+    const emailResponse = await fetch(
+      `${getAppUrl()}/api/send-report?token=${process.env.COLLECT_SECRET_TOKEN}&month=${month}`,
+      { method: 'POST' }
+    );
+    console.log(`[Collect] Email ${emailResponse.ok ? 'sent' : 'failed'}`);
+    return emailResponse.ok;
+  } catch (emailError) {
+    console.error('[Collect] Error sending email:', emailError);
+    return false;
+  }
+}
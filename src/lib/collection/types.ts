@@ -0,0 +1,126 @@
+/**
+ * Collection pipeline types
+ */
+
+import { CollectionStatus, UsageEntryPreview, UsageWriteMode } from '../storage';
+import { MissingRange } from '../types';
+
+/**
+ * How entries are written:
+ * - replace (default): update the entries of a previous collection in place
+ * - append: always add new entries (totals then include every collection)
+ * - dry-run: collect without writing anything
+ */
+export type CollectionMode = UsageWriteMode | 'dry-run';
+
+export const COLLECTION_MODES: CollectionMode[] = ['replace', 'append', 'dry-run'];
+
+/**
+ * One unit of collection, saved as one usage entry
+ * - workspace: whole workspace (providers with workspaces)
+ * - project: one project (providers reporting costs per project)
+ * - provider: whole provider ("Default" entry)
+ */
+export interface CollectionTarget {
+  providerId: string;
+  providerName: string;
+  kind: 'workspace' | 'project' | 'provider';
+  workspace?: { id: string; name: string };
+  project?: { id: string; name: string };
+}
+
+/**
+ * Targets to collect (POST /api/collect/retry): all targets of the provider,
+ * or only its workspace or project when set
+ */
+export interface TargetSelector {
+  providerId: string;
+  workspaceId?: string;
+  projectId?: string;
+}
+
+/**
+ * Target (or whole provider) whose collection failed, to be retried
+ */
+export interface FailedTarget extends TargetSelector {
+  label: string;      // "OpenAI / Projet X"
+  error: string;
+}
+
+/**
+ * Outcome of collecting one target
+ */
+export interface TargetResult {
+  target: CollectionTarget;
+  success: boolean;
+  status?: CollectionStatus;        // Status of the saved entry ('Echec' for a failed target)
+  costUsd?: number;
+  requests?: number;
+  written?: 'created' | 'updated';  // Omitted in dry-run mode
+  entry?: UsageEntryPreview;        // Entry built for the target
+  unpricedModels?: string[];
+  missing?: MissingRange[];         // Periods the provider could not fetch ('Partiel' entry)
+  attempts: number;                 // Provider calls, retries included
+  durationMs: number;
+  logs: string[];
+  error?: string;
+  cancelled?: boolean;              // Not collected: the collection was cancelled
+}
+
+/**
+ * Per-provider outcome, as returned by POST /api/collect
+ */
+export interface CollectionResult {
+  provider: string;
+  success: boolean;
+  totalCost?: number;
+  requests?: number;
+  entriesCreated?: number; // New entries (or entries that would be written, in dry-run mode)
+  entriesUpdated?: number; // Entries of a previous collection updated in place
+  targetsFailed?: number; // Workspaces or projects that could not be collected
+  targetsPartial?: number; // Workspaces or projects collected with missing periods
+  unpricedModels?: string[]; // Models whose cost is an estimate
+  error?: string;
+}
+
+/**
+ * Progress of a collection, reported as it runs
+ */
+export type CollectionEvent =
+  | { type: 'provider-started'; providerId: string; providerName: string }
+  | { type: 'targets-planned'; providerId: string; providerName: string; targets: CollectionTarget[] }
+  | { type: 'target-done'; result: TargetResult }
+  | { type: 'provider-done'; providerName: string; result: CollectionResult };
+
+export interface CollectionOptions {
+  month: string;                  // Format: "2026-01"
+  mode: CollectionMode;
+  discrepancyThreshold: number;   // Billed/estimated gap (in %) flagged in entry logs
+  targets?: TargetSelector[];     // Only collect these targets (retry)
+  completedTargets?: TargetResult[]; // Targets of a previous run kept as is (resume)
+  onEvent?: (event: CollectionEvent) => void;
+  isCancelled?: () => Promise<boolean>; // Checked before each provider and target
+}
+
+/**
+ * Outcome of a whole collection
+ */
+export interface CollectionRun {
+  month: string;
+  mode: CollectionMode;
+  startDate: string;              // First day of the month (YYYY-MM-DD)
+  endDate: string;                // Last day of the month (YYYY-MM-DD)
+  results: CollectionResult[];
+  targets: TargetResult[];
+  cancelled: boolean;
+}
+
+/**
+ * Execution settings of a provider's calls (see getCollectionSettings)
+ */
+export interface CollectionSettings {
+  concurrency: number;      // Targets collected at the same time
+  timeoutMs: number;        // Per provider call
+  retries: number;          // Retries after a failed call
+  retryDelayMs: number;     // Base delay of the exponential backoff
+}
@@ -0,0 +1,101 @@
+/**
+ * Cost Data Helpers
+ *
+ * Combines CostData fetched for consecutive date ranges (e.g. cached closed
+ * months plus the live current month) into the CostData of the whole range.
+ */
+
+import { calculateDiscrepancyPercent, isEstimatedPricing, listUnpricedModels } from './pricing';
+import { CostData, ModelCost } from './types';
+
+/**
+ * Sum breakdown rows of the same model (and usage category)
+ */
+function mergeBreakdowns(breakdowns: ModelCost[][]): ModelCost[] {
+  const rows = new Map<string, ModelCost>();
+
+  for (const row of breakdowns.flat()) {
+    const key = `${row.category || ''}:${row.model}`;
+    const existing = rows.get(key);
+
+    if (!existing) {
+      rows.set(key, { ...row });
+      continue;
+    }
+
+    existing.cost_usd += row.cost_usd;
+    existing.requests += row.requests;
+    if (row.input_tokens !== undefined) existing.input_tokens = (existing.input_tokens || 0) + row.input_tokens;
+    if (row.output_tokens !== undefined) existing.output_tokens = (existing.output_tokens || 0) + row.output_tokens;
+    if (row.cached_input_tokens !== undefined) {
+      existing.cached_input_tokens = (existing.cached_input_tokens || 0) + row.cached_input_tokens;
+    }
+    if (row.units !== undefined) existing.units = (existing.units || 0) + row.units;
+
+    // A row is only as exact as its least exact part
+    if (isEstimatedPricing(row.pricing_source) && !isEstimatedPricing(existing.pricing_source)) {
+      existing.pricing_source = row.pricing_source;
+    }
+  }
+
+  return Array.from(rows.values()).sort((a, b) => b.cost_usd - a.cost_usd);
+}
+
+/**
+ * Sum a reconciliation field, only when every part reports it
+ */
+function sumIfAll(parts: CostData[], field: 'billed_cost_usd' | 'estimated_cost_usd'): number | undefined {
+  if (parts.some(part => part[field] === undefined)) {
+    return undefined;
+  }
+  return parts.reduce((sum, part) => sum + (part[field] || 0), 0);
+}
+
+/**
+ * Merge the CostData of consecutive, non-overlapping date ranges
+ *
+ * Billed and estimated amounts are only kept when every part has them
+ * (a part without billing data would make the billed sum misleading).
+ * The missing ranges of all parts are kept.
+ *
+ * @throws Error if no part is given
+ */
+export function mergeCostData(parts: CostData[]): CostData {
+  if (parts.length === 0) {
+    throw new Error('mergeCostData needs at least one part');
+  }
+  if (parts.length === 1) {
+    return parts[0];
+  }
+
+  const breakdown = mergeBreakdowns(parts.map(part => part.breakdown));
+  const billedBreakdowns = parts.filter(part => part.billed_breakdown).map(part => part.billed_breakdown!);
+  const billed = sumIfAll(parts, 'billed_cost_usd');
+  const estimated = sumIfAll(parts, 'estimated_cost_usd');
+  const missing = parts.flatMap(part => part.missing || []);
+  const breakdownMissing = parts.flatMap(part => part.breakdown_missing || []);
+
+  const merged: CostData = {
+    total_cost_usd: parts.reduce((sum, part) => sum + part.total_cost_usd, 0),
+    last_updated: parts.map(part => part.last_updated).sort().reverse()[0],
+    breakdown,
+    unpriced_models: listUnpricedModels(breakdown),
+  };
+
+  if (billed !== undefined) merged.billed_cost_usd = billed;
+  if (estimated !== undefined) merged.estimated_cost_usd = estimated;
+  if (billed !== undefined && estimated !== undefined) {
+    merged.discrepancy_percent = calculateDiscrepancyPercent(billed, estimated);
+  }
+  if (billedBreakdowns.length > 0) {
+    merged.billed_breakdown = mergeBreakdowns(billedBreakdowns);
+  }
+  if (missing.length > 0) {
+    merged.missing = missing;
+  }
+  if (breakdownMissing.length > 0) {
+    merged.breakdown_missing = breakdownMissing;
+  }
+
+  return merged;
+}
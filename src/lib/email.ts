@@ -62,6 +62,28 @@ function getProviderEmoji(provider: string): string {
   return icons[provider] || '📊';
 }
 
+/**
+ * Escape text inserted in the HTML template (provider errors, project names)
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Incomplete entries of each provider, one line each ("OpenAI / Projet X (partiel): ...")
+ */
+function listIncompleteLines(providers: ProviderSnapshot[]): string[] {
+  return providers.flatMap(p => (p.incomplete || []).map(entry =>
+    `${p.provider.charAt(0).toUpperCase() + p.provider.slice(1)} / ${entry.name} ` +
+    `(${entry.status === 'Echec' ? 'échec' : 'partiel'})` +
+    (entry.details.length > 0 ? `: ${entry.details.join(' ; ')}` : '')
+  ));
+}
+
 /**
  * Generate HTML email template for monthly report
  */
@@ -90,6 +112,21 @@ export function generateReportEmailHtml(
     )
     .join('');
 
+  const incompleteLines = listIncompleteLines(providers);
+  const incompleteBlock = incompleteLines.length > 0
+    ? `
+    <!-- Incomplete Data -->
+    <div style="background: rgba(120, 53, 15, 0.3); border: 1px solid #92400e; border-radius: 16px; padding: 16px 20px; margin-top: 24px;">
+      <p style="color: #fcd34d; font-size: 14px; font-weight: 600; margin: 0 0 8px 0;">
+        ⚠ Données incomplètes : les totaux n'incluent pas les périodes manquantes
+      </p>
+      <ul style="color: #fde68a; font-size: 13px; margin: 0; padding-left: 20px;">
+        ${incompleteLines.map(line => `<li style="margin: 4px 0;">${escapeHtml(line)}</li>`).join('')}
+      </ul>
+    </div>
+`
+    : '';
+
   return `
 <!DOCTYPE html>
 <html lang="fr">
@@ -158,7 +195,7 @@ export function generateReportEmailHtml(
         </tbody>
       </table>
     </div>
-
+${incompleteBlock}
     <!-- CTA Button -->
     <div style="text-align: center; margin-top: 32px;">
       <a href="${summary.reportUrl}" 
@@ -193,6 +230,11 @@ export function generateReportEmailText(
     .map((p) => `  • ${p.provider}: $${p.totalCostUsd.toFixed(2)} (${p.requests.toLocaleString()} requêtes)`)
     .join('\n');
 
+  const incompleteLines = listIncompleteLines(providers);
+  const incompleteSection = incompleteLines.length > 0
+    ? `\nDONNÉES INCOMPLÈTES (non incluses dans les totaux):\n${incompleteLines.map(line => `  ⚠ ${line}`).join('\n')}\n`
+    : '';
+
   return `
 RAPPORT MENSUEL LLM - ${formatMonth(summary.month).toUpperCase()}
 ${'='.repeat(50)}
@@ -202,7 +244,7 @@ VARIATION: ${change} (vs. $${summary.previousMonthCost.toFixed(2)} le mois préc
 
 DÉTAIL PAR PROVIDER:
 ${providerList}
-
+${incompleteSection}
 ---
 Voir le rapport complet: ${summary.reportUrl}
 
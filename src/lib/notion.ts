@@ -7,9 +7,13 @@
  * - Usages: Detailed usage entries linked to services
  *
  * All requests are made server-side to avoid CORS issues.
+ *
+ * The types, aggregation and utility functions are shared by every storage
+ * backend (see ./storage): routes go through the storage layer, not this module.
  */
 
 import { Client } from '@notionhq/client';
+import { isEstimatedPricing } from './pricing';
 import { ModelCost } from './types';
 
 // Initialize Notion client
@@ -21,6 +25,18 @@ const notion = new Client({
 const SERVICES_DB_ID = process.env.NOTION_SERVICES_DB_ID || '';
 const USAGES_DB_ID = process.env.NOTION_USAGES_DB_ID || '';
 
+// Rows per query page (Notion maximum)
+const QUERY_PAGE_SIZE = 100;
+
+// Safety limit on pages per query (100,000 rows)
+const MAX_QUERY_PAGES = 1000;
+
+// Usage properties needed to compute monthly summaries
+const SUMMARY_PROPERTIES = ['Identifiant', 'Mois', 'Coût USD', 'Collecte Le'];
+
+type QueryDatabaseArgs = Parameters<typeof notion.databases.query>[0];
+type PageProperties = Parameters<typeof notion.pages.create>[0]['properties'];
+
 // ============================================================================
 // TYPES
 // ============================================================================
@@ -30,6 +46,12 @@ const USAGES_DB_ID = process.env.NOTION_USAGES_DB_ID || '';
  */
 export type CollectionStatus = 'Succes' | 'Echec' | 'Partiel' | 'Donnees indisponibles';
 
+/**
+ * Prefix of the log lines listing the periods a partial entry is missing
+ * (read back to show incomplete data in reports)
+ */
+export const MISSING_DATA_LOG_PREFIX = '⚠ Données manquantes: ';
+
 /**
  * Service - A provider entry in the Services database
  */
@@ -47,10 +69,11 @@ export interface Service {
  */
 export interface UsageEntry {
   identifier: string; // Format: "2026-01 - OpenAI - ProjectName"
-  servicePageId: string; // Notion page ID of the related service
+  servicePageId: string; // ID of the related service (Notion page ID or SQL row ID)
   month: string; // Format: "2026-01"
   projectApiKey: string; // Project name, API key, or workspace if not available
   workspace?: string; // Workspace ID if applicable
+  projectId?: string; // Project ID if the entry is for a single project
   models: string; // Comma-separated list of models used
   tokensInput: number;
   tokensOutput: number;
@@ -66,9 +89,37 @@ export interface UsageEntry {
  * Usage data returned from queries (includes computed fields)
  */
 export interface UsageData extends Omit<UsageEntry, 'servicePageId'> {
-  id: string; // Notion page ID
+  id: string; // Notion page ID or SQL row ID
   serviceName: string;
   tokensTotal: number;
+  version: number; // Number of collections that wrote this entry
+}
+
+/**
+ * Usage entry built by a dry-run collection, not saved yet
+ * (servicePageId is set when it is committed)
+ */
+export interface UsageEntryPreview extends UsageEntry {
+  providerId: string;
+  providerName: string;
+}
+
+/**
+ * Outcome of saving a usage entry
+ */
+export interface UsageWriteResult {
+  id: string;
+  created: boolean; // false when an existing entry was updated in place
+  version: number;
+}
+
+/**
+ * Entry whose data is incomplete ('Partiel' or 'Echec')
+ */
+export interface IncompleteEntry {
+  name: string; // Project or workspace
+  status: CollectionStatus;
+  details: string[]; // Missing periods or error, from the entry log
 }
 
 // Legacy interfaces for backward compatibility with report page
@@ -79,6 +130,7 @@ export interface ProviderSnapshot {
   requests: number;
   breakdown: ModelCost[];
   collectedAt: string;
+  incomplete?: IncompleteEntry[]; // Set when some entries are partial or failed
 }
 
 export interface MonthlySummary {
@@ -106,10 +158,107 @@ export function isNotionConfigured(): boolean {
   );
 }
 
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Iterate over all pages matching a database query, following `next_cursor`
+ *
+ * Results are yielded as each query page arrives, so callers can stop early.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function* queryDatabase(args: QueryDatabaseArgs): AsyncGenerator<any> {
+  let cursor: string | undefined;
+  let pageCount = 0;
+
+  do {
+    const response = await notion.databases.query({
+      ...args,
+      start_cursor: cursor,
+      page_size: QUERY_PAGE_SIZE,
+    });
+
+    yield* response.results;
+
+    cursor = response.has_more ? response.next_cursor || undefined : undefined;
+    pageCount++;
+  } while (cursor && pageCount < MAX_QUERY_PAGES);
+
+  if (cursor) {
+    console.warn(`[Notion] Query on ${args.database_id} stopped after ${MAX_QUERY_PAGES} pages`);
+  }
+}
+
+/**
+ * Collect all pages matching a database query
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function queryAllPages(args: QueryDatabaseArgs): Promise<any[]> {
+  const pages = [];
+  for await (const page of queryDatabase(args)) {
+    pages.push(page);
+  }
+  return pages;
+}
+
+let usagePropertyIds: Promise<Record<string, string>> | null = null;
+
+/**
+ * Properties of the Usages database: ID by name (retrieved once per process)
+ */
+function getUsageProperties(): Promise<Record<string, string>> {
+  if (!usagePropertyIds) {
+    usagePropertyIds = notion.databases.retrieve({ database_id: USAGES_DB_ID })
+      .then(database => Object.fromEntries(
+        Object.entries(database.properties).map(([name, property]) => [name, property.id])
+      ))
+      .catch(error => {
+        usagePropertyIds = null; // Retried by the next call
+        throw error;
+      });
+  }
+  return usagePropertyIds;
+}
+
+/**
+ * Check that the Usages database has the 'Clé' property, without which an
+ * entry cannot be told apart from another project's entry of the same name
+ *
+ * @throws Error if the property is missing
+ */
+async function requireUsageKeyProperty(): Promise<void> {
+  const properties = await getUsageProperties();
+  if (!properties['Clé']) {
+    throw new Error(
+      "The Notion Usages database has no 'Clé' property. Add a 'Clé' Text property (see docs/NOTION_SETUP.md)."
+    );
+  }
+}
+
+/**
+ * IDs of the given Usages database properties (for `filter_properties`)
+ */
+async function getUsagePropertyIds(names: string[]): Promise<string[]> {
+  const ids = await getUsageProperties();
+  return names.filter(name => ids[name]).map(name => ids[name]);
+}
+
 // ============================================================================
 // SERVICES DATABASE
 // ============================================================================
 
+/**
+ * Console URL of the known providers, set on new services
+ */
+export const SERVICE_CONSOLE_URLS: Record<string, string> = {
+  openai: 'https://platform.openai.com',
+  anthropic: 'https://console.anthropic.com',
+  elevenlabs: 'https://elevenlabs.io',
+  deepgram: 'https://console.deepgram.com',
+  openrouter: 'https://openrouter.ai',
+};
+
 /**
  * Get or create a service entry by provider ID
  */
@@ -125,14 +274,6 @@ export async function getOrCreateService(providerId: string, displayName: string
   }
 
   // Create new service entry
-  const consoleUrls: Record<string, string> = {
-    openai: 'https://platform.openai.com',
-    anthropic: 'https://console.anthropic.com',
-    elevenlabs: 'https://elevenlabs.io',
-    deepgram: 'https://console.deepgram.com',
-    openrouter: 'https://openrouter.ai',
-  };
-
   const response = await notion.pages.create({
     parent: { database_id: SERVICES_DB_ID },
     properties: {
@@ -146,7 +287,7 @@ export async function getOrCreateService(providerId: string, displayName: string
         select: { name: 'Actif' },
       },
       'URL Console': {
-        url: consoleUrls[providerId] || null,
+        url: SERVICE_CONSOLE_URLS[providerId] || null,
       },
     },
   });
@@ -156,7 +297,7 @@ export async function getOrCreateService(providerId: string, displayName: string
     name: displayName,
     providerId,
     status: 'Actif',
-    consoleUrl: consoleUrls[providerId],
+    consoleUrl: SERVICE_CONSOLE_URLS[providerId],
   };
 }
 
@@ -168,7 +309,7 @@ export async function findServiceByProviderId(providerId: string): Promise<Servi
     return null;
   }
 
-  const response = await notion.databases.query({
+  const pages = queryDatabase({
     database_id: SERVICES_DB_ID,
     filter: {
       property: 'ID Provider',
@@ -176,13 +317,11 @@ export async function findServiceByProviderId(providerId: string): Promise<Servi
     },
   });
 
-  if (response.results.length === 0) {
-    return null;
-  }
+  // Only the first match is needed
+  const { value: page, done } = await pages.next();
+  await pages.return(undefined);
 
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const page = response.results[0] as any;
-  return parseServicePage(page);
+  return done ? null : parseServicePage(page);
 }
 
 /**
@@ -193,13 +332,12 @@ export async function getAllServices(): Promise<Service[]> {
     return [];
   }
 
-  const response = await notion.databases.query({
+  const pages = await queryAllPages({
     database_id: SERVICES_DB_ID,
     sorts: [{ property: 'Nom', direction: 'ascending' }],
   });
 
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  return response.results.map((page: any) => parseServicePage(page));
+  return pages.map(page => parseServicePage(page));
 }
 
 /**
@@ -230,14 +368,107 @@ export async function createUsageEntry(entry: UsageEntry): Promise<string> {
     throw new Error('Notion is not configured. Please set NOTION_API_KEY and database IDs.');
   }
 
+  const response = await notion.pages.create({
+    parent: { database_id: USAGES_DB_ID },
+    properties: await buildUsageProperties(entry, 1),
+  });
+
+  return response.id;
+}
+
+/**
+ * Save a usage entry, updating in place the entry with the same key
+ * (see generateUsageKey) when one exists
+ *
+ * The updated page keeps its ID (and its Notion page history); its 'Version'
+ * is incremented. Other pages with the same key, left by earlier appends,
+ * are archived so that they no longer count in totals and rollups.
+ */
+export async function upsertUsageEntry(entry: UsageEntry): Promise<UsageWriteResult> {
+  if (!isNotionConfigured()) {
+    throw new Error('Notion is not configured. Please set NOTION_API_KEY and database IDs.');
+  }
+
+  const existing = await findUsagePages(entry);
+  if (existing.length === 0) {
+    return { id: await createUsageEntry(entry), created: true, version: 1 };
+  }
+
+  const [current, ...duplicates] = existing;
+  const version = (current.properties['Version']?.number || 1) + 1;
+
+  await notion.pages.update({
+    page_id: current.id,
+    properties: await buildUsageProperties(entry, version),
+  });
+
+  for (const duplicate of duplicates) {
+    await notion.pages.update({ page_id: duplicate.id, archived: true });
+  }
+
+  return { id: current.id, created: false, version };
+}
+
+/**
+ * Archive a usage entry, so that it no longer counts in totals and rollups
+ */
+export async function archiveUsageEntry(pageId: string): Promise<void> {
+  if (!isNotionConfigured()) {
+    throw new Error('Notion is not configured. Please set NOTION_API_KEY and database IDs.');
+  }
+
+  await notion.pages.update({ page_id: pageId, archived: true });
+}
+
+/**
+ * Find the pages of an entry's key, most recently collected first
+ *
+ * Matches the 'Clé' property, and pages saved without a key by identifier
+ * and workspace, unless the entry is a project's: those pages do not say
+ * which project (of the same name) they belong to.
+ *
+ * @throws Error if the database has no 'Clé' property
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function findUsagePages(entry: UsageEntry): Promise<any[]> {
+  await requireUsageKeyProperty();
+  const keyMatch = { property: 'Clé', rich_text: { equals: generateUsageKey(entry) } };
+  const legacyMatch = [
+    { property: 'Identifiant', title: { equals: entry.identifier } },
+    entry.workspace
+      ? { property: 'Workspace', rich_text: { equals: entry.workspace } }
+      : { property: 'Workspace', rich_text: { is_empty: true as const } },
+  ];
+
+  const filter: QueryDatabaseArgs['filter'] = entry.projectId
+    ? keyMatch
+    : {
+      or: [
+        keyMatch,
+        { and: [...legacyMatch, { property: 'Clé', rich_text: { is_empty: true as const } }] },
+      ],
+    };
+
+  return queryAllPages({
+    database_id: USAGES_DB_ID,
+    filter,
+    sorts: [{ property: 'Collecte Le', direction: 'descending' }],
+  });
+}
+
+/**
+ * Notion properties of a usage entry
+ *
+ * 'Version' is only written when the database has it.
+ *
+ * @throws Error if the database has no 'Clé' property
+ */
+async function buildUsageProperties(entry: UsageEntry, version: number): Promise<PageProperties> {
   // Truncate breakdown JSON if too long (Notion has 2000 char limit for rich_text)
   let breakdownJson = entry.breakdownJson;
   if (breakdownJson.length > 1900) {
-    // Keep first items and add truncation note
     try {
-      const breakdown = JSON.parse(breakdownJson);
-      const truncated = breakdown.slice(0, 5);
-      breakdownJson = JSON.stringify(truncated) + ' [truncated]';
+      breakdownJson = truncateBreakdown(JSON.parse(breakdownJson), 1900);
     } catch {
       breakdownJson = breakdownJson.substring(0, 1900) + '... [truncated]';
     }
@@ -249,55 +480,111 @@ export async function createUsageEntry(entry: UsageEntry): Promise<string> {
     logStatus = logStatus.substring(0, 1900) + '... [truncated]';
   }
 
-  const response = await notion.pages.create({
-    parent: { database_id: USAGES_DB_ID },
-    properties: {
-      'Identifiant': {
-        title: [{ text: { content: entry.identifier } }],
-      },
-      'Service': {
-        relation: [{ id: entry.servicePageId }],
-      },
-      'Mois': {
-        rich_text: [{ text: { content: entry.month } }],
-      },
-      'Projet/API Key': {
-        rich_text: [{ text: { content: entry.projectApiKey } }],
-      },
-      'Workspace': {
-        rich_text: [{ text: { content: entry.workspace || '' } }],
-      },
-      'Modèles': {
-        rich_text: [{ text: { content: entry.models } }],
-      },
-      'Tokens Input': {
-        number: entry.tokensInput,
-      },
-      'Tokens Output': {
-        number: entry.tokensOutput,
-      },
-      'Coût USD': {
-        number: entry.costUsd,
-      },
-      'Requêtes': {
-        number: entry.requests,
-      },
-      'Breakdown JSON': {
-        rich_text: [{ text: { content: breakdownJson } }],
-      },
-      'Collecte Le': {
-        date: { start: entry.collectedAt },
-      },
-      'Statut Collecte': {
-        select: { name: entry.collectionStatus },
-      },
-      'Log Status': {
-        rich_text: [{ text: { content: logStatus } }],
-      },
+  const properties: PageProperties = {
+    'Identifiant': {
+      title: [{ text: { content: entry.identifier } }],
     },
-  });
+    'Service': {
+      relation: [{ id: entry.servicePageId }],
+    },
+    'Mois': {
+      rich_text: [{ text: { content: entry.month } }],
+    },
+    'Projet/API Key': {
+      rich_text: [{ text: { content: entry.projectApiKey } }],
+    },
+    'Workspace': {
+      rich_text: [{ text: { content: entry.workspace || '' } }],
+    },
+    'Modèles': {
+      rich_text: [{ text: { content: entry.models } }],
+    },
+    'Tokens Input': {
+      number: entry.tokensInput,
+    },
+    'Tokens Output': {
+      number: entry.tokensOutput,
+    },
+    'Coût USD': {
+      number: entry.costUsd,
+    },
+    'Requêtes': {
+      number: entry.requests,
+    },
+    'Breakdown JSON': {
+      rich_text: [{ text: { content: breakdownJson } }],
+    },
+    'Collecte Le': {
+      date: { start: entry.collectedAt },
+    },
+    'Statut Collecte': {
+      select: { name: entry.collectionStatus },
+    },
+    'Log Status': {
+      rich_text: [{ text: { content: logStatus } }],
+    },
+  };
 
-  return response.id;
+
+  await requireUsageKeyProperty();
+  properties['Clé'] = { rich_text: [{ text: { content: generateUsageKey(entry) } }] };
+  const schema = await getUsageProperties();
+  if (schema['Version']) {
+    properties['Version'] = { number: version };
+  }
+
+  return properties;
+}
+
+/**
+ * Breakdown JSON of at most maxLength characters, with a truncation note
+ *
+ * Models priced with an estimated rate are kept first (they are listed by
+ * /api/pricing), then as many of the others as fit, in their order.
+ */
+function truncateBreakdown(breakdown: ModelCost[], maxLength: number): string {
+  const note = ' [truncated]';
+  const ordered = [
+    ...breakdown.filter(item => isEstimatedPricing(item.pricing_source)),
+    ...breakdown.filter(item => !isEstimatedPricing(item.pricing_source)),
+  ];
+
+  const kept = new Set<ModelCost>();
+  let length = '[]'.length + note.length;
+  for (const item of ordered) {
+    const itemLength = JSON.stringify(item).length + 1; // With its comma
+    if (length + itemLength <= maxLength) {
+      kept.add(item);
+      length += itemLength;
+    }
+  }
+
+  return JSON.stringify(breakdown.filter(item => kept.has(item))) + note;
+}
+
+/**
+ * Parse the breakdown JSON of a stored entry
+ *
+ * Reads truncated breakdowns (see buildUsageProperties): a breakdown cut in
+ * the middle of a model keeps the models before it.
+ *
+ * @returns The models, or null when the JSON cannot be read
+ */
+export function parseBreakdownJson(breakdownJson: string): ModelCost[] | null {
+  const json = breakdownJson.replace(/(\.\.\.)? \[truncated\]$/, '');
+  const complete = json.slice(0, json.lastIndexOf('}') + 1) + ']';
+
+  for (const candidate of [json, complete]) {
+    try {
+      const parsed = JSON.parse(candidate);
+      if (Array.isArray(parsed)) {
+        return parsed;
+      }
+    } catch {
+      // Try the complete models only
+    }
+  }
+  return null;
 }
 
 /**
@@ -308,7 +595,7 @@ export async function getMonthUsages(month: string): Promise<UsageData[]> {
     return [];
   }
 
-  const response = await notion.databases.query({
+  const pages = await queryAllPages({
     database_id: USAGES_DB_ID,
     filter: {
       property: 'Mois',
@@ -317,8 +604,7 @@ export async function getMonthUsages(month: string): Promise<UsageData[]> {
     sorts: [{ property: 'Coût USD', direction: 'descending' }],
   });
 
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  return response.results.map((page: any) => parseUsagePage(page));
+  return pages.map(page => parseUsagePage(page));
 }
 
 /**
@@ -333,6 +619,27 @@ export async function getMonthUsagesByProvider(month: string, providerId: string
   );
 }
 
+/**
+ * Get all usage entries, most recent month first
+ *
+ * @param options.summaryOnly - Only fetch the properties needed for monthly
+ *   summaries (identifier, month, cost, collection date); the other fields
+ *   are left empty
+ */
+export async function getAllUsages(options: { summaryOnly?: boolean } = {}): Promise<UsageData[]> {
+  if (!isNotionConfigured()) {
+    return [];
+  }
+
+  const pages = await queryAllPages({
+    database_id: USAGES_DB_ID,
+    sorts: [{ property: 'Mois', direction: 'descending' }],
+    filter_properties: options.summaryOnly ? await getUsagePropertyIds(SUMMARY_PROPERTIES) : undefined,
+  });
+
+  return pages.map(page => parseUsagePage(page));
+}
+
 /**
  * Parse a Notion page into UsageData
  */
@@ -350,6 +657,8 @@ function parseUsagePage(page: any): UsageData {
     month: props['Mois']?.rich_text?.[0]?.text?.content || '',
     projectApiKey: props['Projet/API Key']?.rich_text?.[0]?.text?.content || '',
     workspace: props['Workspace']?.rich_text?.[0]?.text?.content || undefined,
+    // Last part of the key (see generateUsageKey)
+    projectId: props['Clé']?.rich_text?.[0]?.text?.content?.split(' | ').pop() || undefined,
     models: props['Modèles']?.rich_text?.[0]?.text?.content || '',
     tokensInput,
     tokensOutput,
@@ -360,6 +669,7 @@ function parseUsagePage(page: any): UsageData {
     collectedAt: props['Collecte Le']?.date?.start || '',
     collectionStatus: props['Statut Collecte']?.select?.name || 'Succes',
     logStatus: props['Log Status']?.rich_text?.[0]?.text?.content || '',
+    version: props['Version']?.number || 1,
   };
 }
 
@@ -371,14 +681,20 @@ function parseUsagePage(page: any): UsageData {
  * Get aggregated data for a month (for report page compatibility)
  */
 export async function getMonthSnapshots(month: string): Promise<ProviderSnapshot[]> {
-  const usages = await getMonthUsages(month);
-  
+  return buildMonthSnapshots(month, await getMonthUsages(month));
+}
+
+/**
+ * Aggregate a month's usage entries per provider
+ */
+export function buildMonthSnapshots(month: string, usages: UsageData[]): ProviderSnapshot[] {
   // Group by provider (extracted from identifier)
   const providerMap = new Map<string, {
     costs: number;
     requests: number;
     breakdown: ModelCost[];
     collectedAt: string;
+    incomplete: IncompleteEntry[];
   }>();
 
   for (const usage of usages) {
@@ -388,18 +704,17 @@ export async function getMonthSnapshots(month: string): Promise<ProviderSnapshot
 
     const existing = providerMap.get(provider);
     
-    let breakdown: ModelCost[] = [];
-    try {
-      const parsed = JSON.parse(usage.breakdownJson.replace(' [truncated]', ''));
-      breakdown = Array.isArray(parsed) ? parsed : [];
-    } catch {
-      breakdown = [];
-    }
+    const breakdown = parseBreakdownJson(usage.breakdownJson) || [];
+
+    const incomplete = usage.collectionStatus === 'Partiel' || usage.collectionStatus === 'Echec'
+      ? [{ name: usage.projectApiKey, status: usage.collectionStatus, details: listIncompleteDetails(usage.logStatus) }]
+      : [];
 
     if (existing) {
       existing.costs += usage.costUsd;
       existing.requests += usage.requests;
       existing.breakdown = [...existing.breakdown, ...breakdown];
+      existing.incomplete.push(...incomplete);
       if (usage.collectedAt > existing.collectedAt) {
         existing.collectedAt = usage.collectedAt;
       }
@@ -409,6 +724,7 @@ export async function getMonthSnapshots(month: string): Promise<ProviderSnapshot
         requests: usage.requests,
         breakdown,
         collectedAt: usage.collectedAt,
+        incomplete,
       });
     }
   }
@@ -423,18 +739,42 @@ export async function getMonthSnapshots(month: string): Promise<ProviderSnapshot
       requests: data.requests,
       breakdown: data.breakdown,
       collectedAt: data.collectedAt,
+      incomplete: data.incomplete.length > 0 ? data.incomplete : undefined,
     });
   }
 
   return snapshots;
 }
 
+/**
+ * Missing periods and errors listed in an entry log
+ */
+function listIncompleteDetails(logStatus: string): string[] {
+  return logStatus
+    .split('\n')
+    .filter(line => line.startsWith(MISSING_DATA_LOG_PREFIX) || line.startsWith('Erreur: '))
+    .map(line => line.startsWith(MISSING_DATA_LOG_PREFIX) ? line.slice(MISSING_DATA_LOG_PREFIX.length) : line);
+}
+
 /**
  * Get monthly summary (aggregated from usages)
  */
 export async function getMonthlySummary(month: string): Promise<{ id: string; data: MonthlySummary } | null> {
-  const usages = await getMonthUsages(month);
-  
+  const [usages, previousUsages] = await Promise.all([
+    getMonthUsages(month),
+    getMonthUsages(getPreviousMonth(month)),
+  ]);
+  return buildMonthlySummary(month, usages, previousUsages);
+}
+
+/**
+ * Summarize a month's usage entries, compared with the previous month's
+ */
+export function buildMonthlySummary(
+  month: string,
+  usages: UsageData[],
+  previousUsages: UsageData[]
+): { id: string; data: MonthlySummary } | null {
   if (usages.length === 0) {
     return null;
   }
@@ -450,9 +790,7 @@ export async function getMonthlySummary(month: string): Promise<{ id: string; da
     usages[0].collectedAt
   );
 
-  // Get previous month data for comparison
-  const previousMonth = getPreviousMonth(month);
-  const previousUsages = await getMonthUsages(previousMonth);
+  // Previous month data for comparison
   const previousCost = previousUsages.reduce((sum, u) => sum + u.costUsd, 0);
   const changePercent = calculateChangePercent(totalCost, previousCost);
 
@@ -479,19 +817,13 @@ export async function getMonthlySummary(month: string): Promise<{ id: string; da
  * Get all monthly summaries
  */
 export async function getAllMonthlySummaries(): Promise<MonthlySummary[]> {
-  if (!isNotionConfigured()) {
-    return [];
-  }
-
-  // Get all usages and group by month
-  const response = await notion.databases.query({
-    database_id: USAGES_DB_ID,
-    sorts: [{ property: 'Mois', direction: 'descending' }],
-  });
-
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const usages = response.results.map((page: any) => parseUsagePage(page));
+  return buildMonthlySummaries(await getAllUsages({ summaryOnly: true }));
+}
 
+/**
+ * Summarize usage entries of any months, most recent month first
+ */
+export function buildMonthlySummaries(usages: UsageData[]): MonthlySummary[] {
   // Group by month
   const monthMap = new Map<string, UsageData[]>();
   for (const usage of usages) {
@@ -573,6 +905,19 @@ export function calculateChangePercent(current: number, previous: number): numbe
   return ((current - previous) / previous) * 100;
 }
 
+/**
+ * Sum input/output token counts reported in a model breakdown
+ */
+export function sumBreakdownTokens(breakdown: ModelCost[]): { tokensInput: number; tokensOutput: number } {
+  return breakdown.reduce(
+    (totals, item) => ({
+      tokensInput: totals.tokensInput + (item.input_tokens || 0),
+      tokensOutput: totals.tokensOutput + (item.output_tokens || 0),
+    }),
+    { tokensInput: 0, tokensOutput: 0 }
+  );
+}
+
 /**
  * Generate identifier for usage entry
  */
@@ -580,6 +925,15 @@ export function generateUsageIdentifier(month: string, providerName: string, pro
   return `${month} - ${providerName} - ${projectName}`;
 }
 
+/**
+ * Generate the key of a usage entry: a collection updates the entry with
+ * the same key instead of adding one (identifier + workspace ID + project ID,
+ * as project names are not unique)
+ */
+export function generateUsageKey(entry: Pick<UsageEntry, 'identifier' | 'workspace' | 'projectId'>): string {
+  return [entry.identifier, entry.workspace || '', entry.projectId || ''].join(' | ');
+}
+
 // ============================================================================
 // LEGACY COMPATIBILITY (for existing code)
 // ============================================================================
@@ -592,12 +946,7 @@ export async function saveProviderSnapshot(snapshot: ProviderSnapshot): Promise<
   const service = await getOrCreateService(snapshot.provider, snapshot.provider);
 
   // Calculate tokens from breakdown
-  let tokensInput = 0;
-  const tokensOutput = 0;
-  for (const item of snapshot.breakdown) {
-    // Estimate tokens from cost (rough approximation)
-    tokensInput += Math.round(item.cost_usd * 100000); // Placeholder
-  }
+  const { tokensInput, tokensOutput } = sumBreakdownTokens(snapshot.breakdown);
 
   // Create usage entry
   const identifier = generateUsageIdentifier(snapshot.month, service.name, 'All Projects');
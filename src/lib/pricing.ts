@@ -0,0 +1,314 @@
+/**
+ * Model Pricing Catalog
+ *
+ * Single source of truth for the rates used to estimate costs from usage
+ * (tokens, characters, audio hours...). Rates are loaded from the bundled
+ * `pricing-catalog.json`, or from the JSON or YAML (.yaml, .yml) file
+ * pointed to by the PRICING_CATALOG_PATH environment variable, so new models
+ * can be priced without a code change.
+ *
+ * Each model holds one or more rate periods with effective dates: a month is
+ * always priced with the rates that were in force at the time.
+ */
+
+import { readFileSync } from 'fs';
+import { parse as parseYaml } from 'yaml';
+import bundledCatalog from './pricing-catalog.json';
+import { ModelCost, PricingSource } from './types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A set of rates valid over a date range
+ */
+export interface PricingPeriod {
+  effective_from: string;         // YYYY-MM-DD, inclusive
+  effective_to?: string | null;   // YYYY-MM-DD, exclusive (omit for current rates)
+  rates: Record<string, number>;  // e.g. { input: 2.5, output: 10 } per 1M tokens
+}
+
+export interface ProviderPricing {
+  unit: string;                              // Human-readable unit of the rates
+  models: Record<string, PricingPeriod[]>;   // Must contain a 'default' entry
+}
+
+export interface PricingCatalog {
+  version: string;
+  providers: Record<string, ProviderPricing>;
+}
+
+/**
+ * How a model was matched against the catalog
+ * - exact: model (or a dated snapshot of it) is in the catalog
+ * - prefix: closest catalog entry sharing the model's prefix
+ * - default: no match, provider default rates were used
+ */
+export type PricingMatch = Exclude<PricingSource, 'provider'>;
+
+export interface ResolvedPricing {
+  key: string;      // Catalog key that was used
+  match: PricingMatch;
+  rates: Record<string, number>;
+}
+
+export interface PricingFallback {
+  provider: string;
+  model: string;
+  lastSeen: string;  // ISO timestamp of the last collection that priced it with 'default'
+  count: number;     // Number of entries that priced it with 'default'
+}
+
+// ============================================================================
+// CATALOG LOADING
+// ============================================================================
+
+let catalog: PricingCatalog | null = null;
+let catalogSource: 'bundled' | 'file' = 'bundled';
+
+/**
+ * Get the pricing catalog (loaded once per process)
+ *
+ * @throws Error if PRICING_CATALOG_PATH is set but the file is invalid
+ */
+export function getPricingCatalog(): PricingCatalog {
+  if (catalog) {
+    return catalog;
+  }
+
+  const catalogPath = process.env.PRICING_CATALOG_PATH;
+  if (catalogPath) {
+    try {
+      const content = readFileSync(catalogPath, 'utf-8');
+      catalog = validateCatalog(/\.ya?ml$/i.test(catalogPath) ? parseYaml(content) : JSON.parse(content));
+      catalogSource = 'file';
+      console.log(`[Pricing] Loaded catalog ${catalog.version} from ${catalogPath}`);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to load pricing catalog from ${catalogPath}: ${errorMsg}`);
+    }
+  } else {
+    catalog = validateCatalog(bundledCatalog);
+  }
+
+  return catalog;
+}
+
+/**
+ * Where the active catalog was loaded from
+ */
+export function getPricingCatalogSource(): 'bundled' | 'file' {
+  getPricingCatalog();
+  return catalogSource;
+}
+
+/**
+ * Add (or replace) the rates of a provider at runtime, e.g. rates declared
+ * with a provider in PROVIDERS_CONFIG_PATH
+ *
+ * @throws Error if the rates are invalid
+ */
+export function registerProviderPricing(providerId: string, pricing: ProviderPricing): void {
+  const current = getPricingCatalog();
+  const validated = validateCatalog({ version: current.version, providers: { [providerId]: pricing } });
+
+  catalog = {
+    ...current,
+    providers: { ...current.providers, [providerId]: validated.providers[providerId] },
+  };
+}
+
+/**
+ * Check the catalog structure (every provider needs a 'default' entry)
+ */
+function validateCatalog(data: unknown): PricingCatalog {
+  const candidate = data as PricingCatalog;
+
+  if (!candidate || typeof candidate.version !== 'string' || typeof candidate.providers !== 'object') {
+    throw new Error('Invalid pricing catalog: expected { version, providers }');
+  }
+
+  for (const [providerId, pricing] of Object.entries(candidate.providers)) {
+    if (!pricing.models?.default?.length) {
+      throw new Error(`Invalid pricing catalog: provider '${providerId}' has no 'default' rates`);
+    }
+    for (const [model, periods] of Object.entries(pricing.models)) {
+      if (!Array.isArray(periods) || periods.some(p => !p.effective_from || !p.rates)) {
+        throw new Error(`Invalid pricing catalog: bad rate periods for '${providerId}/${model}'`);
+      }
+    }
+  }
+
+  return candidate;
+}
+
+// ============================================================================
+// LOOKUP
+// ============================================================================
+
+/**
+ * Pick the rate period in force on a given date.
+ * Falls back to the closest period when the date is outside all of them.
+ */
+function selectPeriod(periods: PricingPeriod[], date: string): PricingPeriod {
+  const day = date.split('T')[0];
+  const sorted = [...periods].sort((a, b) => a.effective_from.localeCompare(b.effective_from));
+
+  const inForce = sorted.find(p =>
+    p.effective_from <= day && (!p.effective_to || day < p.effective_to)
+  );
+  if (inForce) {
+    return inForce;
+  }
+
+  // Before the first known rates: use the oldest; otherwise the most recent
+  return day < sorted[0].effective_from ? sorted[0] : sorted[sorted.length - 1];
+}
+
+/**
+ * Resolve the rates for a model on a given date
+ *
+ * Lookup order: exact key, exact key without a date suffix
+ * (e.g. 'claude-3-5-haiku-20241022', 'gpt-4.1-2025-04-14'), longest catalog
+ * prefix, then the provider's 'default' rates.
+ *
+ * @param providerId - Provider ID (e.g., 'openai')
+ * @param model - Native model name returned by the provider
+ * @param date - Usage date (YYYY-MM-DD or ISO timestamp)
+ * @param rateKey - Only match catalog entries defining this rate (e.g. 'per_image'),
+ *   so that 'gpt-4o-mini-tts' is not priced like the 'gpt-4o-mini' text model
+ * @throws Error if the provider has no pricing in the catalog
+ */
+export function resolveModelPricing(
+  providerId: string,
+  model: string,
+  date: string,
+  rateKey?: string
+): ResolvedPricing {
+  const providerPricing = getPricingCatalog().providers[providerId];
+
+  if (!providerPricing) {
+    throw new Error(`No pricing found for provider '${providerId}' in the pricing catalog`);
+  }
+
+  const models = providerPricing.models;
+  const normalized = (model || '').toLowerCase();
+  const undated = normalized.replace(/-(\d{8}|\d{4}-\d{2}-\d{2})$/, '');
+  const isCandidate = (candidate: string): boolean =>
+    !!models[candidate] &&
+    (!rateKey || models[candidate].some(period => period.rates[rateKey] !== undefined));
+
+  let key: string | undefined;
+  let match: PricingMatch = 'exact';
+
+  if (normalized === 'default') {
+    key = undefined;
+  } else if (isCandidate(normalized)) {
+    key = normalized;
+  } else if (isCandidate(undated)) {
+    key = undated;
+  } else {
+    key = Object.keys(models)
+      .filter(candidate => candidate !== 'default' && normalized.startsWith(candidate) && isCandidate(candidate))
+      .sort((a, b) => b.length - a.length)[0];
+    match = 'prefix';
+  }
+
+  if (!key) {
+    key = 'default';
+    match = 'default';
+  }
+
+  return {
+    key,
+    match,
+    rates: selectPeriod(models[key], date).rates,
+  };
+}
+
+/**
+ * Cost of a token count at a per-1M-tokens rate
+ */
+export function costPerMillion(tokens: number, ratePerMillion: number | undefined): number {
+  return (tokens / 1_000_000) * (ratePerMillion || 0);
+}
+
+/**
+ * Gap between a usage-based estimate and the billed amount, relative to the billed amount
+ */
+export function calculateDiscrepancyPercent(billed: number, estimated: number): number {
+  if (billed === 0) {
+    return estimated === 0 ? 0 : 100;
+  }
+  return ((estimated - billed) / billed) * 100;
+}
+
+/**
+ * Whether a cost is a guess rather than a catalog (or provider) price
+ */
+export function isEstimatedPricing(source: PricingSource | undefined): boolean {
+  return source === 'prefix' || source === 'default';
+}
+
+/**
+ * List the models of a breakdown whose cost is an estimate
+ */
+export function listUnpricedModels(breakdown: ModelCost[]): string[] {
+  return Array.from(new Set(
+    breakdown.filter(item => isEstimatedPricing(item.pricing_source)).map(item => item.model)
+  ));
+}
+
+// ============================================================================
+// FALLBACKS
+// ============================================================================
+
+/**
+ * Models that collected entries priced with a provider's 'default' rate and
+ * that are still missing from the catalog, most recently seen first
+ *
+ * Built from the pricing source saved in each entry's breakdown, so the list
+ * is the same whatever the process or instance that collected them.
+ */
+export function listPricingFallbacks(
+  entries: Array<{ providerId: string; breakdown: ModelCost[]; collectedAt: string }>
+): PricingFallback[] {
+  const fallbacks = new Map<string, PricingFallback>();
+
+  for (const entry of entries) {
+    for (const item of entry.breakdown) {
+      if (item.pricing_source !== 'default') {
+        continue;
+      }
+
+      const key = `${entry.providerId}:${item.model}`;
+      const existing = fallbacks.get(key);
+      if (existing) {
+        existing.count++;
+        if (entry.collectedAt > existing.lastSeen) {
+          existing.lastSeen = entry.collectedAt;
+        }
+      } else {
+        fallbacks.set(key, { provider: entry.providerId, model: item.model, lastSeen: entry.collectedAt, count: 1 });
+      }
+    }
+  }
+
+  const today = new Date().toISOString().split('T')[0];
+  return Array.from(fallbacks.values())
+    .filter(fallback => isMissingFromCatalog(fallback.provider, fallback.model, today))
+    .sort((a, b) => b.lastSeen.localeCompare(a.lastSeen));
+}
+
+/**
+ * Whether a model is still priced with its provider's 'default' rate
+ * (models of providers no longer in the catalog are reported)
+ */
+function isMissingFromCatalog(providerId: string, model: string, date: string): boolean {
+  try {
+    return resolveModelPricing(providerId, model, date).match === 'default';
+  } catch {
+    return true;
+  }
+}
@@ -6,17 +6,47 @@
  * 
  * The "Project" dropdown lists API keys for the selected workspace.
  *
+ * Costs come from the Usage & Cost Admin API:
+ *   - /organizations/usage_report/messages: tokens per model, priced with the catalog (estimate)
+ *   - /organizations/cost_report: amounts actually billed, per workspace and line item
+ *
+ * Only workspace totals are billed: an API key's costs, and a workspace's
+ * when the Cost Report is unavailable, are estimated (costSource 'mixed').
+ *
+ * A usage report cut short (page limit reached, page failed after the first
+ * one) is returned as partial data, with the days not fetched in `missing`
+ * (in `breakdown_missing` when the billed total is complete).
+ *
  * Environment variable:
  *   ANTHROPIC_ADMIN_KEY=sk-ant-admin-xxx...
  */
 
 import { ILLMProvider } from './interface';
-import { Workspace, Project, CostParams, CostData, ModelCost } from '../types';
+import { Workspace, Project, CostParams, CostData, MissingRange, ModelCost, ProviderCapabilities } from '../types';
+import {
+  resolveModelPricing,
+  costPerMillion,
+  calculateDiscrepancyPercent,
+  PricingMatch,
+} from '../pricing';
+
+// The organization's default workspace is not listed by the API and is
+// reported with a null workspace_id: we expose it under this ID
+const DEFAULT_WORKSPACE_ID = 'default';
 
 export class AnthropicProvider implements ILLMProvider {
   public readonly id = 'anthropic';
   public readonly name = 'Anthropic';
   public readonly supportsWorkspaces = true;
+  public readonly capabilities: ProviderCapabilities = {
+    reportsCosts: true,
+    dateRange: true,
+    projectCosts: true,
+    dailyGranularity: true,
+    costSource: 'mixed', // Cost report for workspace totals, estimate per API key
+    usageUnit: 'tokens',
+    timeSeries: [],
+  };
 
   /**
    * Get the Admin API key
@@ -101,10 +131,13 @@ export class AnthropicProvider implements ILLMProvider {
       }
 
       // Map Anthropic workspaces to our Workspace type
-      const workspaces = data.data.map((ws: { id: string; name: string }) => ({
-        id: ws.id,
-        name: ws.name,
-      }));
+      const workspaces: Workspace[] = [
+        { id: DEFAULT_WORKSPACE_ID, name: 'Default Workspace' },
+        ...data.data.map((ws: { id: string; name: string }) => ({
+          id: ws.id,
+          name: ws.name,
+        })),
+      ];
 
       // Handle pagination if there are more workspaces
       let nextPage = data.has_more ? data.last_id : null;
@@ -148,9 +181,15 @@ export class AnthropicProvider implements ILLMProvider {
     }
 
     try {
-      // Fetch API keys filtered by workspace_id
+      // Fetch API keys filtered by workspace_id (keys of the default
+      // workspace have no workspace_id and are filtered below)
+      const isDefaultWorkspace = workspace === DEFAULT_WORKSPACE_ID;
+      const keyParams = new URLSearchParams(isDefaultWorkspace ? {} : { workspace_id: workspace });
+      const isListed = (apiKey: { status: string; workspace_id?: string | null }) =>
+        apiKey.status === 'active' && (!isDefaultWorkspace || !apiKey.workspace_id);
+
       const response = await this.fetchAnthropicAdmin(
-        `/organizations/api_keys?workspace_id=${workspace}`
+        `/organizations/api_keys?${keyParams.toString()}`
       );
 
       const data = await response.json();
@@ -165,7 +204,7 @@ export class AnthropicProvider implements ILLMProvider {
       // Map API keys to our Project type
       // Include partial key hint for identification
       const projects = data.data
-        .filter((apiKey: { status: string }) => apiKey.status === 'active')
+        .filter(isListed)
         .map((apiKey: { id: string; name: string; partial_key_hint?: string }) => ({
           id: apiKey.id,
           name: apiKey.name || `API Key (...${apiKey.partial_key_hint?.slice(-8) || apiKey.id.slice(-8)})`,
@@ -174,14 +213,15 @@ export class AnthropicProvider implements ILLMProvider {
       // Handle pagination if there are more API keys
       let nextPage = data.has_more ? data.last_id : null;
       while (nextPage) {
+        keyParams.set('after_id', nextPage);
         const pageResponse = await this.fetchAnthropicAdmin(
-          `/organizations/api_keys?workspace_id=${workspace}&after_id=${nextPage}`
+          `/organizations/api_keys?${keyParams.toString()}`
         );
         const pageData = await pageResponse.json();
         
         if (pageData.data && Array.isArray(pageData.data)) {
           projects.push(...pageData.data
-            .filter((apiKey: { status: string }) => apiKey.status === 'active')
+            .filter(isListed)
             .map((apiKey: { id: string; name: string; partial_key_hint?: string }) => ({
               id: apiKey.id,
               name: apiKey.name || `API Key (...${apiKey.partial_key_hint?.slice(-8) || apiKey.id.slice(-8)})`,
@@ -205,9 +245,10 @@ export class AnthropicProvider implements ILLMProvider {
   /**
    * Get cost data for a specific API key and date range
    *
-   * NOTE: Anthropic's Admin API may not expose usage data via API yet.
-   * This method will attempt to fetch from the usage endpoint if available,
-   * otherwise it will return zeros with a note.
+   * Usage comes from the Usage Report API (tokens per day, model, workspace
+   * and API key), priced with the catalog. Billed amounts come from the Cost
+   * Report API, which is only broken down by workspace: they are returned for
+   * workspace totals, not for a single API key.
    *
    * @param params - Cost query parameters
    */
@@ -222,164 +263,163 @@ export class AnthropicProvider implements ILLMProvider {
       const scope = projectId ? `API key ${projectId}` : 'all API keys (workspace total)';
       console.log(`[Anthropic] Fetching usage for ${scope} from ${startDate} to ${endDate}`);
 
-      // Build query parameters
-      const queryParams = new URLSearchParams({
-        start_date: startDate,
-        end_date: endDate,
-        workspace_id: workspace,
+      // Reports take RFC 3339 timestamps; ending_at is exclusive, so move it
+      // to the day after endDate to include the last day
+      const startingAt = `${startDate.split('T')[0]}T00:00:00Z`;
+      const endingDate = new Date(`${endDate.split('T')[0]}T00:00:00Z`);
+      endingDate.setUTCDate(endingDate.getUTCDate() + 1);
+      const endingAt = endingDate.toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+      // Results are filtered on our side: the default workspace has no ID
+      // (workspace_id is null) and cannot be passed as a filter
+      const usageParams = new URLSearchParams({
+        starting_at: startingAt,
+        ending_at: endingAt,
+        bucket_width: '1d',
+        limit: '31', // Max number of daily buckets per page
       });
-      
-      // Only add api_key_id if specified (omit for workspace-wide totals)
+      usageParams.append('group_by[]', 'model');
+      usageParams.append('group_by[]', 'workspace_id');
+      usageParams.append('group_by[]', 'api_key_id');
       if (projectId) {
-        queryParams.set('api_key_id', projectId);
+        usageParams.append('api_key_ids[]', projectId);
       }
 
-      // Anthropic pricing per 1M tokens (as of late 2024)
-      const MODEL_PRICING: Record<string, { input: number; output: number }> = {
-        // Claude 3.5 Sonnet
-        'claude-3-5-sonnet-20241022': { input: 3.00, output: 15.00 },
-        'claude-3-5-sonnet-20240620': { input: 3.00, output: 15.00 },
-        'claude-3-5-sonnet': { input: 3.00, output: 15.00 },
-        // Claude 3.5 Haiku
-        'claude-3-5-haiku-20241022': { input: 0.80, output: 4.00 },
-        'claude-3-5-haiku': { input: 0.80, output: 4.00 },
-        // Claude 3 Opus
-        'claude-3-opus-20240229': { input: 15.00, output: 75.00 },
-        'claude-3-opus': { input: 15.00, output: 75.00 },
-        // Claude 3 Sonnet
-        'claude-3-sonnet-20240229': { input: 3.00, output: 15.00 },
-        'claude-3-sonnet': { input: 3.00, output: 15.00 },
-        // Claude 3 Haiku
-        'claude-3-haiku-20240307': { input: 0.25, output: 1.25 },
-        'claude-3-haiku': { input: 0.25, output: 1.25 },
-        // Claude 2.x
-        'claude-2.1': { input: 8.00, output: 24.00 },
-        'claude-2.0': { input: 8.00, output: 24.00 },
-        'claude-instant-1.2': { input: 0.80, output: 2.40 },
-        // Default fallback (Claude 3.5 Sonnet pricing)
-        'default': { input: 3.00, output: 15.00 },
-      };
-
-      // Try multiple possible usage endpoints
-      const usageEndpoints = [
-        `/organizations/usage?${queryParams.toString()}`,
-        `/usage?${queryParams.toString()}`,
-        `/organizations/workspaces/${workspace}/usage?start_date=${startDate}&end_date=${endDate}`,
-      ];
-
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      let usageData: any = null;
-      let usageEndpointFound = false;
-
-      for (const endpoint of usageEndpoints) {
-        try {
-          const response = await this.fetchAnthropicAdmin(endpoint);
-          usageData = await response.json();
-          usageEndpointFound = true;
-          console.log(`[Anthropic] Usage data from ${endpoint}:`, JSON.stringify(usageData, null, 2));
-          break;
-        } catch (error) {
-          const errorMsg = error instanceof Error ? error.message : String(error);
-          if (errorMsg.includes('404') || errorMsg.includes('not found')) {
-            console.log(`[Anthropic] Endpoint ${endpoint} not found, trying next...`);
-            continue;
-          }
-          // For other errors, keep trying but log
-          console.log(`[Anthropic] Error from ${endpoint}:`, errorMsg);
-          continue;
-        }
-      }
-
-      // If no usage endpoint worked, return a helpful message
-      // NOTE: As of December 2024, Anthropic does NOT expose usage/billing data via their API.
-      // The Admin API only provides: workspaces, api_keys, members, invites management.
-      // Usage data must be checked manually in the Anthropic Console: https://console.anthropic.com/settings/billing
-      if (!usageEndpointFound || !usageData) {
-        console.warn('[Anthropic] Usage API not available - Anthropic does NOT expose usage data via API');
-        console.warn('[Anthropic] Check usage manually at: https://console.anthropic.com/settings/billing');
-        return {
-          total_cost_usd: -1, // Use -1 to indicate "not available" (different from 0)
-          last_updated: new Date().toISOString(),
-          breakdown: [{
-            model: '⚠️ Usage API not available',
-            cost_usd: 0,
-            requests: 0,
-          }],
-        };
+      const { buckets: usageBuckets, missing } = await this.fetchReportPages('/organizations/usage_report/messages', usageParams);
+      console.log(`[Anthropic] Usage report: ${usageBuckets.length} bucket(s)`);
+      if (missing) {
+        console.warn(`[Anthropic] Partial usage: ${missing.startDate} to ${missing.endDate} missing`);
       }
 
       const breakdown: ModelCost[] = [];
       let totalCost = 0;
       let totalInputTokens = 0;
       let totalOutputTokens = 0;
-      let totalRequests = 0;
 
-      // Group by model and sum tokens/requests
-      const modelMap = new Map<string, { 
-        inputTokens: number; 
-        outputTokens: number; 
-        requests: number;
+      // Group by model and sum tokens/cost
+      const modelMap = new Map<string, {
+        inputTokens: number;
+        outputTokens: number;
+        cachedInputTokens: number;
+        cost: number;
+        pricingSource: PricingMatch;
       }>();
 
-      // Parse usage data based on expected response structure
-      const usageEntries = usageData.data || usageData.usage || usageData.results || [usageData];
-      
-      if (Array.isArray(usageEntries)) {
-        for (const entry of usageEntries) {
-          const model = entry.model || 'unknown';
-          const inputTokens = entry.input_tokens || entry.prompt_tokens || 0;
-          const outputTokens = entry.output_tokens || entry.completion_tokens || 0;
-          const requests = entry.request_count || entry.num_requests || entry.requests || 1;
+      for (const bucket of usageBuckets) {
+        const bucketDate = bucket.starting_at || startingAt;
+        const results = Array.isArray(bucket.results) ? bucket.results : [];
+
+        for (const result of results) {
+          if (!this.matchesScope(result, workspace, projectId)) {
+            continue;
+          }
+
+          const model = result.model || 'unknown';
+          const uncachedInputTokens = result.uncached_input_tokens || 0;
+          const cacheReadTokens = result.cache_read_input_tokens || 0;
+          const cacheWrite5mTokens = result.cache_creation?.ephemeral_5m_input_tokens || 0;
+          const cacheWrite1hTokens = result.cache_creation?.ephemeral_1h_input_tokens || 0;
+          const outputTokens = result.output_tokens || 0;
+          const inputTokens = uncachedInputTokens + cacheReadTokens + cacheWrite5mTokens + cacheWrite1hTokens;
+
+          // 1h cache writes cost twice the input rate unless the catalog says otherwise
+          const { rates, match } = resolveModelPricing(this.id, model, bucketDate);
+          const cost =
+            costPerMillion(uncachedInputTokens, rates.input) +
+            costPerMillion(cacheReadTokens, rates.cache_read ?? rates.input) +
+            costPerMillion(cacheWrite5mTokens, rates.cache_write ?? rates.input) +
+            costPerMillion(cacheWrite1hTokens, rates.cache_write_1h ?? (rates.input || 0) * 2) +
+            costPerMillion(outputTokens, rates.output);
 
           totalInputTokens += inputTokens;
           totalOutputTokens += outputTokens;
-          totalRequests += requests;
 
           const existing = modelMap.get(model);
           if (existing) {
             existing.inputTokens += inputTokens;
             existing.outputTokens += outputTokens;
-            existing.requests += requests;
+            existing.cachedInputTokens += cacheReadTokens;
+            existing.cost += cost;
           } else {
-            modelMap.set(model, { inputTokens, outputTokens, requests });
+            modelMap.set(model, {
+              inputTokens,
+              outputTokens,
+              cachedInputTokens: cacheReadTokens,
+              cost,
+              pricingSource: match,
+            });
           }
         }
       }
 
-      // Calculate costs for each model using model-specific pricing
-      for (const [model, { inputTokens, outputTokens, requests }] of modelMap.entries()) {
-        // Find the best matching pricing
-        let pricing = MODEL_PRICING[model];
-        if (!pricing) {
-          const modelPrefix = Object.keys(MODEL_PRICING).find(key => 
-            model.startsWith(key) || key.startsWith(model.split('-').slice(0, 3).join('-'))
-          );
-          pricing = modelPrefix ? MODEL_PRICING[modelPrefix] : MODEL_PRICING['default'];
-        }
-
-        const inputCost = (inputTokens / 1_000_000) * pricing.input;
-        const outputCost = (outputTokens / 1_000_000) * pricing.output;
-        const modelCost = inputCost + outputCost;
+      console.log(`[Anthropic] Models found:`, [...modelMap.keys()]);
 
+      for (const [model, { inputTokens, outputTokens, cachedInputTokens, cost, pricingSource }] of modelMap.entries()) {
         breakdown.push({
           model: model === 'unknown' ? 'Unknown Model' : model,
-          cost_usd: modelCost,
-          requests,
+          cost_usd: cost,
+          requests: 0, // The Usage Report API does not count requests
+          input_tokens: inputTokens,
+          output_tokens: outputTokens,
+          cached_input_tokens: cachedInputTokens,
+          pricing_source: pricingSource,
         });
 
-        totalCost += modelCost;
+        totalCost += cost;
       }
 
       // Log the calculated totals
-      console.log(`[Anthropic] Calculated: ${totalInputTokens.toLocaleString()} input tokens, ${totalOutputTokens.toLocaleString()} output tokens, ${totalRequests.toLocaleString()} requests, $${totalCost.toFixed(2)} total cost`);
+      console.log(`[Anthropic] Calculated: ${totalInputTokens.toLocaleString()} input tokens, ${totalOutputTokens.toLocaleString()} output tokens, $${totalCost.toFixed(2)} total cost`);
 
       // Sort breakdown by cost (descending)
       breakdown.sort((a, b) => b.cost_usd - a.cost_usd);
 
+      // Billed amounts only exist per workspace, and are optional: keys
+      // without access to the Cost Report still get the token estimate
+      let billed: { total: number; breakdown: ModelCost[] } | null = null;
+      if (!projectId) {
+        try {
+          const costParams = new URLSearchParams({
+            starting_at: startingAt,
+            ending_at: endingAt,
+            limit: '31',
+          });
+          costParams.append('group_by[]', 'workspace_id');
+          costParams.append('group_by[]', 'description');
+
+          const costs = await this.fetchReportPages('/organizations/cost_report', costParams);
+          if (costs.missing) {
+            // A partial billed total would understate the month
+            throw new Error(`${costs.missing.startDate} to ${costs.missing.endDate} missing`);
+          }
+          billed = this.parseCostBuckets(costs.buckets, workspace);
+          console.log(`[Anthropic] Billed: $${billed.total.toFixed(2)} across ${billed.breakdown.length} line item(s)`);
+        } catch (costsError) {
+          console.error('[Anthropic] Cost report unavailable, using token estimate only:', costsError instanceof Error ? costsError.message : costsError);
+        }
+      }
+
+      if (!billed) {
+        return {
+          total_cost_usd: totalCost,
+          last_updated: new Date().toISOString(),
+          breakdown,
+          missing: missing ? [missing] : undefined,
+          estimated_cost_usd: totalCost,
+        };
+      }
+
+      // The billed total is complete: missing usage only affects the breakdown
+      // and the estimate, which is then not compared with the billed amount
       return {
-        total_cost_usd: totalCost,
+        total_cost_usd: billed.total,
         last_updated: new Date().toISOString(),
         breakdown,
+        breakdown_missing: missing ? [missing] : undefined,
+        billed_cost_usd: billed.total,
+        estimated_cost_usd: totalCost,
+        discrepancy_percent: missing ? undefined : calculateDiscrepancyPercent(billed.total, totalCost),
+        billed_breakdown: billed.breakdown,
       };
     } catch (error) {
       if (error instanceof Error) {
@@ -388,4 +428,122 @@ export class AnthropicProvider implements ILLMProvider {
       throw error;
     }
   }
+
+  /**
+   * Fetch all buckets of a usage or cost report, following `next_page`
+   *
+   * When a page fails after the first one, or the page limit is reached, the
+   * buckets fetched so far are returned with the days left in `missing`
+   * (from the last bucket fetched, which may be incomplete).
+   */
+  private async fetchReportPages(
+    endpoint: string,
+    params: URLSearchParams
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  ): Promise<{ buckets: any[]; missing?: MissingRange }> {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const buckets: any[] = [];
+    let nextPage: string | null = null;
+    let pageCount = 0;
+    const MAX_PAGES = 50; // Safety limit
+
+    do {
+      const pageParams = new URLSearchParams(params);
+      if (nextPage) {
+        pageParams.set('page', nextPage);
+      }
+
+      try {
+        const response = await this.fetchAnthropicAdmin(`${endpoint}?${pageParams.toString()}`);
+        const data = await response.json();
+
+        if (data.data && Array.isArray(data.data)) {
+          buckets.push(...data.data);
+        }
+
+        nextPage = data.has_more ? data.next_page : null;
+        pageCount++;
+      } catch (error) {
+        // Keep the pages already fetched
+        if (pageCount === 0) {
+          throw error;
+        }
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        console.error(`[Anthropic] ${endpoint}: page ${pageCount + 1} failed, keeping ${pageCount} page(s):`, errorMsg);
+        return { buckets, missing: this.getRemainingRange(endpoint, params, buckets, `page ${pageCount + 1}: ${errorMsg}`) };
+      }
+    } while (nextPage && pageCount < MAX_PAGES);
+
+    if (nextPage) {
+      console.warn(`[Anthropic] ${endpoint}: page limit (${MAX_PAGES}) reached, results are truncated`);
+      return { buckets, missing: this.getRemainingRange(endpoint, params, buckets, `page limit (${MAX_PAGES}) reached`) };
+    }
+
+    return { buckets };
+  }
+
+  /**
+   * Days of a report not fetched: from the last bucket fetched (or the start
+   * of the report) to its last day (ending_at is exclusive)
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private getRemainingRange(endpoint: string, params: URLSearchParams, buckets: any[], reason: string): MissingRange {
+    const lastBucket = buckets[buckets.length - 1];
+    const startDate = (lastBucket?.starting_at || params.get('starting_at') || '').split('T')[0];
+    const endingAt = new Date(params.get('ending_at') || '');
+    endingAt.setUTCDate(endingAt.getUTCDate() - 1);
+    return { startDate, endDate: endingAt.toISOString().split('T')[0], source: endpoint, reason };
+  }
+
+  /**
+   * Whether a report result belongs to the requested workspace / API key
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private matchesScope(result: any, workspace: string, apiKeyId?: string): boolean {
+    const resultWorkspace = result.workspace_id || DEFAULT_WORKSPACE_ID;
+    if (resultWorkspace !== workspace) {
+      return false;
+    }
+    return !apiKeyId || result.api_key_id === apiKeyId;
+  }
+
+  /**
+   * Sum Cost Report buckets per line item for one workspace
+   *
+   * Amounts are decimal strings in cents, e.g.:
+   *   { amount: '123.45', currency: 'USD', description: 'Claude Sonnet 4 Usage - Input Tokens', workspace_id: '...' }
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private parseCostBuckets(buckets: any[], workspace: string): { total: number; breakdown: ModelCost[] } {
+    const lineItems = new Map<string, number>();
+
+    for (const bucket of buckets) {
+      const results = Array.isArray(bucket.results) ? bucket.results : [];
+      for (const result of results) {
+        if (!this.matchesScope(result, workspace)) {
+          continue;
+        }
+        const cents = parseFloat(result.amount);
+        if (!Number.isFinite(cents)) {
+          continue;
+        }
+        const lineItem = result.description || result.cost_type || 'Other';
+        lineItems.set(lineItem, (lineItems.get(lineItem) || 0) + cents / 100);
+      }
+    }
+
+    const breakdown: ModelCost[] = Array.from(lineItems.entries())
+      .map(([lineItem, cost]) => ({
+        model: lineItem,
+        cost_usd: cost,
+        requests: 0, // The Cost Report API only reports amounts
+        pricing_source: 'provider' as const,
+      }))
+      .sort((a, b) => b.cost_usd - a.cost_usd);
+
+    return {
+      total: breakdown.reduce((sum, item) => sum + item.cost_usd, 0),
+      breakdown,
+    };
+  }
 }
@@ -0,0 +1,574 @@
+/**
+ * AzureOpenAIProvider - Implementation of ILLMProvider for Azure OpenAI
+ *
+ * Costs are read from Azure Cost Management (amounts actually billed), either
+ * through the Cost Management query API or from an exported cost CSV.
+ *   - Subscriptions (or subscription/resource group pairs) are exposed as workspaces
+ *   - Model deployments of Azure OpenAI accounts are exposed as projects
+ *
+ * Azure meters are per model, not per deployment: an account's cost for a
+ * model is attributed to the deployment(s) of that model in the account.
+ *
+ * Environment variables (API mode, service principal with Cost Management Reader + Reader):
+ *   AZURE_TENANT_ID=xxx
+ *   AZURE_CLIENT_ID=xxx
+ *   AZURE_CLIENT_SECRET=xxx
+ *   AZURE_OPENAI_SCOPES=<subscriptionId>/<resourceGroup>,<subscriptionId>   # optional
+ *
+ * Or (export mode):
+ *   AZURE_COST_EXPORT_PATH=/path/to/cost-export.csv
+ */
+
+import { readFileSync } from 'fs';
+import { ILLMProvider } from './interface';
+import { Workspace, Project, CostParams, CostData, ModelCost, ProviderCapabilities } from '../types';
+import { parseCsv } from '../../utils/csv';
+
+/**
+ * One cost line, normalized from a Cost Management query row or an export row
+ */
+interface AzureCostRow {
+  subscriptionId: string;
+  subscriptionName: string;
+  resourceGroup: string;
+  accountName: string;   // Azure OpenAI (Cognitive Services) account
+  meter: string;
+  quantity: number;
+  costUsd: number;
+  date: string;          // YYYY-MM-DD
+}
+
+interface AzureDeployment {
+  accountName: string;
+  deploymentName: string;
+  model: string;
+}
+
+const MANAGEMENT_URL = 'https://management.azure.com';
+const COST_MANAGEMENT_API_VERSION = '2023-11-01';
+const COGNITIVE_SERVICES_API_VERSION = '2023-05-01';
+const SUBSCRIPTIONS_API_VERSION = '2022-12-01';
+
+export class AzureOpenAIProvider implements ILLMProvider {
+  public readonly id = 'azure-openai';
+  public readonly name = 'Azure OpenAI';
+  public readonly supportsWorkspaces = true; // Subscriptions / resource groups
+  public readonly capabilities: ProviderCapabilities = {
+    reportsCosts: true,
+    dateRange: true,
+    projectCosts: true,
+    dailyGranularity: true,
+    costSource: 'billed',
+    usageUnit: 'tokens',
+    timeSeries: [],
+  };
+
+  private readonly exportPath: string;
+  private accessToken: { token: string; expiresAt: number } | null = null;
+
+  constructor() {
+    this.exportPath = process.env.AZURE_COST_EXPORT_PATH || '';
+
+    const hasCredentials =
+      !!process.env.AZURE_TENANT_ID && !!process.env.AZURE_CLIENT_ID && !!process.env.AZURE_CLIENT_SECRET;
+
+    if (!this.exportPath && !hasCredentials) {
+      throw new Error(
+        'Azure credentials not found. Please set AZURE_TENANT_ID, AZURE_CLIENT_ID and AZURE_CLIENT_SECRET ' +
+        '(Cost Management API) or AZURE_COST_EXPORT_PATH (exported cost CSV) environment variables.'
+      );
+    }
+  }
+
+  /**
+   * Make an authenticated request to Azure Resource Manager
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private async fetchAzure(url: string, options: RequestInit = {}): Promise<any> {
+    const fullUrl = url.startsWith('http') ? url : `${MANAGEMENT_URL}${url}`;
+    console.log(`[Azure OpenAI] Fetching: ${fullUrl}`);
+
+    const response = await fetch(fullUrl, {
+      ...options,
+      headers: {
+        'Authorization': `Bearer ${await this.getAccessToken()}`,
+        'Content-Type': 'application/json',
+        ...options.headers,
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`[Azure OpenAI] API error (${response.status}):`, errorText);
+
+      if (response.status === 403) {
+        throw new Error(
+          `Azure API permission denied (403). The service principal needs the "Cost Management Reader" ` +
+          `and "Reader" roles on the subscription. Error details: ${errorText}`
+        );
+      }
+
+      throw new Error(`Azure API error (${response.status}): ${errorText}`);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Get an access token for Azure Resource Manager (client credentials grant)
+   */
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && this.accessToken.expiresAt > Date.now() + 60_000) {
+      return this.accessToken.token;
+    }
+
+    const tenantId = process.env.AZURE_TENANT_ID;
+    const clientId = process.env.AZURE_CLIENT_ID;
+    const clientSecret = process.env.AZURE_CLIENT_SECRET;
+
+    if (!tenantId || !clientId || !clientSecret) {
+      throw new Error('Azure credentials not found. Please set AZURE_TENANT_ID, AZURE_CLIENT_ID and AZURE_CLIENT_SECRET.');
+    }
+
+    const response = await fetch(`https://login.microsoftonline.com/${tenantId}/oauth2/v2.0/token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'client_credentials',
+        client_id: clientId,
+        client_secret: clientSecret,
+        scope: `${MANAGEMENT_URL}/.default`,
+      }).toString(),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Azure authentication failed (${response.status}): ${errorText}`);
+    }
+
+    const data = await response.json();
+    this.accessToken = {
+      token: data.access_token,
+      expiresAt: Date.now() + (data.expires_in || 3600) * 1000,
+    };
+
+    return this.accessToken.token;
+  }
+
+  /**
+   * Get list of workspaces (subscriptions or subscription/resource group pairs)
+   */
+  async getWorkspaces(): Promise<Workspace[]> {
+    try {
+      if (this.exportPath) {
+        const workspaces = new Map<string, string>();
+        for (const row of this.readExportFile()) {
+          const id = row.resourceGroup ? `${row.subscriptionId}/${row.resourceGroup}` : row.subscriptionId;
+          const name = row.resourceGroup
+            ? `${row.subscriptionName} / ${row.resourceGroup}`
+            : row.subscriptionName;
+          workspaces.set(id, name);
+        }
+        return Array.from(workspaces.entries())
+          .map(([id, name]) => ({ id, name }))
+          .sort((a, b) => a.name.localeCompare(b.name));
+      }
+
+      const scopes = (process.env.AZURE_OPENAI_SCOPES || '')
+        .split(',')
+        .map(scope => scope.trim())
+        .filter(Boolean);
+
+      if (scopes.length > 0) {
+        return scopes.map(scope => {
+          const [subscriptionId, resourceGroup] = scope.split('/');
+          return {
+            id: scope,
+            name: resourceGroup ? `${subscriptionId.slice(0, 8)}… / ${resourceGroup}` : subscriptionId,
+          };
+        });
+      }
+
+      // No explicit scopes: every subscription the service principal can read
+      const data = await this.fetchAzure(`/subscriptions?api-version=${SUBSCRIPTIONS_API_VERSION}`);
+      const subscriptions = Array.isArray(data.value) ? data.value : [];
+
+      const workspaces = subscriptions.map((sub: { subscriptionId: string; displayName?: string }) => ({
+        id: sub.subscriptionId,
+        name: sub.displayName || sub.subscriptionId,
+      }));
+
+      console.log(`[Azure OpenAI] Found ${workspaces.length} subscription(s)`);
+      return workspaces;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to fetch workspaces: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get list of deployments for a workspace (used as "Projects")
+   *
+   * In export mode deployments are unknown: projects are account/model pairs.
+   *
+   * @param workspace - Subscription ID, or "<subscriptionId>/<resourceGroup>"
+   */
+  async getProjects(workspace?: string): Promise<Project[]> {
+    if (!workspace) {
+      throw new Error('Workspace is required for Azure OpenAI provider');
+    }
+
+    try {
+      if (this.exportPath) {
+        const pairs = new Set<string>();
+        for (const row of this.readExportFile()) {
+          if (this.inWorkspace(row, workspace)) {
+            pairs.add(`${row.accountName}/${parseAzureMeter(row.meter).model}`);
+          }
+        }
+        return Array.from(pairs).sort().map(id => {
+          const [accountName, model] = id.split('/');
+          return { id, name: `${model} — ${accountName}` };
+        });
+      }
+
+      const deployments = await this.listDeployments(workspace);
+      return deployments.map(deployment => ({
+        id: `${deployment.accountName}/${deployment.deploymentName}`,
+        name: `${deployment.deploymentName} (${deployment.model}) — ${deployment.accountName}`,
+      }));
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to fetch projects: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get cost data for a workspace, optionally restricted to one deployment
+   *
+   * @param params - Cost query parameters
+   */
+  async getCosts(params: CostParams): Promise<CostData> {
+    const { workspace, projectId, startDate, endDate } = params;
+
+    if (!workspace) {
+      throw new Error('Workspace is required for Azure OpenAI provider');
+    }
+
+    try {
+      const scope = projectId ? `deployment ${projectId}` : 'all deployments (workspace total)';
+      console.log(`[Azure OpenAI] Fetching costs for ${workspace}, ${scope} from ${startDate} to ${endDate}`);
+
+      const start = startDate.split('T')[0];
+      const end = endDate.split('T')[0];
+
+      const rows = this.exportPath
+        ? this.readExportFile().filter(row => this.inWorkspace(row, workspace) && row.date >= start && row.date <= end)
+        : await this.queryCosts(workspace, start, end);
+
+      // Deployments tell which deployment(s) serve a model in an account
+      const deployments = this.exportPath ? [] : await this.listDeployments(workspace);
+      const deploymentsFor = (accountName: string, model: string): string[] =>
+        deployments
+          .filter(d => d.accountName === accountName && normalizeModel(d.model) === model)
+          .map(d => d.deploymentName);
+
+      // Restrict to the selected deployment (or account/model pair in export mode)
+      let filter: { accountName: string; model: string } | null = null;
+      if (projectId) {
+        const [accountName, name] = projectId.split('/');
+        const deployment = deployments.find(d => d.accountName === accountName && d.deploymentName === name);
+        filter = { accountName, model: deployment ? normalizeModel(deployment.model) : name };
+      }
+
+      // Group by account + model
+      const groups = new Map<string, {
+        accountName: string;
+        model: string;
+        inputTokens: number;
+        outputTokens: number;
+        cachedInputTokens: number;
+        cost: number;
+      }>();
+
+      for (const row of rows) {
+        const meter = parseAzureMeter(row.meter);
+        if (filter && (row.accountName !== filter.accountName || meter.model !== filter.model)) {
+          continue;
+        }
+
+        const key = `${row.accountName}|${meter.model}`;
+        let group = groups.get(key);
+        if (!group) {
+          group = { accountName: row.accountName, model: meter.model, inputTokens: 0, outputTokens: 0, cachedInputTokens: 0, cost: 0 };
+          groups.set(key, group);
+        }
+
+        const tokens = row.quantity * meter.tokenMultiplier;
+        if (meter.tokenType === 'input') {
+          group.inputTokens += tokens;
+        } else if (meter.tokenType === 'cached_input') {
+          group.inputTokens += tokens;
+          group.cachedInputTokens += tokens;
+        } else if (meter.tokenType === 'output') {
+          group.outputTokens += tokens;
+        }
+        group.cost += row.costUsd;
+      }
+
+      const breakdown: ModelCost[] = [];
+      let totalCost = 0;
+
+      for (const { accountName, model, inputTokens, outputTokens, cachedInputTokens, cost } of groups.values()) {
+        const deploymentNames = deploymentsFor(accountName, model);
+        const label = deploymentNames.length > 0 ? deploymentNames.join(', ') : accountName;
+
+        breakdown.push({
+          model: `${label} (${model})`,
+          cost_usd: cost,
+          requests: 0, // Cost Management does not count requests
+          input_tokens: inputTokens,
+          output_tokens: outputTokens,
+          cached_input_tokens: cachedInputTokens,
+          pricing_source: 'provider',
+        });
+        totalCost += cost;
+      }
+
+      breakdown.sort((a, b) => b.cost_usd - a.cost_usd);
+
+      console.log(`[Azure OpenAI] ${rows.length} cost row(s), ${breakdown.length} deployment/model pair(s), $${totalCost.toFixed(2)} total cost`);
+
+      return {
+        total_cost_usd: totalCost,
+        last_updated: new Date().toISOString(),
+        breakdown,
+        billed_cost_usd: totalCost,
+      };
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to fetch costs: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  // ==========================================================================
+  // AZURE RESOURCE MANAGER
+  // ==========================================================================
+
+  /**
+   * ARM scope path of a workspace
+   */
+  private scopePath(workspace: string): string {
+    const [subscriptionId, resourceGroup] = workspace.split('/');
+    return resourceGroup
+      ? `/subscriptions/${subscriptionId}/resourceGroups/${resourceGroup}`
+      : `/subscriptions/${subscriptionId}`;
+  }
+
+  /**
+   * List the model deployments of the Azure OpenAI accounts in a workspace
+   */
+  private async listDeployments(workspace: string): Promise<AzureDeployment[]> {
+    const data = await this.fetchAzure(
+      `${this.scopePath(workspace)}/providers/Microsoft.CognitiveServices/accounts?api-version=${COGNITIVE_SERVICES_API_VERSION}`
+    );
+
+    const accounts = (Array.isArray(data.value) ? data.value : [])
+      .filter((account: { kind?: string }) => account.kind === 'OpenAI' || account.kind === 'AIServices');
+
+    const deployments: AzureDeployment[] = [];
+    for (const account of accounts) {
+      const deploymentData = await this.fetchAzure(
+        `${account.id}/deployments?api-version=${COGNITIVE_SERVICES_API_VERSION}`
+      );
+      for (const deployment of Array.isArray(deploymentData.value) ? deploymentData.value : []) {
+        deployments.push({
+          accountName: String(account.name).toLowerCase(),
+          deploymentName: deployment.name,
+          model: deployment.properties?.model?.name || 'unknown',
+        });
+      }
+    }
+
+    console.log(`[Azure OpenAI] Found ${deployments.length} deployment(s) in ${accounts.length} account(s)`);
+    return deployments;
+  }
+
+  /**
+   * Query Cost Management for daily Azure OpenAI costs per resource and meter
+   */
+  private async queryCosts(workspace: string, start: string, end: string): Promise<AzureCostRow[]> {
+    const [subscriptionId, resourceGroup] = workspace.split('/');
+    const body = JSON.stringify({
+      type: 'ActualCost',
+      timeframe: 'Custom',
+      timePeriod: { from: `${start}T00:00:00Z`, to: `${end}T23:59:59Z` },
+      dataset: {
+        granularity: 'Daily',
+        aggregation: {
+          totalCostUSD: { name: 'CostUSD', function: 'Sum' },
+          totalQuantity: { name: 'UsageQuantity', function: 'Sum' },
+        },
+        grouping: [
+          { type: 'Dimension', name: 'ResourceId' },
+          { type: 'Dimension', name: 'ResourceGroupName' },
+          { type: 'Dimension', name: 'MeterSubCategory' },
+          { type: 'Dimension', name: 'Meter' },
+        ],
+        filter: {
+          dimensions: { name: 'ServiceName', operator: 'In', values: ['Cognitive Services', 'Foundry Models'] },
+        },
+      },
+    });
+
+    const rows: AzureCostRow[] = [];
+    let url: string | null =
+      `${this.scopePath(workspace)}/providers/Microsoft.CostManagement/query?api-version=${COST_MANAGEMENT_API_VERSION}`;
+    let pageCount = 0;
+    const MAX_PAGES = 50; // Safety limit
+
+    while (url && pageCount < MAX_PAGES) {
+      const data = await this.fetchAzure(url, { method: 'POST', body });
+      const columns: string[] = (data.properties?.columns || []).map((column: { name: string }) => column.name);
+
+      for (const values of data.properties?.rows || []) {
+        const record: Record<string, string> = {};
+        columns.forEach((name, index) => {
+          record[name] = values[index] === null || values[index] === undefined ? '' : String(values[index]);
+        });
+        const row = this.toCostRow({ ...record, SubscriptionId: subscriptionId, ResourceGroup: record.ResourceGroupName || resourceGroup || '' });
+        if (row) {
+          rows.push(row);
+        }
+      }
+
+      url = data.properties?.nextLink || null;
+      pageCount++;
+    }
+
+    return rows;
+  }
+
+  // ==========================================================================
+  // EXPORT FILE
+  // ==========================================================================
+
+  /**
+   * Read the exported cost CSV (Cost Management exports, actual or amortized cost)
+   */
+  private readExportFile(): AzureCostRow[] {
+    console.log(`[Azure OpenAI] Reading cost export: ${this.exportPath}`);
+    return parseCsv(readFileSync(this.exportPath, 'utf-8'))
+      .map(row => this.toCostRow(row))
+      .filter((row): row is AzureCostRow => row !== null);
+  }
+
+  /**
+   * Normalize a cost row; column names differ between export versions
+   * (e.g. CostInUsd / costInUsd / CostUSD) and the query API
+   *
+   * @returns null for rows that are not Azure OpenAI usage
+   */
+  private toCostRow(row: Record<string, string>): AzureCostRow | null {
+    const pick = (...names: string[]): string => {
+      for (const name of names) {
+        if (row[name] !== undefined && row[name] !== '') {
+          return row[name];
+        }
+      }
+      return '';
+    };
+
+    const meter = pick('Meter', 'MeterName', 'meterName');
+    const subCategory = pick('MeterSubCategory', 'meterSubCategory');
+    if (!/openai/i.test(subCategory) && !/openai/i.test(meter)) {
+      return null;
+    }
+
+    const resourceId = pick('ResourceId', 'resourceId', 'InstanceId', 'instanceId');
+    const subscriptionId = pick('SubscriptionId', 'subscriptionId', 'SubscriptionGuid');
+
+    return {
+      subscriptionId,
+      subscriptionName: pick('SubscriptionName', 'subscriptionName') || subscriptionId,
+      resourceGroup: pick('ResourceGroup', 'ResourceGroupName', 'resourceGroupName', 'resourceGroup').toLowerCase(),
+      accountName: (resourceId.split('/').pop() || 'unknown').toLowerCase(),
+      meter,
+      quantity: parseFloat(pick('UsageQuantity', 'Quantity', 'quantity')) || 0,
+      costUsd: parseFloat(pick('CostUSD', 'CostInUsd', 'costInUsd', 'PreTaxCostUSD', 'Cost', 'CostInBillingCurrency', 'costInBillingCurrency')) || 0,
+      date: normalizeDate(pick('UsageDate', 'Date', 'date', 'usageDate')),
+    };
+  }
+
+  /**
+   * Whether a cost row belongs to a workspace (subscription or subscription/resource group)
+   */
+  private inWorkspace(row: AzureCostRow, workspace: string): boolean {
+    const [subscriptionId, resourceGroup] = workspace.split('/');
+    return row.subscriptionId === subscriptionId && (!resourceGroup || row.resourceGroup === resourceGroup.toLowerCase());
+  }
+}
+
+/**
+ * Normalize Cost Management dates: 20250131, 2025-01-31T00:00:00, 01/31/2025
+ */
+function normalizeDate(value: string): string {
+  if (/^\d{8}$/.test(value)) {
+    return `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`;
+  }
+  const usDate = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  if (usDate) {
+    return `${usDate[3]}-${usDate[1].padStart(2, '0')}-${usDate[2].padStart(2, '0')}`;
+  }
+  return value.split('T')[0];
+}
+
+/**
+ * Normalize a model name for comparison ('GPT-4o' -> 'gpt-4o', 'gpt 35 turbo' -> 'gpt-35-turbo')
+ */
+function normalizeModel(model: string): string {
+  return model.toLowerCase().trim().replace(/[\s_]+/g, '-').replace(/-+/g, '-');
+}
+
+/**
+ * Extract model and token type from an Azure OpenAI meter name,
+ * e.g. "gpt-4o-0806-Inp-glbl 1K Tokens", "gpt 4o mini cached input regional Tokens"
+ */
+export function parseAzureMeter(meter: string): {
+  model: string;
+  tokenType: 'input' | 'output' | 'cached_input' | null;
+  tokenMultiplier: number;
+} {
+  const lower = meter.toLowerCase();
+
+  let tokenType: 'input' | 'output' | 'cached_input' | null = null;
+  if (/\b(cached|cchd|cache)\b/.test(lower)) {
+    tokenType = 'cached_input';
+  } else if (/\b(outp|output|out)\b/.test(lower)) {
+    tokenType = 'output';
+  } else if (/\b(inp|input|in)\b/.test(lower)) {
+    tokenType = 'input';
+  } else if (/\btokens?\b/.test(lower)) {
+    tokenType = 'input'; // Embeddings meters only count input tokens
+  }
+
+  const tokenMultiplier = /\b1m\b/.test(lower) ? 1_000_000 : /\b1k\b/.test(lower) ? 1000 : 1;
+
+  const model = normalizeModel(
+    lower
+      .replace(/\b\d+[km]\s*tokens?\b/g, ' ')
+      .replace(/\btokens?\b/g, ' ')
+      .replace(/\b(cached|cchd|cache|inp|input|in|outp|output|out)\b/g, ' ')
+      .replace(/\b(glbl|global|regional|regnl|rgnl|data\s*zone|dzone|dz|batch|provisioned|ptu)\b/g, ' ')
+  )
+    .replace(/^-+|-+$/g, '')
+    .replace(/(-\d{4})+$/, ''); // Model version, e.g. gpt-4o-0806
+
+  return { model: model || 'unknown', tokenType, tokenMultiplier };
+}
@@ -0,0 +1,624 @@
+/**
+ * BedrockProvider - Implementation of ILLMProvider for AWS Bedrock
+ *
+ * AWS has no Bedrock usage API: costs are read from Cost and Usage Report
+ * (CUR / CUR 2.0 Data Exports) files, in Parquet or CSV (optionally gzipped),
+ * stored in a local directory or an S3(-compatible) bucket.
+ *   - AWS accounts (usage account IDs) are exposed as workspaces
+ *   - Model IDs are exposed as projects
+ *
+ * Environment variables:
+ *   BEDROCK_CUR_PATH=/path/to/cur              # local directory (scanned recursively)
+ * Or:
+ *   BEDROCK_CUR_S3_URI=s3://bucket/prefix
+ *   BEDROCK_CUR_S3_ENDPOINT=https://...        # optional, S3-compatible storage
+ *   AWS_REGION=us-east-1
+ *   AWS_ACCESS_KEY_ID=xxx
+ *   AWS_SECRET_ACCESS_KEY=xxx
+ *   AWS_SESSION_TOKEN=xxx                      # optional
+ */
+
+import { createHash, createHmac } from 'crypto';
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { gunzipSync } from 'zlib';
+import { parquetMetadata, parquetReadObjects } from 'hyparquet';
+import { ILLMProvider } from './interface';
+import { Workspace, Project, CostParams, CostData, ModelCost, ProviderCapabilities } from '../types';
+import { parseCsv } from '../../utils/csv';
+
+/**
+ * One Bedrock line item, normalized from a CUR row
+ */
+interface BedrockLineItem {
+  accountId: string;
+  accountName: string;
+  model: string;
+  kind: 'input' | 'output' | 'cache_read' | 'cache_write' | 'provisioned' | 'other';
+  amount: number;          // Tokens for token line items, model unit-hours for provisioned throughput
+  costUsd: number;
+  date: string;            // YYYY-MM-DD
+}
+
+/**
+ * CUR columns read by the provider, in snake_case (CUR 2.0 / Parquet naming).
+ * Legacy CSV headers (e.g. lineItem/UsageAccountId) are mapped to these names.
+ */
+const CUR_COLUMNS = [
+  'line_item_usage_account_id',
+  'line_item_usage_account_name',
+  'line_item_product_code',
+  'line_item_line_item_type',
+  'line_item_usage_type',
+  'line_item_operation',
+  'line_item_resource_id',
+  'line_item_usage_amount',
+  'line_item_unblended_cost',
+  'line_item_usage_start_date',
+  'product_product_name',
+  'product_servicecode',
+  'product_model_id',
+  'pricing_unit',
+];
+
+const CUR_FILE_PATTERN = /\.(parquet|csv|csv\.gz)$/i;
+
+export class BedrockProvider implements ILLMProvider {
+  public readonly id = 'bedrock';
+  public readonly name = 'AWS Bedrock';
+  public readonly supportsWorkspaces = true; // AWS accounts
+  public readonly capabilities: ProviderCapabilities = {
+    reportsCosts: true,
+    dateRange: true,
+    projectCosts: true,
+    dailyGranularity: true,
+    costSource: 'billed',
+    usageUnit: 'tokens',
+    timeSeries: [],
+  };
+
+  private readonly localPath: string;
+  private readonly s3Location: { bucket: string; prefix: string } | null = null;
+
+  constructor() {
+    this.localPath = process.env.BEDROCK_CUR_PATH || '';
+
+    const s3Uri = process.env.BEDROCK_CUR_S3_URI || '';
+    const s3Match = s3Uri.match(/^s3:\/\/([^/]+)\/?(.*)$/);
+    if (s3Match) {
+      this.s3Location = { bucket: s3Match[1], prefix: s3Match[2] };
+    } else if (s3Uri) {
+      throw new Error(`Invalid BEDROCK_CUR_S3_URI "${s3Uri}". Expected format: s3://bucket/prefix`);
+    }
+
+    if (!this.localPath && !this.s3Location) {
+      throw new Error(
+        'Bedrock CUR location not found. Please set BEDROCK_CUR_PATH (local directory) ' +
+        'or BEDROCK_CUR_S3_URI (with AWS_ACCESS_KEY_ID / AWS_SECRET_ACCESS_KEY) environment variable.'
+      );
+    }
+
+    if (this.s3Location && (!process.env.AWS_ACCESS_KEY_ID || !process.env.AWS_SECRET_ACCESS_KEY)) {
+      throw new Error('AWS credentials not found. Please set AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY environment variables.');
+    }
+  }
+
+  /**
+   * Get list of workspaces (AWS accounts with Bedrock usage in the last two billing periods)
+   */
+  async getWorkspaces(): Promise<Workspace[]> {
+    try {
+      const now = new Date();
+      const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1)).toISOString().split('T')[0];
+      const end = now.toISOString().split('T')[0];
+
+      const accounts = new Map<string, string>();
+      for (const item of await this.readLineItems(start, end)) {
+        accounts.set(item.accountId, item.accountName);
+      }
+
+      const workspaces = Array.from(accounts.entries())
+        .map(([id, name]) => ({ id, name }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+      console.log(`[Bedrock] Found ${workspaces.length} account(s)`);
+      return workspaces;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to fetch workspaces: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get list of model IDs used by an account (used as "Projects")
+   *
+   * @param workspace - AWS account ID
+   */
+  async getProjects(workspace?: string): Promise<Project[]> {
+    if (!workspace) {
+      throw new Error('Workspace is required for Bedrock provider');
+    }
+
+    try {
+      const now = new Date();
+      const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1)).toISOString().split('T')[0];
+      const end = now.toISOString().split('T')[0];
+
+      const models = new Set<string>();
+      for (const item of await this.readLineItems(start, end)) {
+        if (item.accountId === workspace) {
+          models.add(item.model);
+        }
+      }
+
+      return Array.from(models).sort().map(model => ({ id: model, name: model }));
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to fetch projects: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get cost data for an account, optionally restricted to one model ID
+   *
+   * @param params - Cost query parameters
+   */
+  async getCosts(params: CostParams): Promise<CostData> {
+    const { workspace, projectId, startDate, endDate } = params;
+
+    if (!workspace) {
+      throw new Error('Workspace is required for Bedrock provider');
+    }
+
+    try {
+      console.log(`[Bedrock] Fetching costs for account ${workspace}${projectId ? `, model ${projectId}` : ''} from ${startDate} to ${endDate}`);
+
+      const items = (await this.readLineItems(startDate.split('T')[0], endDate.split('T')[0]))
+        .filter(item => item.accountId === workspace && (!projectId || item.model === projectId));
+
+      // Group on-demand usage by model, provisioned throughput separately
+      const groups = new Map<string, {
+        model: string;
+        provisioned: boolean;
+        inputTokens: number;
+        outputTokens: number;
+        cachedInputTokens: number;
+        modelUnitHours: number;
+        cost: number;
+      }>();
+
+      for (const item of items) {
+        const provisioned = item.kind === 'provisioned';
+        const key = `${item.model}|${provisioned}`;
+        let group = groups.get(key);
+        if (!group) {
+          group = { model: item.model, provisioned, inputTokens: 0, outputTokens: 0, cachedInputTokens: 0, modelUnitHours: 0, cost: 0 };
+          groups.set(key, group);
+        }
+
+        switch (item.kind) {
+          case 'input':
+          case 'cache_write':
+            group.inputTokens += item.amount;
+            break;
+          case 'cache_read':
+            group.inputTokens += item.amount;
+            group.cachedInputTokens += item.amount;
+            break;
+          case 'output':
+            group.outputTokens += item.amount;
+            break;
+          case 'provisioned':
+            group.modelUnitHours += item.amount;
+            break;
+        }
+        group.cost += item.costUsd;
+      }
+
+      const breakdown: ModelCost[] = [];
+      let totalCost = 0;
+
+      for (const group of groups.values()) {
+        breakdown.push(group.provisioned
+          ? {
+            model: `${group.model} (Provisioned Throughput)`,
+            cost_usd: group.cost,
+            requests: 0,
+            units: group.modelUnitHours,
+            unit_type: 'model_unit_hours',
+            pricing_source: 'provider',
+          }
+          : {
+            model: group.model,
+            cost_usd: group.cost,
+            requests: 0, // CUR does not count requests
+            input_tokens: group.inputTokens,
+            output_tokens: group.outputTokens,
+            cached_input_tokens: group.cachedInputTokens,
+            pricing_source: 'provider',
+          });
+        totalCost += group.cost;
+      }
+
+      breakdown.sort((a, b) => b.cost_usd - a.cost_usd);
+
+      console.log(`[Bedrock] ${items.length} line item(s), ${breakdown.length} model(s), $${totalCost.toFixed(2)} total cost`);
+
+      return {
+        total_cost_usd: totalCost,
+        last_updated: new Date().toISOString(),
+        breakdown,
+        billed_cost_usd: totalCost,
+      };
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to fetch costs: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  // ==========================================================================
+  // CUR FILES
+  // ==========================================================================
+
+  /**
+   * Read the Bedrock line items of the CUR files covering a date range
+   */
+  private async readLineItems(start: string, end: string): Promise<BedrockLineItem[]> {
+    const months = listBillingPeriods(start, end);
+    const items: BedrockLineItem[] = [];
+
+    const files = this.s3Location ? await this.listS3Files(months) : this.listLocalFiles(months);
+    console.log(`[Bedrock] Reading ${files.length} CUR file(s)`);
+
+    for (const file of files) {
+      const content = this.s3Location ? await this.getS3Object(file) : readFileSync(join(this.localPath, file));
+      for (const row of await parseCurFile(file, content)) {
+        const item = toLineItem(row);
+        if (item && item.date >= start && item.date <= end) {
+          items.push(item);
+        }
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * CUR files of the local directory for the given billing periods (paths relative to BEDROCK_CUR_PATH)
+   */
+  private listLocalFiles(months: string[]): string[] {
+    return readdirSync(this.localPath, { recursive: true, encoding: 'utf-8' })
+      .filter(file => CUR_FILE_PATTERN.test(file) && matchesBillingPeriod(file, months))
+      .sort();
+  }
+
+  /**
+   * CUR files of the S3 prefix for the given billing periods
+   *
+   * Legacy CUR keeps every report version under the billing period folder:
+   * when a period has a manifest, only the files it lists are read.
+   */
+  private async listS3Files(months: string[]): Promise<string[]> {
+    const keys = (await this.listS3Keys()).filter(key => matchesBillingPeriod(key, months));
+
+    const manifests = keys.filter(key => /\/\d{8}-\d{8}\/[^/]+-Manifest\.json$/.test(key));
+    const files = new Set<string>();
+
+    for (const manifest of manifests) {
+      const data = JSON.parse((await this.getS3Object(manifest)).toString('utf-8'));
+      for (const key of Array.isArray(data.reportKeys) ? data.reportKeys : []) {
+        files.add(key);
+      }
+    }
+
+    const periodsWithManifest = manifests.map(key => key.slice(0, key.lastIndexOf('/') + 1));
+    for (const key of keys) {
+      if (CUR_FILE_PATTERN.test(key) && !periodsWithManifest.some(period => key.startsWith(period))) {
+        files.add(key);
+      }
+    }
+
+    return Array.from(files).sort();
+  }
+
+  // ==========================================================================
+  // S3 (SIGNATURE V4)
+  // ==========================================================================
+
+  /**
+   * List all object keys under the configured prefix (ListObjectsV2)
+   */
+  private async listS3Keys(): Promise<string[]> {
+    const { prefix } = this.s3Location!;
+    const keys: string[] = [];
+    let continuationToken: string | null = null;
+    let pageCount = 0;
+    const MAX_PAGES = 100; // Safety limit
+
+    do {
+      const query: Record<string, string> = { 'list-type': '2', prefix };
+      if (continuationToken) {
+        query['continuation-token'] = continuationToken;
+      }
+
+      const xml = (await this.fetchS3('', query)).toString('utf-8');
+      for (const match of xml.matchAll(/<Key>([^<]*)<\/Key>/g)) {
+        keys.push(decodeXml(match[1]));
+      }
+
+      const next = xml.match(/<NextContinuationToken>([^<]*)<\/NextContinuationToken>/);
+      continuationToken = /<IsTruncated>true<\/IsTruncated>/.test(xml) && next ? decodeXml(next[1]) : null;
+      pageCount++;
+    } while (continuationToken && pageCount < MAX_PAGES);
+
+    return keys;
+  }
+
+  /**
+   * Download an object
+   */
+  private async getS3Object(key: string): Promise<Buffer> {
+    return this.fetchS3(key, {});
+  }
+
+  /**
+   * Make a SigV4-signed GET request to the bucket (path-style URLs, so that
+   * S3-compatible endpoints work the same way)
+   */
+  private async fetchS3(key: string, query: Record<string, string>): Promise<Buffer> {
+    const { bucket } = this.s3Location!;
+    const region = process.env.AWS_REGION || process.env.AWS_DEFAULT_REGION || 'us-east-1';
+    const endpoint = (process.env.BEDROCK_CUR_S3_ENDPOINT || `https://s3.${region}.amazonaws.com`).replace(/\/$/, '');
+
+    const path = `/${bucket}${key ? `/${key}` : ''}`;
+    const canonicalUri = path.split('/').map(encodeRfc3986).join('/');
+    const canonicalQuery = Object.keys(query)
+      .sort()
+      .map(name => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`)
+      .join('&');
+    const url = `${endpoint}${canonicalUri}${canonicalQuery ? `?${canonicalQuery}` : ''}`;
+
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const headers: Record<string, string> = {
+      'x-amz-content-sha256': 'UNSIGNED-PAYLOAD',
+      'x-amz-date': amzDate,
+    };
+    if (process.env.AWS_SESSION_TOKEN) {
+      headers['x-amz-security-token'] = process.env.AWS_SESSION_TOKEN;
+    }
+
+    // `host` is signed but sent by fetch itself from the URL
+    const signed: Record<string, string> = { host: new URL(endpoint).host, ...headers };
+    const signedHeaders = Object.keys(signed).sort().join(';');
+    const canonicalRequest = [
+      'GET',
+      canonicalUri,
+      canonicalQuery,
+      Object.keys(signed).sort().map(name => `${name}:${signed[name]}\n`).join(''),
+      signedHeaders,
+      'UNSIGNED-PAYLOAD',
+    ].join('\n');
+
+    const scope = `${dateStamp}/${region}/s3/aws4_request`;
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      amzDate,
+      scope,
+      createHash('sha256').update(canonicalRequest).digest('hex'),
+    ].join('\n');
+
+    const signingKey = [dateStamp, region, 's3', 'aws4_request'].reduce<Buffer>(
+      (key, part) => createHmac('sha256', key).update(part).digest(),
+      Buffer.from(`AWS4${process.env.AWS_SECRET_ACCESS_KEY}`)
+    );
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    console.log(`[Bedrock] Fetching: ${url}`);
+
+    const response = await fetch(url, {
+      headers: {
+        ...headers,
+        'Authorization': `AWS4-HMAC-SHA256 Credential=${process.env.AWS_ACCESS_KEY_ID}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`[Bedrock] S3 error (${response.status}):`, errorText);
+      throw new Error(`S3 error (${response.status}): ${errorText}`);
+    }
+
+    return Buffer.from(await response.arrayBuffer());
+  }
+}
+
+/**
+ * Billing periods (YYYY-MM) covered by a date range
+ */
+function listBillingPeriods(start: string, end: string): string[] {
+  const periods: string[] = [];
+  let [year, month] = start.split('-').map(Number);
+  const [endYear, endMonth] = end.split('-').map(Number);
+
+  while (year < endYear || (year === endYear && month <= endMonth)) {
+    periods.push(`${year}-${String(month).padStart(2, '0')}`);
+    month++;
+    if (month > 12) {
+      month = 1;
+      year++;
+    }
+  }
+
+  return periods;
+}
+
+/**
+ * Whether a CUR file path belongs to one of the billing periods, using the
+ * folder layout of CUR 2.0 (BILLING_PERIOD=2025-01) or legacy CUR (20250101-20250201).
+ * Paths without a billing period folder always match (the dates of their rows are filtered).
+ */
+function matchesBillingPeriod(path: string, periods: string[]): boolean {
+  const cur2 = path.match(/BILLING_PERIOD=(\d{4}-\d{2})/);
+  if (cur2) {
+    return periods.includes(cur2[1]);
+  }
+
+  const legacy = path.match(/(?:^|[/\\])(\d{4})(\d{2})01-\d{8}(?:[/\\]|$)/);
+  if (legacy) {
+    return periods.includes(`${legacy[1]}-${legacy[2]}`);
+  }
+
+  return true;
+}
+
+/**
+ * Parse a CUR file (Parquet, CSV or gzipped CSV) into rows keyed by snake_case column name
+ */
+async function parseCurFile(name: string, content: Buffer): Promise<Record<string, unknown>[]> {
+  if (/\.parquet$/i.test(name)) {
+    const file = content.buffer.slice(content.byteOffset, content.byteOffset + content.byteLength) as ArrayBuffer;
+
+    // Only read the columns we need: CUR files have hundreds of them
+    const available = new Set(parquetMetadata(file).schema.map(element => element.name));
+    const columns = CUR_COLUMNS.filter(column => available.has(column));
+
+    return parquetReadObjects({
+      file,
+      columns,
+      compressors: { GZIP: (input: Uint8Array) => new Uint8Array(gunzipSync(input)) },
+    });
+  }
+
+  const text = (/\.gz$/i.test(name) ? gunzipSync(content) : content).toString('utf-8');
+  return parseCsv(text).map(row => {
+    const normalized: Record<string, unknown> = {};
+    for (const [header, value] of Object.entries(row)) {
+      normalized[toSnakeCase(header)] = value;
+    }
+    return normalized;
+  });
+}
+
+/**
+ * Legacy CUR header to CUR 2.0 column name ('lineItem/UsageAccountId' -> 'line_item_usage_account_id')
+ */
+function toSnakeCase(header: string): string {
+  return header
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/\//g, '_')
+    .toLowerCase();
+}
+
+/**
+ * Normalize a CUR row into a Bedrock line item
+ *
+ * @returns null for rows that are not Bedrock charges
+ */
+function toLineItem(row: Record<string, unknown>): BedrockLineItem | null {
+  const value = (column: string): string => {
+    const raw = row[column];
+    if (raw === null || raw === undefined) {
+      return '';
+    }
+    return raw instanceof Date ? raw.toISOString() : String(raw);
+  };
+
+  // Bedrock itself, or Marketplace models sold "(Amazon Bedrock Edition)"
+  const productCode = value('line_item_product_code');
+  const productName = value('product_product_name');
+  if (productCode !== 'AmazonBedrock' && value('product_servicecode') !== 'AmazonBedrock' && !/bedrock/i.test(productName)) {
+    return null;
+  }
+
+  const usageType = value('line_item_usage_type');
+  const resourceId = value('line_item_resource_id');
+  const lineItemType = value('line_item_line_item_type');
+
+  let kind: BedrockLineItem['kind'] = 'other';
+  if (/provisioned/i.test(usageType) || /provisioned/i.test(value('line_item_operation')) || /:provisioned-model\//.test(resourceId)) {
+    kind = 'provisioned';
+  } else if (/cache[-_]?read/i.test(usageType)) {
+    kind = 'cache_read';
+  } else if (/cache[-_]?write/i.test(usageType)) {
+    kind = 'cache_write';
+  } else if (/input[-_]?token/i.test(usageType)) {
+    kind = 'input';
+  } else if (/output[-_]?token/i.test(usageType)) {
+    kind = 'output';
+  }
+
+  // Token amounts may be priced per 1K / 1M tokens
+  const pricingUnit = value('pricing_unit');
+  const multiplier = kind === 'other' || kind === 'provisioned'
+    ? 1
+    : /\b1M\b/i.test(pricingUnit) ? 1_000_000 : /\b1K\b/i.test(pricingUnit) ? 1000 : 1;
+
+  const accountId = value('line_item_usage_account_id');
+
+  return {
+    accountId,
+    accountName: value('line_item_usage_account_name') || accountId,
+    model: lineItemType === 'Tax'
+      ? 'Tax'
+      : resolveBedrockModel(value('product_model_id'), resourceId, productName, usageType),
+    kind,
+    amount: (parseFloat(value('line_item_usage_amount')) || 0) * multiplier,
+    costUsd: parseFloat(value('line_item_unblended_cost')) || 0,
+    date: value('line_item_usage_start_date').split('T')[0].split(' ')[0],
+  };
+}
+
+/**
+ * Best available model identifier of a line item: the product model ID,
+ * the model in the resource ARN, the Marketplace product name, or the usage type
+ */
+function resolveBedrockModel(modelId: string, resourceId: string, productName: string, usageType: string): string {
+  if (modelId) {
+    return modelId;
+  }
+
+  const arn = resourceId.match(/:(?:foundation-model|inference-profile|custom-model|imported-model)\/(.+)$/);
+  if (arn) {
+    // Cross-region inference profiles prefix the model ID with a geography (us., eu., apac., global.)
+    return arn[1].replace(/^(us|eu|apac|global)\./, '');
+  }
+
+  const marketplace = productName.match(/^(.+?)\s*\(Amazon Bedrock Edition\)/i);
+  if (marketplace) {
+    return marketplace[1];
+  }
+
+  const model = usageType
+    .replace(/^[A-Z]{2,4}\d?-/, '') // Region prefix, e.g. USE1-
+    .replace(/-?(ProvisionedThroughput|Provisioned|ModelUnits?|Hours?)\b-?/gi, '-')
+    .replace(/-?(input|output|cache[-_]?read|cache[-_]?write)[-_]?tokens?.*$/i, '')
+    .replace(/^-+|-+$/g, '');
+
+  return model || 'unknown';
+}
+
+/**
+ * Percent-encode per RFC 3986 (as required by SigV4)
+ */
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * Decode the XML entities used in S3 listings
+ */
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
@@ -6,12 +6,32 @@
  */
 
 import { ILLMProvider } from './interface';
-import { Workspace, Project, CostParams, CostData, ModelCost } from '../types';
+import {
+  Workspace,
+  Project,
+  CostParams,
+  CostData,
+  CostTimeSeries,
+  ModelCost,
+  ProviderCapabilities,
+  TimeSeriesGranularity,
+} from '../types';
+import { resolveModelPricing } from '../pricing';
+import { buildCostTimeSeries, DatedCost } from '../timeseries';
 
 export class DeepgramProvider implements ILLMProvider {
   public readonly id = 'deepgram';
   public readonly name = 'Deepgram';
   public readonly supportsWorkspaces = true; // Deepgram has projects
+  public readonly capabilities: ProviderCapabilities = {
+    reportsCosts: true,
+    dateRange: true,
+    projectCosts: false, // Usage is per Deepgram project (workspace), not per API key
+    dailyGranularity: true,
+    costSource: 'estimated',
+    usageUnit: 'audio_hours',
+    timeSeries: ['day'],
+  };
 
   private readonly apiKey: string;
   private readonly BASE_URL = 'https://api.deepgram.com/v1';
@@ -121,15 +141,9 @@ export class DeepgramProvider implements ILLMProvider {
 
     console.log(`[Deepgram] Fetching usage for project ${workspace} from ${startDate} to ${endDate}`);
 
-    // Deepgram pricing per hour (approximate, varies by model and plan)
-    const MODEL_PRICING_PER_HOUR: Record<string, number> = {
-      'nova-2': 0.0043 * 60,      // $0.0043/min = $0.258/hour
-      'nova': 0.0043 * 60,
-      'enhanced': 0.0145 * 60,    // $0.0145/min = $0.87/hour
-      'base': 0.0125 * 60,        // $0.0125/min = $0.75/hour
-      'whisper': 0.0048 * 60,     // $0.0048/min = $0.288/hour
-      'default': 0.0043 * 60,     // Default to Nova pricing
-    };
+    // Deepgram does not report the model used: price with the catalog default (Nova-2)
+    const { rates, match } = resolveModelPricing(this.id, 'default', startDate);
+    const pricePerHour = rates.per_hour || 0;
 
     try {
       // Get usage data for the project
@@ -172,31 +186,34 @@ export class DeepgramProvider implements ILLMProvider {
           totalRequests += requests;
         }
 
-        // Calculate cost based on Nova-2 pricing (most common)
-        const pricePerHour = MODEL_PRICING_PER_HOUR['default'];
         totalCost = totalHours * pricePerHour;
 
         if (totalHours > 0 || totalRequests > 0) {
           breakdown.push({
-            model: `Speech-to-Text (${this.formatDuration(totalHours)})`,
+            model: 'Speech-to-Text',
             cost_usd: totalCost,
             requests: totalRequests,
+            units: totalHours,
+            unit_type: 'audio_hours',
+            pricing_source: match,
           });
         }
       } else if (usageData.hours !== undefined || usageData.duration !== undefined) {
         // Simple format with total hours
         const hours = usageData.hours || usageData.duration || 0;
         const requests = usageData.requests || usageData.count || 0;
-        const pricePerHour = MODEL_PRICING_PER_HOUR['default'];
         const cost = hours * pricePerHour;
 
         totalCost = cost;
         totalHours = hours;
 
         breakdown.push({
-          model: `Speech-to-Text (${this.formatDuration(hours)})`,
+          model: 'Speech-to-Text',
           cost_usd: cost,
           requests: requests,
+          units: hours,
+          unit_type: 'audio_hours',
+          pricing_source: match,
         });
       }
 
@@ -245,15 +262,52 @@ export class DeepgramProvider implements ILLMProvider {
     }
   }
 
-  private formatDuration(hours: number): string {
-    if (hours < 1/60) {
-      const seconds = Math.round(hours * 3600);
-      return `${seconds}s`;
-    } else if (hours < 1) {
-      const minutes = Math.round(hours * 60);
-      return `${minutes}min`;
-    } else {
-      return `${hours.toFixed(2)}h`;
+  /**
+   * Get estimated costs per day from the daily usage results
+   *
+   * @param params - Cost query parameters
+   * @param granularity - Only 'day' is supported (Deepgram usage is daily)
+   */
+  async getCostTimeSeries(params: CostParams, granularity: TimeSeriesGranularity): Promise<CostTimeSeries> {
+    const { workspace, startDate, endDate } = params;
+
+    if (!workspace) {
+      throw new Error('Workspace (project) is required for Deepgram provider');
+    }
+    if (granularity !== 'day') {
+      throw new Error(`Deepgram usage is only available per day, not per ${granularity}`);
+    }
+
+    const { rates } = resolveModelPricing(this.id, 'default', startDate);
+    const pricePerHour = rates.per_hour || 0;
+
+    try {
+      const startFormatted = startDate.split('T')[0];
+      const endFormatted = endDate.split('T')[0];
+      const usageResponse = await this.fetchDeepgram(
+        `/projects/${workspace}/usage?start=${startFormatted}&end=${endFormatted}`
+      );
+      const usageData = await usageResponse.json();
+
+      const costs: DatedCost[] = [];
+      if (usageData.results && Array.isArray(usageData.results)) {
+        for (const result of usageData.results) {
+          const hours = result.hours || result.total_hours || 0;
+          costs.push({
+            timestamp: result.start || startFormatted,
+            model: 'Speech-to-Text',
+            cost_usd: hours * pricePerHour,
+          });
+        }
+      }
+
+      return buildCostTimeSeries(costs, 'day', startDate, endDate, 'estimated');
+    } catch (error) {
+      console.error('[Deepgram] Error fetching usage series:', error);
+      if (error instanceof Error) {
+        throw new Error(`Failed to fetch Deepgram usage: ${error.message}`);
+      }
+      throw error;
     }
   }
 }
@@ -6,12 +6,22 @@
  */
 
 import { ILLMProvider } from './interface';
-import { Workspace, Project, CostParams, CostData, ModelCost } from '../types';
+import { Workspace, Project, CostParams, CostData, ModelCost, ProviderCapabilities } from '../types';
+import { resolveModelPricing } from '../pricing';
 
 export class ElevenLabsProvider implements ILLMProvider {
   public readonly id = 'elevenlabs';
   public readonly name = 'ElevenLabs';
   public readonly supportsWorkspaces = false; // Single account model
+  public readonly capabilities: ProviderCapabilities = {
+    reportsCosts: true,
+    dateRange: true,
+    projectCosts: false,
+    dailyGranularity: false, // Falls back to the current billing cycle when character stats are unavailable
+    costSource: 'estimated',
+    usageUnit: 'characters',
+    timeSeries: [],
+  };
 
   private readonly apiKey: string;
   private readonly BASE_URL = 'https://api.elevenlabs.io/v1';
@@ -100,21 +110,9 @@ export class ElevenLabsProvider implements ILLMProvider {
       const characterLimit = subscriptionData.character_limit || userData.subscription?.character_limit || 0;
       const tier = subscriptionData.tier || userData.subscription?.tier || 'unknown';
 
-      // ElevenLabs pricing per 1000 characters (approximate, varies by plan)
-      // These are rough estimates based on public pricing
-      const PRICING_PER_1000_CHARS: Record<string, number> = {
-        'free': 0,           // Free tier
-        'starter': 0.30,     // ~$5/mo for ~17k chars
-        'creator': 0.24,     // ~$22/mo for ~100k chars  
-        'pro': 0.18,         // ~$99/mo for ~500k chars
-        'scale': 0.11,       // ~$330/mo for ~2M chars
-        'business': 0.08,    // Custom pricing
-        'enterprise': 0.05,  // Custom pricing
-        'growing_business': 0.11,
-        'default': 0.20,
-      };
-
-      const pricePerChar = (PRICING_PER_1000_CHARS[tier.toLowerCase()] || PRICING_PER_1000_CHARS['default']) / 1000;
+      // ElevenLabs pricing per 1000 characters depends on the subscription tier
+      const { rates, match } = resolveModelPricing(this.id, tier, startDate);
+      const pricePerChar = (rates.per_1000_chars || 0) / 1000;
       const estimatedCost = characterCount * pricePerChar;
 
       // Calculate usage percentage
@@ -124,7 +122,10 @@ export class ElevenLabsProvider implements ILLMProvider {
         {
           model: `Characters Used (${tier})`,
           cost_usd: estimatedCost,
-          requests: characterCount,
+          requests: 0, // ElevenLabs does not report request counts
+          units: characterCount,
+          unit_type: 'characters',
+          pricing_source: match,
         },
       ];
 
@@ -165,7 +166,10 @@ export class ElevenLabsProvider implements ILLMProvider {
               {
                 model: `Characters (${startDate} to ${endDate})`,
                 cost_usd: periodCost,
-                requests: periodCharacters,
+                requests: 0,
+                units: periodCharacters,
+                unit_type: 'characters',
+                pricing_source: match,
               },
               {
                 model: `Monthly Quota: ${characterCount.toLocaleString()} / ${characterLimit.toLocaleString()} (${usagePercent}%)`,
@@ -7,23 +7,11 @@
  */
 
 import { ILLMProvider } from './interface';
-import { OpenAIProvider } from './openai';
-import { AnthropicProvider } from './anthropic';
-import { ElevenLabsProvider } from './elevenlabs';
-import { DeepgramProvider } from './deepgram';
-import { OpenRouterProvider } from './openrouter';
+import { getProviderFactory, listProviderIds } from './registry';
+import './plugins';
 import { ProviderInfo } from '../types';
 
-// Registry of available providers
-const providerRegistry = new Map<string, () => ILLMProvider>([
-  ['openai', () => new OpenAIProvider()],
-  ['anthropic', () => new AnthropicProvider()],
-  ['elevenlabs', () => new ElevenLabsProvider()],
-  ['deepgram', () => new DeepgramProvider()],
-  ['openrouter', () => new OpenRouterProvider()],
-  // Future providers can be added here:
-  // ['mistral', () => new MistralProvider()],
-]);
+export { registerProvider } from './registry';
 
 /**
  * Get a provider instance by ID
@@ -33,13 +21,11 @@ const providerRegistry = new Map<string, () => ILLMProvider>([
  * @throws Error if provider is not found
  */
 export function getProvider(providerId: string): ILLMProvider {
-  const factory = providerRegistry.get(providerId);
+  const factory = getProviderFactory(providerId);
 
   if (!factory) {
     throw new Error(
-      `Provider '${providerId}' not found. Available providers: ${Array.from(
-        providerRegistry.keys()
-      ).join(', ')}`
+      `Provider '${providerId}' not found. Available providers: ${listProviderIds().join(', ')}`
     );
   }
 
@@ -49,18 +35,19 @@ export function getProvider(providerId: string): ILLMProvider {
 /**
  * Get list of all available providers
  *
- * @returns Array of provider information (id, name, supportsWorkspaces)
+ * @returns Array of provider information (id, name, supportsWorkspaces, capabilities)
  */
 export function getAvailableProviders(): ProviderInfo[] {
   const providers: ProviderInfo[] = [];
 
-  for (const [id, factory] of providerRegistry.entries()) {
+  for (const id of listProviderIds()) {
     try {
-      const provider = factory();
+      const provider = getProvider(id);
       providers.push({
         id: provider.id,
         name: provider.name,
         supportsWorkspaces: provider.supportsWorkspaces,
+        capabilities: provider.capabilities,
       });
     } catch (error) {
       // Skip providers that can't be instantiated (e.g., missing API keys)
@@ -78,5 +65,5 @@ export function getAvailableProviders(): ProviderInfo[] {
  * @returns true if provider exists in registry
  */
 export function isProviderAvailable(providerId: string): boolean {
-  return providerRegistry.has(providerId);
+  return getProviderFactory(providerId) !== undefined;
 }
@@ -0,0 +1,656 @@
+/**
+ * GeminiProvider - Implementation of ILLMProvider for Google Gemini / Vertex AI
+ *
+ * Google does not expose a usage API for Gemini: usage is read from the Cloud
+ * Billing export to BigQuery, or from a local export file standing in for it.
+ *   - GCP projects are exposed as workspaces
+ *   - API keys (or any resource label) are exposed as projects
+ *
+ * Environment variables (one source is required):
+ *   GEMINI_BIGQUERY_TABLE=billing-project.billing_dataset.gcp_billing_export_resource_v1_XXXXXX
+ *   GOOGLE_SERVICE_ACCOUNT_KEY={"client_email": "...", "private_key": "..."}
+ *     (or GOOGLE_APPLICATION_CREDENTIALS=/path/to/service-account.json)
+ *
+ *   GEMINI_USAGE_EXPORT_PATH=/path/to/gemini-usage.csv (or .json)
+ *
+ * Optional:
+ *   GEMINI_PROJECT_LABEL=api_key   # Label whose value identifies the "project"
+ *
+ * Billing export amounts are assumed to be in USD (billing account currency).
+ * BigQuery results cut by the page limit are returned as partial data, with
+ * the days not fetched in `missing`.
+ */
+
+import { createSign } from 'crypto';
+import { readFileSync } from 'fs';
+import { ILLMProvider } from './interface';
+import { Workspace, Project, CostParams, CostData, MissingRange, ModelCost, ProviderCapabilities } from '../types';
+import {
+  resolveModelPricing,
+  costPerMillion,
+  calculateDiscrepancyPercent,
+  PricingMatch,
+} from '../pricing';
+import { parseCsv } from '../../utils/csv';
+
+type ContextTier = 'standard' | 'long';
+
+/**
+ * One usage line, normalized from a billing export row or a local export row
+ */
+interface GeminiUsageRecord {
+  projectId: string;      // GCP project ID
+  projectName: string;
+  label: string;          // API key / label value ('' when absent)
+  model: string;
+  date: string;           // YYYY-MM-DD
+  inputTokens: number;
+  outputTokens: number;
+  cachedInputTokens: number;
+  requests: number;
+  contextTier?: ContextTier;
+  billedCostUsd?: number; // Amount billed by Google, when the export has it
+}
+
+interface ServiceAccountKey {
+  client_email: string;
+  private_key: string;
+  token_uri?: string;
+}
+
+const BIGQUERY_SCOPE = 'https://www.googleapis.com/auth/bigquery.readonly';
+const DEFAULT_TOKEN_URI = 'https://oauth2.googleapis.com/token';
+const BIGQUERY_BASE_URL = 'https://bigquery.googleapis.com/bigquery/v2';
+
+export class GeminiProvider implements ILLMProvider {
+  public readonly id = 'gemini';
+  public readonly name = 'Google Gemini';
+  public readonly supportsWorkspaces = true; // GCP projects
+  public readonly capabilities: ProviderCapabilities = {
+    reportsCosts: true,
+    dateRange: true,
+    projectCosts: true,
+    dailyGranularity: true,
+    costSource: 'billed', // Billing export amounts (estimate for exports without cost)
+    usageUnit: 'tokens',
+    timeSeries: [],
+  };
+
+  private readonly bigQueryTable: string;
+  private readonly exportPath: string;
+  private readonly projectLabel: string;
+  private accessToken: { token: string; expiresAt: number } | null = null;
+
+  constructor() {
+    this.bigQueryTable = process.env.GEMINI_BIGQUERY_TABLE || '';
+    this.exportPath = process.env.GEMINI_USAGE_EXPORT_PATH || '';
+    this.projectLabel = process.env.GEMINI_PROJECT_LABEL || '';
+
+    if (!this.bigQueryTable && !this.exportPath) {
+      throw new Error(
+        'Gemini usage source not found. Please set GEMINI_BIGQUERY_TABLE (BigQuery billing export) ' +
+        'or GEMINI_USAGE_EXPORT_PATH (local JSON/CSV export) environment variable.'
+      );
+    }
+
+    // The table name is interpolated in SQL: only allow plain identifiers
+    if (this.bigQueryTable && !/^[\w-]+\.[\w-]+\.[\w-]+$/.test(this.bigQueryTable)) {
+      throw new Error(
+        `Invalid GEMINI_BIGQUERY_TABLE '${this.bigQueryTable}'. Expected 'project.dataset.table'.`
+      );
+    }
+  }
+
+  /**
+   * Get list of workspaces (GCP projects with Gemini usage in the last 90 days)
+   */
+  async getWorkspaces(): Promise<Workspace[]> {
+    try {
+      const end = new Date();
+      const start = new Date(end.getTime() - 90 * 24 * 60 * 60 * 1000);
+      const { records } = await this.loadUsage(
+        start.toISOString().split('T')[0],
+        end.toISOString().split('T')[0]
+      );
+
+      const workspaces = new Map<string, string>();
+      for (const record of records) {
+        workspaces.set(record.projectId, record.projectName || record.projectId);
+      }
+
+      const result = Array.from(workspaces.entries())
+        .map(([id, name]) => ({ id, name }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+      console.log(`[Gemini] Found ${result.length} GCP project(s):`, result.map(w => w.name).join(', '));
+      return result;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to fetch workspaces: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get list of API keys / label values for a GCP project (used as "Projects")
+   *
+   * @param workspace - GCP project ID
+   */
+  async getProjects(workspace?: string): Promise<Project[]> {
+    if (!workspace) {
+      throw new Error('Workspace (GCP project) is required for Gemini provider');
+    }
+
+    try {
+      const end = new Date();
+      const start = new Date(end.getTime() - 90 * 24 * 60 * 60 * 1000);
+      const { records } = await this.loadUsage(
+        start.toISOString().split('T')[0],
+        end.toISOString().split('T')[0],
+        workspace
+      );
+
+      const labels = new Set(records.map(record => record.label).filter(Boolean));
+
+      return Array.from(labels)
+        .sort()
+        .map(label => ({ id: label, name: label }));
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to fetch projects: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get cost data for a GCP project (and optionally one API key / label)
+   *
+   * @param params - Cost query parameters
+   */
+  async getCosts(params: CostParams): Promise<CostData> {
+    const { workspace, projectId, startDate, endDate } = params;
+
+    if (!workspace) {
+      throw new Error('Workspace (GCP project) is required for Gemini provider');
+    }
+
+    try {
+      const scope = projectId ? `label ${projectId}` : 'all labels (project total)';
+      console.log(`[Gemini] Fetching usage for ${workspace}, ${scope} from ${startDate} to ${endDate}`);
+
+      const usage = await this.loadUsage(startDate, endDate, workspace);
+      const records = usage.records.filter(record => !projectId || record.label === projectId);
+      const missing = usage.missing ? [usage.missing] : undefined;
+
+      console.log(`[Gemini] ${records.length} usage record(s)`);
+
+      // Group by model + context tier and sum tokens/requests/cost
+      const modelMap = new Map<string, {
+        model: string;
+        tier: ContextTier;
+        inputTokens: number;
+        outputTokens: number;
+        cachedInputTokens: number;
+        requests: number;
+        cost: number;
+        pricingSource: PricingMatch;
+      }>();
+      let billedTotal = 0;
+      let hasBilledAmounts = false;
+
+      for (const record of records) {
+        const { rates, match } = resolveModelPricing(this.id, record.model, record.date);
+        const tier = record.contextTier || this.guessContextTier(record, rates);
+        const suffix = tier === 'long' ? '_long' : '';
+
+        const cost =
+          costPerMillion(record.inputTokens - record.cachedInputTokens, rates[`input${suffix}`] ?? rates.input) +
+          costPerMillion(record.cachedInputTokens, rates[`cached_input${suffix}`] ?? rates.cached_input ?? rates.input) +
+          costPerMillion(record.outputTokens, rates[`output${suffix}`] ?? rates.output);
+
+        if (record.billedCostUsd !== undefined) {
+          billedTotal += record.billedCostUsd;
+          hasBilledAmounts = true;
+        }
+
+        const mapKey = `${record.model}:${tier}`;
+        const existing = modelMap.get(mapKey);
+        if (existing) {
+          existing.inputTokens += record.inputTokens;
+          existing.outputTokens += record.outputTokens;
+          existing.cachedInputTokens += record.cachedInputTokens;
+          existing.requests += record.requests;
+          existing.cost += cost;
+        } else {
+          modelMap.set(mapKey, {
+            model: record.model,
+            tier,
+            inputTokens: record.inputTokens,
+            outputTokens: record.outputTokens,
+            cachedInputTokens: record.cachedInputTokens,
+            requests: record.requests,
+            cost,
+            pricingSource: match,
+          });
+        }
+      }
+
+      const breakdown: ModelCost[] = [];
+      let totalCost = 0;
+
+      for (const { model, tier, inputTokens, outputTokens, cachedInputTokens, requests, cost, pricingSource } of modelMap.values()) {
+        breakdown.push({
+          model: tier === 'long' ? `${model} (long context)` : model,
+          cost_usd: cost,
+          requests,
+          input_tokens: inputTokens,
+          output_tokens: outputTokens,
+          cached_input_tokens: cachedInputTokens,
+          pricing_source: pricingSource,
+        });
+        totalCost += cost;
+      }
+
+      breakdown.sort((a, b) => b.cost_usd - a.cost_usd);
+
+      console.log(`[Gemini] Calculated: $${totalCost.toFixed(2)} estimated${hasBilledAmounts ? `, $${billedTotal.toFixed(2)} billed` : ''}`);
+
+      if (!hasBilledAmounts) {
+        return {
+          total_cost_usd: totalCost,
+          last_updated: new Date().toISOString(),
+          breakdown,
+          missing,
+          estimated_cost_usd: totalCost,
+        };
+      }
+
+      return {
+        total_cost_usd: billedTotal,
+        last_updated: new Date().toISOString(),
+        breakdown,
+        missing,
+        billed_cost_usd: billedTotal,
+        estimated_cost_usd: totalCost,
+        discrepancy_percent: calculateDiscrepancyPercent(billedTotal, totalCost),
+      };
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to fetch costs: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Without an explicit tier, use the average prompt size of the record
+   */
+  private guessContextTier(record: GeminiUsageRecord, rates: Record<string, number>): ContextTier {
+    const threshold = rates.long_context_threshold;
+    if (!threshold || record.requests === 0) {
+      return 'standard';
+    }
+    return record.inputTokens / record.requests > threshold ? 'long' : 'standard';
+  }
+
+  // ==========================================================================
+  // USAGE SOURCES
+  // ==========================================================================
+
+  /**
+   * Load usage records for a date range from the configured source, with the
+   * days not fetched when the BigQuery results were cut
+   */
+  private async loadUsage(
+    startDate: string,
+    endDate: string,
+    gcpProject?: string
+  ): Promise<{ records: GeminiUsageRecord[]; missing?: MissingRange }> {
+    const start = startDate.split('T')[0];
+    const end = endDate.split('T')[0];
+
+    const { rows, missing } = this.bigQueryTable
+      ? await this.queryBillingExport(start, end, gcpProject)
+      : { rows: this.readExportFile(), missing: undefined };
+
+    const records = rows
+      .map(row => this.toUsageRecord(row))
+      .filter((record): record is GeminiUsageRecord => record !== null)
+      .filter(record => record.date >= start && record.date <= end)
+      .filter(record => !gcpProject || record.projectId === gcpProject);
+    return { records, missing };
+  }
+
+  /**
+   * Read the local export (JSON array, { rows: [...] } or CSV with a header line)
+   */
+  private readExportFile(): Record<string, unknown>[] {
+    console.log(`[Gemini] Reading usage export: ${this.exportPath}`);
+    const content = readFileSync(this.exportPath, 'utf-8');
+
+    if (this.exportPath.toLowerCase().endsWith('.json')) {
+      const data = JSON.parse(content);
+      const rows = Array.isArray(data) ? data : data.rows;
+      if (!Array.isArray(rows)) {
+        throw new Error(`Invalid Gemini usage export: expected an array of rows in ${this.exportPath}`);
+      }
+      return rows;
+    }
+
+    return parseCsv(content);
+  }
+
+  /**
+   * Normalize an export row
+   *
+   * Two shapes are accepted:
+   *   - token rows: project_id, model, date, input_tokens, output_tokens, ...
+   *   - billing rows (BigQuery export): project_id, sku, usage_date, usage_amount, cost
+   *     where the SKU description tells the model, the token type and the context tier
+   */
+  private toUsageRecord(row: Record<string, unknown>): GeminiUsageRecord | null {
+    const text = (key: string): string => (row[key] === undefined || row[key] === null ? '' : String(row[key]));
+    const num = (key: string): number => {
+      const value = parseFloat(text(key));
+      return Number.isFinite(value) ? value : 0;
+    };
+
+    const projectId = text('project_id');
+    const date = (text('date') || text('usage_date')).split('T')[0];
+    if (!projectId || !date) {
+      return null;
+    }
+
+    const base = {
+      projectId,
+      projectName: text('project_name') || projectId,
+      label: text('label'),
+      date,
+      billedCostUsd: text('cost') !== '' ? num('cost') : (text('cost_usd') !== '' ? num('cost_usd') : undefined),
+    };
+
+    if (text('sku')) {
+      const sku = parseGeminiSku(text('sku'));
+      if (!sku) {
+        return null;
+      }
+      // Only token counts are usable; other units (requests, characters...) keep their billed cost only
+      const unit = text('usage_unit').toLowerCase();
+      const amount = !unit || /count|token/.test(unit) ? num('usage_amount') : 0;
+      return {
+        ...base,
+        model: sku.model,
+        inputTokens: sku.tokenType === 'input' || sku.tokenType === 'cached_input' ? amount : 0,
+        outputTokens: sku.tokenType === 'output' ? amount : 0,
+        cachedInputTokens: sku.tokenType === 'cached_input' ? amount : 0,
+        requests: 0,
+        contextTier: sku.contextTier,
+      };
+    }
+
+    const tier = text('context_tier').toLowerCase();
+    return {
+      ...base,
+      model: text('model').toLowerCase() || 'unknown',
+      inputTokens: num('input_tokens'),
+      outputTokens: num('output_tokens'),
+      cachedInputTokens: num('cached_input_tokens'),
+      requests: num('requests'),
+      contextTier: tier === 'long' || tier === 'standard' ? tier : undefined,
+    };
+  }
+
+  // ==========================================================================
+  // BIGQUERY
+  // ==========================================================================
+
+  /**
+   * Aggregate Gemini SKUs of the billing export per project, label, SKU and day
+   *
+   * Rows come by day: when the page limit is reached, the rows fetched are
+   * returned with the days left (from the last day fetched) in `missing`.
+   *
+   * @throws Error if the query job does not complete
+   */
+  private async queryBillingExport(
+    startDate: string,
+    endDate: string,
+    gcpProject?: string
+  ): Promise<{ rows: Record<string, unknown>[]; missing?: MissingRange }> {
+    const query = `
+      SELECT
+        project.id AS project_id,
+        ANY_VALUE(project.name) AS project_name,
+        IFNULL((SELECT value FROM UNNEST(labels) WHERE key = @label_key LIMIT 1), '') AS label,
+        sku.description AS sku,
+        usage.unit AS usage_unit,
+        CAST(DATE(usage_start_time) AS STRING) AS usage_date,
+        SUM(usage.amount) AS usage_amount,
+        SUM(cost) + SUM(IFNULL((SELECT SUM(credit.amount) FROM UNNEST(credits) AS credit), 0)) AS cost
+      FROM \`${this.bigQueryTable}\`
+      WHERE LOWER(sku.description) LIKE '%gemini%'
+        AND DATE(usage_start_time) BETWEEN @start_date AND @end_date
+        ${gcpProject ? 'AND project.id = @gcp_project' : ''}
+      GROUP BY project_id, label, sku, usage_unit, usage_date
+      ORDER BY usage_date
+    `;
+
+    const queryParameters = [
+      { name: 'label_key', parameterType: { type: 'STRING' }, parameterValue: { value: this.projectLabel } },
+      { name: 'start_date', parameterType: { type: 'DATE' }, parameterValue: { value: startDate } },
+      { name: 'end_date', parameterType: { type: 'DATE' }, parameterValue: { value: endDate } },
+    ];
+    if (gcpProject) {
+      queryParameters.push({ name: 'gcp_project', parameterType: { type: 'STRING' }, parameterValue: { value: gcpProject } });
+    }
+
+    const billingProject = this.bigQueryTable.split('.')[0];
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    let data: any = await this.fetchBigQuery(`/projects/${billingProject}/queries`, {
+      method: 'POST',
+      body: JSON.stringify({
+        query,
+        useLegacySql: false,
+        parameterMode: 'NAMED',
+        queryParameters,
+        timeoutMs: 30000,
+      }),
+    });
+
+    const jobId = data.jobReference?.jobId;
+    const location = data.jobReference?.location;
+    const rows: Record<string, unknown>[] = [];
+    let pageCount = 0;
+    let complete = false;
+    const MAX_PAGES = 50; // Safety limit
+
+    // Poll until the job completes, then follow result pages
+    while (pageCount < MAX_PAGES) {
+      if (data.jobComplete) {
+        rows.push(...this.readBigQueryRows(data));
+        if (!data.pageToken) {
+          complete = true;
+          break;
+        }
+      }
+
+      if (!jobId) {
+        throw new Error('BigQuery query did not return a job reference');
+      }
+
+      const resultParams = new URLSearchParams({ timeoutMs: '30000' });
+      if (location) {
+        resultParams.set('location', location);
+      }
+      if (data.jobComplete && data.pageToken) {
+        resultParams.set('pageToken', data.pageToken);
+      }
+
+      data = await this.fetchBigQuery(`/projects/${billingProject}/queries/${jobId}?${resultParams.toString()}`);
+      pageCount++;
+    }
+
+    if (!complete && !data.jobComplete) {
+      throw new Error(`BigQuery query did not complete after ${MAX_PAGES} polls`);
+    }
+
+    console.log(`[Gemini] BigQuery returned ${rows.length} row(s)`);
+    if (!complete) {
+      console.warn(`[Gemini] BigQuery: page limit (${MAX_PAGES}) reached, results are truncated`);
+      // The last day fetched may be incomplete
+      const lastDate = String(rows[rows.length - 1]?.usage_date || startDate);
+      return {
+        rows,
+        missing: { startDate: lastDate, endDate, source: 'BigQuery', reason: `page limit (${MAX_PAGES}) reached` },
+      };
+    }
+    return { rows };
+  }
+
+  /**
+   * Convert BigQuery's { schema, rows: [{ f: [{ v }] }] } into plain objects
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private readBigQueryRows(data: any): Record<string, unknown>[] {
+    const fields: Array<{ name: string }> = data.schema?.fields || [];
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return (data.rows || []).map((row: any) => {
+      const result: Record<string, unknown> = {};
+      fields.forEach((field, index) => {
+        result[field.name] = row.f?.[index]?.v ?? null;
+      });
+      return result;
+    });
+  }
+
+  /**
+   * Make an authenticated request to the BigQuery REST API
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private async fetchBigQuery(endpoint: string, options: RequestInit = {}): Promise<any> {
+    const url = `${BIGQUERY_BASE_URL}${endpoint}`;
+    console.log(`[Gemini] Fetching: ${url}`);
+
+    const response = await fetch(url, {
+      ...options,
+      headers: {
+        'Authorization': `Bearer ${await this.getAccessToken()}`,
+        'Content-Type': 'application/json',
+        ...options.headers,
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`[Gemini] BigQuery API error (${response.status}):`, errorText);
+      throw new Error(`BigQuery API error (${response.status}): ${errorText}`);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Get an OAuth access token for the service account (JWT bearer grant)
+   */
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && this.accessToken.expiresAt > Date.now() + 60_000) {
+      return this.accessToken.token;
+    }
+
+    const key = this.getServiceAccountKey();
+    const tokenUri = key.token_uri || DEFAULT_TOKEN_URI;
+    const now = Math.floor(Date.now() / 1000);
+
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const unsigned = `${encode({ alg: 'RS256', typ: 'JWT' })}.${encode({
+      iss: key.client_email,
+      scope: BIGQUERY_SCOPE,
+      aud: tokenUri,
+      iat: now,
+      exp: now + 3600,
+    })}`;
+    const signature = createSign('RSA-SHA256').update(unsigned).sign(key.private_key, 'base64url');
+
+    const response = await fetch(tokenUri, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+        assertion: `${unsigned}.${signature}`,
+      }).toString(),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Google OAuth error (${response.status}): ${errorText}`);
+    }
+
+    const data = await response.json();
+    this.accessToken = {
+      token: data.access_token,
+      expiresAt: Date.now() + (data.expires_in || 3600) * 1000,
+    };
+
+    return this.accessToken.token;
+  }
+
+  /**
+   * Read the service account key from GOOGLE_SERVICE_ACCOUNT_KEY (JSON content)
+   * or GOOGLE_APPLICATION_CREDENTIALS (file path)
+   */
+  private getServiceAccountKey(): ServiceAccountKey {
+    const inlineKey = process.env.GOOGLE_SERVICE_ACCOUNT_KEY;
+    const keyPath = process.env.GOOGLE_APPLICATION_CREDENTIALS;
+
+    if (!inlineKey && !keyPath) {
+      throw new Error(
+        'Google service account not found. Please set GOOGLE_SERVICE_ACCOUNT_KEY or GOOGLE_APPLICATION_CREDENTIALS ' +
+        'environment variable (the account needs BigQuery read access to the billing export).'
+      );
+    }
+
+    const key = JSON.parse(inlineKey || readFileSync(keyPath as string, 'utf-8'));
+    if (!key.client_email || !key.private_key) {
+      throw new Error('Invalid Google service account key: client_email and private_key are required');
+    }
+
+    return key;
+  }
+}
+
+/**
+ * Extract model, token type and context tier from a billing SKU description,
+ * e.g. "Gemini 2.5 Pro Input Tokens (> 200K)", "Gemini 1.5 Flash Cached Input Long Context"
+ *
+ * @returns null when the SKU is not a Gemini SKU; tokenType is null for
+ *   non-token SKUs (grounding requests, ...)
+ */
+export function parseGeminiSku(description: string): {
+  model: string;
+  tokenType: 'input' | 'output' | 'cached_input' | null;
+  contextTier: ContextTier;
+} | null {
+  const modelMatch = description.match(/gemini[\s-]*(\d+(?:\.\d+)?)[\s-]*(pro|flash[\s-]*lite|flash|ultra|nano)?/i);
+  if (!modelMatch) {
+    return null;
+  }
+
+  const variant = modelMatch[2] ? `-${modelMatch[2].toLowerCase().replace(/[\s-]+/g, '-')}` : '';
+  const model = `gemini-${modelMatch[1]}${variant}`;
+
+  let tokenType: 'input' | 'output' | 'cached_input' | null = null;
+  if (/cach/i.test(description)) {
+    tokenType = 'cached_input';
+  } else if (/output|response|thinking/i.test(description)) {
+    tokenType = 'output';
+  } else if (/input|prompt/i.test(description)) {
+    tokenType = 'input';
+  }
+
+  const contextTier: ContextTier = /long|>\s*\d+\s*k/i.test(description) ? 'long' : 'standard';
+
+  return { model, tokenType, contextTier };
+}
@@ -6,7 +6,15 @@
  * Anthropic, Mistral, etc.) through a unified API.
  */
 
-import { Workspace, Project, CostParams, CostData } from '../types';
+import {
+  Workspace,
+  Project,
+  CostParams,
+  CostData,
+  CostTimeSeries,
+  ProviderCapabilities,
+  TimeSeriesGranularity,
+} from '../types';
 
 export interface ILLMProvider {
   /**
@@ -26,6 +34,12 @@ export interface ILLMProvider {
    */
   supportsWorkspaces: boolean;
 
+  /**
+   * What the provider's usage data supports (date ranges, per-project costs,
+   * daily granularity, billed or estimated costs, usage unit)
+   */
+  capabilities: ProviderCapabilities;
+
   /**
    * Get the list of available workspaces for this provider
    *
@@ -48,4 +62,16 @@ export interface ILLMProvider {
    * @returns Cost data with total and breakdown by model
    */
   getCosts(params: CostParams): Promise<CostData>;
+
+  /**
+   * Get costs per day (or per hour) and per model over a date range
+   *
+   * Optional: only implemented by providers whose usage data is dated, as
+   * listed in capabilities.timeSeries.
+   *
+   * @param params - Cost query parameters including workspace, project, and date range
+   * @param granularity - Bucket size, one of capabilities.timeSeries
+   * @returns One point per bucket, empty buckets included
+   */
+  getCostTimeSeries?(params: CostParams, granularity: TimeSeriesGranularity): Promise<CostTimeSeries>;
 }
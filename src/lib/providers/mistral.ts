@@ -0,0 +1,345 @@
+/**
+ * MistralProvider - Implementation of ILLMProvider for Mistral AI (La Plateforme)
+ *
+ * This provider supports multiple workspaces, detected dynamically from environment variables.
+ * Each Mistral workspace has its own API key stored in environment variables with pattern:
+ *   MISTRAL_API_KEY_<WORKSPACE_NAME>=xxx
+ * A plain MISTRAL_API_KEY is exposed as the "Default" workspace.
+ *
+ * Usage comes from the billing usage endpoint (monthly, per model), which is
+ * not part of the documented public API: its response is parsed defensively
+ * and the URL can be overridden with MISTRAL_USAGE_URL. Mistral does not let
+ * API keys list other keys, so projects are the workspace's API key only.
+ */
+
+import { ILLMProvider } from './interface';
+import { Workspace, Project, CostParams, CostData, ModelCost, ProviderCapabilities } from '../types';
+import { resolveModelPricing, costPerMillion, PricingMatch } from '../pricing';
+
+const DEFAULT_USAGE_URL = 'https://api.mistral.ai/v1/billing/usage';
+const DEFAULT_WORKSPACE_ID = 'default';
+
+export class MistralProvider implements ILLMProvider {
+  public readonly id = 'mistral';
+  public readonly name = 'Mistral';
+  public readonly supportsWorkspaces = true;
+  public readonly capabilities: ProviderCapabilities = {
+    reportsCosts: true,
+    dateRange: true,
+    projectCosts: false, // A workspace is a single API key
+    dailyGranularity: false, // Usage is queried per calendar month
+    costSource: 'estimated',
+    usageUnit: 'tokens',
+    timeSeries: [],
+  };
+
+  // Workspace configurations - detected dynamically from environment variables
+  private readonly workspaces: Workspace[] = [];
+  private readonly usageUrl: string;
+
+  constructor() {
+    // Looking for MISTRAL_API_KEY_<WORKSPACE_NAME> pattern
+    const workspacePattern = /^MISTRAL_API_KEY_(\w+)$/;
+
+    for (const key of Object.keys(process.env)) {
+      const match = key.match(workspacePattern);
+      if (match && process.env[key]) {
+        const workspaceId = match[1].toLowerCase();
+        const workspaceName = match[1].charAt(0).toUpperCase() + match[1].slice(1).toLowerCase();
+        this.workspaces.push({ id: workspaceId, name: workspaceName });
+      }
+    }
+
+    this.workspaces.sort((a, b) => a.name.localeCompare(b.name));
+
+    if (process.env.MISTRAL_API_KEY) {
+      this.workspaces.unshift({ id: DEFAULT_WORKSPACE_ID, name: 'Default' });
+    }
+
+    if (this.workspaces.length === 0) {
+      throw new Error(
+        'Mistral API key not found. Please set MISTRAL_API_KEY or MISTRAL_API_KEY_<WORKSPACE> environment variable.'
+      );
+    }
+
+    this.usageUrl = process.env.MISTRAL_USAGE_URL || DEFAULT_USAGE_URL;
+
+    console.log(`[Mistral] Detected ${this.workspaces.length} workspace(s):`, this.workspaces.map(w => w.name).join(', '));
+  }
+
+  /**
+   * Get API key for a specific workspace
+   */
+  private getApiKey(workspace: string): string {
+    const envKey = workspace === DEFAULT_WORKSPACE_ID
+      ? 'MISTRAL_API_KEY'
+      : `MISTRAL_API_KEY_${workspace.toUpperCase()}`;
+    const apiKey = process.env[envKey];
+
+    if (!apiKey) {
+      throw new Error(`API key not found for workspace: ${workspace}. Expected env var: ${envKey}`);
+    }
+
+    return apiKey;
+  }
+
+  /**
+   * Make an authenticated request to the Mistral API
+   */
+  private async fetchMistral(url: string, workspace: string): Promise<Response> {
+    console.log(`[Mistral] Fetching: ${url} for workspace: ${workspace}`);
+
+    const response = await fetch(url, {
+      headers: {
+        'Authorization': `Bearer ${this.getApiKey(workspace)}`,
+        'Accept': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`[Mistral] API error (${response.status}):`, errorText);
+      throw new Error(`Mistral API error (${response.status}): ${errorText}`);
+    }
+
+    return response;
+  }
+
+  /**
+   * Get list of workspaces (static list from environment variables)
+   */
+  async getWorkspaces(): Promise<Workspace[]> {
+    return this.workspaces;
+  }
+
+  /**
+   * Get the API key of a workspace (the only key it can see)
+   *
+   * The key is checked against /v1/models so that an invalid key shows up
+   * when browsing rather than during the monthly collection.
+   *
+   * @param workspace - Workspace ID (required for Mistral)
+   */
+  async getProjects(workspace?: string): Promise<Project[]> {
+    if (!workspace) {
+      throw new Error('Workspace is required for Mistral provider');
+    }
+
+    try {
+      await this.fetchMistral('https://api.mistral.ai/v1/models', workspace);
+      const apiKey = this.getApiKey(workspace);
+
+      return [{ id: 'api-key', name: `API Key (...${apiKey.slice(-4)})` }];
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to fetch projects: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get cost data for a workspace and date range
+   *
+   * The usage endpoint is queried once per calendar month of the range; daily
+   * entries are filtered on the range when the response has timestamps.
+   *
+   * @param params - Cost query parameters
+   */
+  async getCosts(params: CostParams): Promise<CostData> {
+    const { workspace, startDate, endDate } = params;
+
+    if (!workspace) {
+      throw new Error('Workspace is required for Mistral provider');
+    }
+
+    try {
+      console.log(`[Mistral] Fetching usage for workspace ${workspace} from ${startDate} to ${endDate}`);
+
+      const start = startDate.split('T')[0];
+      const end = endDate.split('T')[0];
+
+      // Group by model and sum tokens/cost
+      const modelMap = new Map<string, {
+        inputTokens: number;
+        outputTokens: number;
+        requests: number;
+        cost: number;
+        pricingSource: PricingMatch;
+      }>();
+
+      for (const { year, month } of this.listMonths(start, end)) {
+        const url = `${this.usageUrl}?${new URLSearchParams({ year: String(year), month: String(month) }).toString()}`;
+        const response = await this.fetchMistral(url, workspace);
+        const data = await response.json();
+
+        const entries = this.parseUsage(data)
+          .filter(entry => !entry.date || (entry.date >= start && entry.date <= end));
+
+        console.log(`[Mistral] ${year}-${String(month).padStart(2, '0')}: ${entries.length} usage entr(y/ies)`);
+
+        for (const entry of entries) {
+          const pricingDate = entry.date || `${year}-${String(month).padStart(2, '0')}-01`;
+          const { rates, match } = resolveModelPricing(this.id, entry.model, pricingDate);
+          const cost =
+            costPerMillion(entry.inputTokens, rates.input) +
+            costPerMillion(entry.outputTokens, rates.output);
+
+          const existing = modelMap.get(entry.model);
+          if (existing) {
+            existing.inputTokens += entry.inputTokens;
+            existing.outputTokens += entry.outputTokens;
+            existing.requests += entry.requests;
+            existing.cost += cost;
+          } else {
+            modelMap.set(entry.model, {
+              inputTokens: entry.inputTokens,
+              outputTokens: entry.outputTokens,
+              requests: entry.requests,
+              cost,
+              pricingSource: match,
+            });
+          }
+        }
+      }
+
+      const breakdown: ModelCost[] = [];
+      let totalCost = 0;
+
+      for (const [model, { inputTokens, outputTokens, requests, cost, pricingSource }] of modelMap.entries()) {
+        breakdown.push({
+          model,
+          cost_usd: cost,
+          requests,
+          input_tokens: inputTokens,
+          output_tokens: outputTokens,
+          pricing_source: pricingSource,
+        });
+        totalCost += cost;
+      }
+
+      breakdown.sort((a, b) => b.cost_usd - a.cost_usd);
+
+      console.log(`[Mistral] Calculated: ${breakdown.length} model(s), $${totalCost.toFixed(2)} total cost`);
+
+      return {
+        total_cost_usd: totalCost,
+        last_updated: new Date().toISOString(),
+        breakdown,
+        estimated_cost_usd: totalCost,
+      };
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to fetch costs: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Calendar months covered by a date range (YYYY-MM-DD bounds, inclusive)
+   */
+  private listMonths(start: string, end: string): Array<{ year: number; month: number }> {
+    const months: Array<{ year: number; month: number }> = [];
+    let [year, month] = start.split('-').map(Number);
+    const [endYear, endMonth] = end.split('-').map(Number);
+
+    while (year < endYear || (year === endYear && month <= endMonth)) {
+      months.push({ year, month });
+      month++;
+      if (month > 12) {
+        month = 1;
+        year++;
+      }
+    }
+
+    return months;
+  }
+
+  /**
+   * Extract per-model token usage from the billing usage response
+   *
+   * Two shapes are handled:
+   *   - { completion: { models: { 'mistral-large-latest::mistral-large-2411': { input: [...], output: [...] } } }, ... }
+   *     where each section (completion, fim, embeddings...) lists models, and
+   *     input/output are numbers or arrays of { value, timestamp } entries
+   *   - { data: [{ model, input_tokens, output_tokens, requests, date }] }
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private parseUsage(data: any): Array<{
+    model: string;
+    inputTokens: number;
+    outputTokens: number;
+    requests: number;
+    date?: string;
+  }> {
+    const entries: Array<{ model: string; inputTokens: number; outputTokens: number; requests: number; date?: string }> = [];
+
+    // Model keys can be '<alias>::<model>': keep the actual model
+    const modelName = (key: string): string => (key.split('::').pop() || key).toLowerCase();
+    const toDate = (timestamp: unknown): string | undefined => {
+      if (typeof timestamp !== 'string' && typeof timestamp !== 'number') {
+        return undefined;
+      }
+      const date = new Date(typeof timestamp === 'number' && timestamp < 1e12 ? timestamp * 1000 : timestamp);
+      return Number.isNaN(date.getTime()) ? undefined : date.toISOString().split('T')[0];
+    };
+
+    // Flat list shape
+    const list = Array.isArray(data?.data) ? data.data : Array.isArray(data) ? data : null;
+    if (list) {
+      for (const item of list) {
+        if (!item?.model) {
+          continue;
+        }
+        entries.push({
+          model: modelName(String(item.model)),
+          inputTokens: Number(item.input_tokens ?? item.prompt_tokens ?? 0) || 0,
+          outputTokens: Number(item.output_tokens ?? item.completion_tokens ?? 0) || 0,
+          requests: Number(item.requests ?? item.request_count ?? 0) || 0,
+          date: toDate(item.date ?? item.timestamp),
+        });
+      }
+      return entries;
+    }
+
+    // Sectioned shape: every top-level object with a `models` map
+    for (const section of Object.values(data || {})) {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const models = (section as any)?.models;
+      if (!models || typeof models !== 'object') {
+        continue;
+      }
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      for (const [key, usage] of Object.entries<any>(models)) {
+        const model = modelName(key);
+
+        for (const direction of ['input', 'output'] as const) {
+          const values = usage?.[direction];
+          if (typeof values === 'number') {
+            entries.push({
+              model,
+              inputTokens: direction === 'input' ? values : 0,
+              outputTokens: direction === 'output' ? values : 0,
+              requests: 0,
+            });
+          } else if (Array.isArray(values)) {
+            for (const value of values) {
+              const tokens = Number(value?.value ?? value?.quantity ?? 0) || 0;
+              entries.push({
+                model,
+                inputTokens: direction === 'input' ? tokens : 0,
+                outputTokens: direction === 'output' ? tokens : 0,
+                requests: 0,
+                date: toDate(value?.timestamp ?? value?.date),
+              });
+            }
+          }
+        }
+      }
+    }
+
+    return entries;
+  }
+}
@@ -0,0 +1,459 @@
+/**
+ * OpenAICompatibleProvider - Config-driven implementation of ILLMProvider
+ *
+ * Covers OpenAI-compatible and self-hosted services (vLLM, Ollama, LiteLLM
+ * proxy, Together, Groq, Fireworks...) without a dedicated class: base URL,
+ * authentication, usage endpoint and JSON field mapping come from the file
+ * pointed to by PROVIDERS_CONFIG_PATH.
+ *
+ * {
+ *   "providers": [
+ *     {
+ *       "id": "litellm",
+ *       "name": "LiteLLM Proxy",
+ *       "baseUrl": "https://litellm.example.com",
+ *       "apiKeyEnv": "LITELLM_MASTER_KEY",
+ *       "usage": {
+ *         "path": "/spend/logs",
+ *         "query": { "start_date": "{startDate}", "end_date": "{endDate}" },
+ *         "fields": { "model": "model", "inputTokens": "prompt_tokens", "outputTokens": "completion_tokens",
+ *                     "costUsd": "spend", "date": "startTime" }
+ *       }
+ *     }
+ *   ]
+ * }
+ *
+ * Costs come from the `costUsd` field when mapped, otherwise from the rates
+ * of `pricing` (same shape as a pricing catalog provider) or of an existing
+ * catalog provider (`pricingProvider`).
+ */
+
+import { readFileSync } from 'fs';
+import { ILLMProvider } from './interface';
+import { Workspace, Project, CostParams, CostData, ModelCost, PricingSource, ProviderCapabilities } from '../types';
+import { resolveModelPricing, costPerMillion, registerProviderPricing, ProviderPricing } from '../pricing';
+
+/**
+ * Mapping from usage items to token counts, as dotted paths (e.g. 'usage.prompt_tokens')
+ */
+export interface UsageFieldMapping {
+  model: string;
+  inputTokens?: string;
+  outputTokens?: string;
+  cachedInputTokens?: string;
+  requests?: string;
+  costUsd?: string;      // Billed cost of the item, when the service reports it
+  date?: string;         // ISO date or Unix timestamp, used to filter items on the period
+  project?: string;      // Project / API key of the item, used to filter on a project
+}
+
+/**
+ * An HTTP endpoint returning a (possibly paginated) list of items
+ *
+ * String values of `path`, `query` and `body` can use the placeholders
+ * {startDate} and {endDate} (YYYY-MM-DD), {startTime} and {endTime} (Unix seconds).
+ */
+export interface EndpointConfig {
+  path: string;
+  method?: 'GET' | 'POST';
+  query?: Record<string, string>;
+  body?: Record<string, unknown>;
+  itemsPath?: string;      // Dotted path of the item array (default: 'data', or the response itself)
+  nextPagePath?: string;   // Dotted path of the next page cursor
+  pageParam?: string;      // Query parameter carrying the cursor (default: 'page')
+}
+
+export interface CompatibleProviderConfig {
+  id: string;
+  name: string;
+  baseUrl: string;
+  apiKeyEnv?: string;                     // Omit for services without authentication (e.g. local Ollama)
+  authHeader?: string;                    // Default: 'Authorization'
+  authScheme?: string;                    // Default: 'Bearer' ('' sends the raw key)
+  headers?: Record<string, string>;
+  workspaces?: Array<{ id: string; name: string; apiKeyEnv: string }>;
+  usage: EndpointConfig & { fields?: UsageFieldMapping; projectParam?: string };
+  projects?: EndpointConfig & { fields: { id: string; name?: string } };
+  pricing?: ProviderPricing;
+  pricingProvider?: string;
+}
+
+// Field names of the OpenAI usage API, used when the config has no `usage.fields`
+const DEFAULT_USAGE_FIELDS: UsageFieldMapping = {
+  model: 'model',
+  inputTokens: 'input_tokens',
+  outputTokens: 'output_tokens',
+  cachedInputTokens: 'input_cached_tokens',
+  requests: 'num_model_requests',
+};
+
+/**
+ * Load the provider configs from PROVIDERS_CONFIG_PATH
+ *
+ * @returns An empty list when PROVIDERS_CONFIG_PATH is not set
+ * @throws Error if the file cannot be read or a provider config is invalid
+ */
+export function loadProviderConfigs(): CompatibleProviderConfig[] {
+  const configPath = process.env.PROVIDERS_CONFIG_PATH;
+  if (!configPath) {
+    return [];
+  }
+
+  try {
+    const data = JSON.parse(readFileSync(configPath, 'utf-8'));
+    const configs: unknown[] = Array.isArray(data?.providers) ? data.providers : [];
+    return configs.map(validateProviderConfig);
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to load provider configs from ${configPath}: ${errorMsg}`);
+  }
+}
+
+/**
+ * Check a provider config (required fields and a way to price usage)
+ */
+function validateProviderConfig(data: unknown, index: number): CompatibleProviderConfig {
+  const config = data as CompatibleProviderConfig;
+  const label = `providers[${index}]${config?.id ? ` ('${config.id}')` : ''}`;
+
+  if (!config || typeof config.id !== 'string' || !/^[a-z0-9][a-z0-9-]*$/.test(config.id)) {
+    throw new Error(`Invalid ${label}: 'id' must be lowercase letters, digits and dashes`);
+  }
+  if (typeof config.name !== 'string' || typeof config.baseUrl !== 'string') {
+    throw new Error(`Invalid ${label}: 'name' and 'baseUrl' are required`);
+  }
+  if (!config.usage || typeof config.usage.path !== 'string') {
+    throw new Error(`Invalid ${label}: 'usage.path' is required`);
+  }
+  if (config.usage.fields && typeof config.usage.fields.model !== 'string') {
+    throw new Error(`Invalid ${label}: 'usage.fields.model' is required when 'usage.fields' is set`);
+  }
+  if (!config.usage.fields?.costUsd && !config.pricing && !config.pricingProvider) {
+    throw new Error(
+      `Invalid ${label}: map 'usage.fields.costUsd', or set 'pricing' or 'pricingProvider' ` +
+      `(use 'pricing' with zero 'default' rates for self-hosted models)`
+    );
+  }
+
+  return config;
+}
+
+export class OpenAICompatibleProvider implements ILLMProvider {
+  public readonly id: string;
+  public readonly name: string;
+  public readonly supportsWorkspaces: boolean;
+  public readonly capabilities: ProviderCapabilities;
+
+  private readonly config: CompatibleProviderConfig;
+  private readonly fields: UsageFieldMapping;
+  private readonly pricingProviderId: string;
+
+  constructor(config: CompatibleProviderConfig) {
+    this.config = config;
+    this.id = config.id;
+    this.name = config.name;
+    this.supportsWorkspaces = !!config.workspaces?.length;
+    this.fields = config.usage.fields || DEFAULT_USAGE_FIELDS;
+    this.pricingProviderId = config.pricingProvider || config.id;
+    this.capabilities = {
+      reportsCosts: true,
+      dateRange: true,
+      projectCosts: !!config.projects && (!!this.fields.project || !!config.usage.projectParam),
+      dailyGranularity: !!this.fields.date,
+      costSource: this.fields.costUsd ? 'billed' : 'estimated',
+      usageUnit: 'tokens',
+      timeSeries: [],
+    };
+
+    const keyEnvs = this.supportsWorkspaces
+      ? config.workspaces!.map(workspace => workspace.apiKeyEnv)
+      : config.apiKeyEnv ? [config.apiKeyEnv] : [];
+    const missing = keyEnvs.filter(env => !process.env[env]);
+
+    if (missing.length > 0) {
+      throw new Error(`${config.name} API key not found. Please set ${missing.join(', ')} environment variable(s).`);
+    }
+
+    if (config.pricing) {
+      registerProviderPricing(config.id, config.pricing);
+    }
+  }
+
+  /**
+   * Make an authenticated request to the service
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private async fetchEndpoint(endpoint: EndpointConfig, params: Record<string, string>, workspace?: string): Promise<any[]> {
+    const items: unknown[] = [];
+    let cursor: string | null = null;
+    let pageCount = 0;
+    const MAX_PAGES = 100; // Safety limit
+
+    do {
+      const query: Record<string, string> = {};
+      for (const [name, value] of Object.entries(endpoint.query || {})) {
+        query[name] = fillPlaceholders(value, params);
+      }
+      if (cursor) {
+        query[endpoint.pageParam || 'page'] = cursor;
+      }
+
+      const queryString = new URLSearchParams(query).toString();
+      const url = `${this.config.baseUrl.replace(/\/$/, '')}${fillPlaceholders(endpoint.path, params)}${queryString ? `?${queryString}` : ''}`;
+      console.log(`[${this.name}] Fetching: ${url}`);
+
+      const response = await fetch(url, {
+        method: endpoint.method || 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          ...this.getAuthHeaders(workspace),
+          ...this.config.headers,
+        },
+        body: endpoint.body ? JSON.stringify(fillPlaceholdersDeep(endpoint.body, params)) : undefined,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(`[${this.name}] API error (${response.status}):`, errorText);
+        throw new Error(`${this.name} API error (${response.status}): ${errorText}`);
+      }
+
+      const data = await response.json();
+      const pageItems = endpoint.itemsPath
+        ? getPath(data, endpoint.itemsPath)
+        : Array.isArray(data) ? data : data?.data;
+      if (Array.isArray(pageItems)) {
+        items.push(...pageItems);
+      }
+
+      const next = endpoint.nextPagePath ? getPath(data, endpoint.nextPagePath) : null;
+      cursor = next === null || next === undefined || next === '' || next === false ? null : String(next);
+      pageCount++;
+    } while (cursor && pageCount < MAX_PAGES);
+
+    return items;
+  }
+
+  /**
+   * Authentication header of a workspace (or of the provider when it has no workspaces)
+   */
+  private getAuthHeaders(workspace?: string): Record<string, string> {
+    const keyEnv = workspace
+      ? this.config.workspaces?.find(w => w.id === workspace)?.apiKeyEnv
+      : this.config.apiKeyEnv;
+
+    if (workspace && !keyEnv) {
+      throw new Error(`Unknown workspace: ${workspace}`);
+    }
+
+    const apiKey = keyEnv ? process.env[keyEnv] : undefined;
+    if (!apiKey) {
+      return {};
+    }
+
+    const scheme = this.config.authScheme ?? 'Bearer';
+    return { [this.config.authHeader || 'Authorization']: scheme ? `${scheme} ${apiKey}` : apiKey };
+  }
+
+  /**
+   * Get list of workspaces (static list from the config)
+   */
+  async getWorkspaces(): Promise<Workspace[]> {
+    return (this.config.workspaces || []).map(({ id, name }) => ({ id, name }));
+  }
+
+  /**
+   * Get list of projects from the configured projects endpoint
+   *
+   * @returns An empty list when no projects endpoint is configured
+   */
+  async getProjects(workspace?: string): Promise<Project[]> {
+    const projects = this.config.projects;
+    if (!projects) {
+      return [];
+    }
+
+    try {
+      const items = await this.fetchEndpoint(projects, {}, workspace);
+      return items
+        .map(item => ({
+          id: String(getPath(item, projects.fields.id) ?? ''),
+          name: String(getPath(item, projects.fields.name || projects.fields.id) ?? ''),
+        }))
+        .filter(project => project.id);
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to fetch projects: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get cost data for a date range
+   *
+   * @param params - Cost query parameters
+   */
+  async getCosts(params: CostParams): Promise<CostData> {
+    const { workspace, projectId, startDate, endDate } = params;
+
+    if (this.supportsWorkspaces && !workspace) {
+      throw new Error(`Workspace is required for ${this.name} provider`);
+    }
+
+    try {
+      console.log(`[${this.name}] Fetching usage${workspace ? ` for workspace ${workspace}` : ''} from ${startDate} to ${endDate}`);
+
+      const start = startDate.split('T')[0];
+      const end = endDate.split('T')[0];
+      const placeholders = {
+        startDate: start,
+        endDate: end,
+        startTime: String(Math.floor(new Date(`${start}T00:00:00Z`).getTime() / 1000)),
+        endTime: String(Math.floor(new Date(`${end}T23:59:59Z`).getTime() / 1000)),
+      };
+
+      const usage = this.config.usage;
+      const endpoint = projectId && usage.projectParam
+        ? { ...usage, query: { ...usage.query, [usage.projectParam]: projectId } }
+        : usage;
+      const items = await this.fetchEndpoint(endpoint, placeholders, workspace);
+
+      const fields = this.fields;
+      const number = (item: unknown, path?: string): number => (path ? Number(getPath(item, path)) || 0 : 0);
+
+      // Group by model and sum tokens/cost
+      const modelMap = new Map<string, {
+        inputTokens: number;
+        outputTokens: number;
+        cachedInputTokens: number;
+        requests: number;
+        cost: number;
+        pricingSource: PricingSource;
+      }>();
+
+      for (const item of items) {
+        const date = fields.date ? toDate(getPath(item, fields.date)) : undefined;
+        if (date && (date < start || date > end)) {
+          continue;
+        }
+        if (projectId && fields.project && String(getPath(item, fields.project)) !== projectId) {
+          continue;
+        }
+
+        const model = String(getPath(item, fields.model) ?? 'unknown');
+        const inputTokens = number(item, fields.inputTokens);
+        const outputTokens = number(item, fields.outputTokens);
+        const cachedInputTokens = number(item, fields.cachedInputTokens);
+
+        let cost: number;
+        let pricingSource: PricingSource;
+        if (fields.costUsd) {
+          cost = number(item, fields.costUsd);
+          pricingSource = 'provider';
+        } else {
+          const { rates, match } = resolveModelPricing(this.pricingProviderId, model, date || start);
+          cost =
+            costPerMillion(inputTokens - cachedInputTokens, rates.input) +
+            costPerMillion(cachedInputTokens, rates.cached_input ?? rates.input) +
+            costPerMillion(outputTokens, rates.output);
+          pricingSource = match;
+        }
+
+        const existing = modelMap.get(model);
+        if (existing) {
+          existing.inputTokens += inputTokens;
+          existing.outputTokens += outputTokens;
+          existing.cachedInputTokens += cachedInputTokens;
+          existing.requests += fields.requests ? number(item, fields.requests) : 1;
+          existing.cost += cost;
+        } else {
+          modelMap.set(model, {
+            inputTokens,
+            outputTokens,
+            cachedInputTokens,
+            requests: fields.requests ? number(item, fields.requests) : 1,
+            cost,
+            pricingSource,
+          });
+        }
+      }
+
+      const breakdown: ModelCost[] = [];
+      let totalCost = 0;
+
+      for (const [model, { inputTokens, outputTokens, cachedInputTokens, requests, cost, pricingSource }] of modelMap.entries()) {
+        breakdown.push({
+          model,
+          cost_usd: cost,
+          requests,
+          input_tokens: inputTokens,
+          output_tokens: outputTokens,
+          cached_input_tokens: cachedInputTokens,
+          pricing_source: pricingSource,
+        });
+        totalCost += cost;
+      }
+
+      breakdown.sort((a, b) => b.cost_usd - a.cost_usd);
+
+      console.log(`[${this.name}] ${items.length} usage item(s), ${breakdown.length} model(s), $${totalCost.toFixed(2)} total cost`);
+
+      return {
+        total_cost_usd: totalCost,
+        last_updated: new Date().toISOString(),
+        breakdown,
+        ...(fields.costUsd ? { billed_cost_usd: totalCost } : { estimated_cost_usd: totalCost }),
+      };
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to fetch costs: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Read a dotted path ('usage.prompt_tokens') from a JSON value
+ */
+function getPath(value: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (current, key) => (current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined),
+    value
+  );
+}
+
+/**
+ * Replace {placeholder} occurrences in a string
+ */
+function fillPlaceholders(template: string, params: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, name) => params[name] ?? match);
+}
+
+/**
+ * Replace placeholders in every string of a JSON body
+ */
+function fillPlaceholdersDeep(value: unknown, params: Record<string, string>): unknown {
+  if (typeof value === 'string') {
+    return fillPlaceholders(value, params);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => fillPlaceholdersDeep(item, params));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fillPlaceholdersDeep(item, params)]));
+  }
+  return value;
+}
+
+/**
+ * Normalize an ISO date or a Unix timestamp (seconds or milliseconds) to YYYY-MM-DD
+ */
+function toDate(value: unknown): string | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+  const date = new Date(typeof value === 'number' && value < 1e12 ? value * 1000 : value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString().split('T')[0];
+}
@@ -8,15 +8,106 @@
  * Example:
  *   OPENAI_API_KEY_PRODUCTION=sk-admin-xxx...
  *   OPENAI_API_KEY_DEVELOPMENT=sk-admin-xxx...
+ *
+ * Costs come from two Admin API endpoints:
+ *   - /organization/usage/*: usage per model for every endpoint (completions,
+ *     embeddings, images, audio, vector stores...), priced with the catalog (estimate)
+ *   - /organization/costs: amounts actually billed, per line item
+ * When billed amounts are available they are the reported total, and the
+ * gap with the token estimate is returned as `discrepancy_percent`.
+ *
+ * A time window or page that fails after retries does not fail the whole
+ * request: the data is returned as partial, with the windows in `missing`.
+ * With a complete billed total, only the breakdown is partial: the windows
+ * are in `breakdown_missing` instead.
  */
 
 import { ILLMProvider } from './interface';
-import { Workspace, Project, CostParams, CostData, ModelCost } from '../types';
+import {
+  Workspace,
+  Project,
+  CostParams,
+  CostData,
+  CostTimeSeries,
+  MissingRange,
+  ModelCost,
+  ProviderCapabilities,
+  TimeSeriesGranularity,
+  UsageCategory,
+  UsageUnitType,
+} from '../types';
+import {
+  resolveModelPricing,
+  costPerMillion,
+  calculateDiscrepancyPercent,
+  PricingMatch,
+} from '../pricing';
+import { buildCostTimeSeries, DatedCost } from '../timeseries';
+
+// OpenAI API has a limit of 31 days per request with daily buckets
+// For longer periods, we need to chunk into 31-day windows
+const SECONDS_PER_DAY = 86400;
+const MAX_DAYS_PER_REQUEST = 30; // Use 30 to be safe (API limit is 31)
+const MAX_SECONDS_PER_REQUEST = MAX_DAYS_PER_REQUEST * SECONDS_PER_DAY;
+
+interface TimeChunk {
+  start: number;  // Unix timestamp (seconds)
+  end: number;
+}
+
+/**
+ * An Admin API usage endpoint and how its results are priced
+ */
+interface UsageEndpoint {
+  category: UsageCategory;
+  path: string;
+  groupByModel: boolean;    // Endpoints without models only group by project
+  rateKey: string;          // Catalog rate used to price this usage
+  unitType?: UsageUnitType; // Non-token usage (omit for token-based endpoints)
+  defaultModel?: string;    // Catalog key for endpoints that report no model
+  label?: string;           // Display name for endpoints that report no model
+}
+
+const USAGE_ENDPOINTS: UsageEndpoint[] = [
+  { category: 'completions', path: '/usage/completions', groupByModel: true, rateKey: 'input' },
+  { category: 'embeddings', path: '/usage/embeddings', groupByModel: true, rateKey: 'input' },
+  { category: 'moderations', path: '/usage/moderations', groupByModel: true, rateKey: 'input' },
+  { category: 'images', path: '/usage/images', groupByModel: true, rateKey: 'per_image', unitType: 'images' },
+  { category: 'audio_speeches', path: '/usage/audio_speeches', groupByModel: true, rateKey: 'per_1m_characters', unitType: 'characters' },
+  { category: 'audio_transcriptions', path: '/usage/audio_transcriptions', groupByModel: true, rateKey: 'per_minute', unitType: 'audio_minutes' },
+  {
+    category: 'vector_stores',
+    path: '/usage/vector_stores',
+    groupByModel: false,
+    rateKey: 'per_gb_day',
+    unitType: 'gb_days',
+    defaultModel: 'vector-store',
+    label: 'Vector Store Storage',
+  },
+  {
+    category: 'code_interpreter_sessions',
+    path: '/usage/code_interpreter_sessions',
+    groupByModel: false,
+    rateKey: 'per_session',
+    unitType: 'sessions',
+    defaultModel: 'code-interpreter',
+    label: 'Code Interpreter Sessions',
+  },
+];
 
 export class OpenAIProvider implements ILLMProvider {
   public readonly id = 'openai';
   public readonly name = 'OpenAI';
   public readonly supportsWorkspaces = true;
+  public readonly capabilities: ProviderCapabilities = {
+    reportsCosts: true,
+    dateRange: true,
+    projectCosts: true,
+    dailyGranularity: true,
+    costSource: 'billed',
+    usageUnit: 'tokens',
+    timeSeries: ['day', 'hour'],
+  };
 
   // Workspace configurations - detected dynamically from environment variables
   private readonly workspaces: Workspace[] = [];
@@ -169,286 +260,115 @@ export class OpenAIProvider implements ILLMProvider {
     }
 
     try {
-      // Convert dates to Unix timestamps (seconds) as required by OpenAI usage API
-      const startTimestamp = Math.floor(new Date(startDate).getTime() / 1000);
-      const endTimestamp = Math.floor(new Date(endDate).getTime() / 1000);
-      
       const scope = projectId ? `project ${projectId}` : 'all projects (workspace total)';
       console.log(`[OpenAI] Fetching usage for ${scope} from ${startDate} to ${endDate}`);
 
-      // OpenAI API has a limit of 31 days per request with daily buckets
-      // For longer periods, we need to chunk into 31-day windows
-      const SECONDS_PER_DAY = 86400;
-      const MAX_DAYS_PER_REQUEST = 30; // Use 30 to be safe (API limit is 31)
-      const MAX_SECONDS_PER_REQUEST = MAX_DAYS_PER_REQUEST * SECONDS_PER_DAY;
-
-      // Generate time chunks
-      const timeChunks: { start: number; end: number }[] = [];
-      let chunkStart = startTimestamp;
-      while (chunkStart < endTimestamp) {
-        const chunkEnd = Math.min(chunkStart + MAX_SECONDS_PER_REQUEST, endTimestamp);
-        timeChunks.push({ start: chunkStart, end: chunkEnd });
-        chunkStart = chunkEnd;
+      const timeChunks = this.getTimeChunks(startDate, endDate);
+      const { buckets: usageBuckets, missing } = await this.fetchUsageBuckets(workspace, projectId, timeChunks, {});
+      if (missing.length > 0) {
+        console.warn(`[OpenAI] Partial usage: ${missing.length} time window(s) missing`);
       }
 
-      console.log(`[OpenAI] Date range requires ${timeChunks.length} time chunk(s)`);
-
-      // Helper function to fetch ALL pages for a single time chunk
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const fetchAllPagesForChunk = async (chunk: { start: number; end: number }): Promise<any[]> => {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const allChunkBuckets: any[] = [];
-        let nextPage: string | null = null;
-        let pageCount = 0;
-        const MAX_PAGES_PER_CHUNK = 50; // Safety limit
-        
-        do {
-          const queryParams = new URLSearchParams({
-            start_time: chunk.start.toString(),
-            end_time: chunk.end.toString(),
-            group_by: 'model', // Get model-level breakdown
-          });
-          
-          // Only add project_ids if specified (omit for workspace-wide totals)
-          if (projectId) {
-            queryParams.set('project_ids', projectId);
-          }
-          
-          // Add pagination token if we have one
-          if (nextPage) {
-            queryParams.set('page', nextPage);
-          }
-
-          let success = false;
-          for (let attempt = 1; attempt <= 3; attempt++) {
-            try {
-              const response = await this.fetchOpenAI(
-                `/usage/completions?${queryParams.toString()}`,
-                workspace,
-                {},
-                true // isAdminAPI
-              );
-
-              const data = await response.json();
-              
-              // Collect buckets from this page
-              if (data.data && Array.isArray(data.data)) {
-                allChunkBuckets.push(...data.data);
-              }
-              
-              // Check for more pages
-              nextPage = data.has_more ? data.next_page : null;
-              pageCount++;
-              success = true;
-              break;
-            } catch (error) {
-              const errorMsg = error instanceof Error ? error.message : String(error);
-              
-              if (errorMsg.includes('404')) {
-                throw new Error(`OpenAI usage endpoint not found.`);
-              } else if (errorMsg.includes('403')) {
-                throw new Error(`OpenAI API permission denied. Check API key scopes.`);
-              }
-              
-              // Retry on 503 or timeout errors
-              if (attempt < 3 && (errorMsg.includes('503') || errorMsg.includes('timeout'))) {
-                console.log(`[OpenAI] Page request failed (attempt ${attempt}/3), retrying in ${attempt * 2}s...`);
-                await new Promise(resolve => setTimeout(resolve, attempt * 2000));
-                continue;
-              }
-              throw error;
-            }
-          }
-          
-          if (!success) {
-            break;
-          }
-        } while (nextPage && pageCount < MAX_PAGES_PER_CHUNK);
-        
-        return allChunkBuckets;
-      };
-
-      // Fetch chunks SEQUENTIALLY to avoid overwhelming the API and hitting timeouts
-      // The API has pagination within each chunk, so parallel requests cause too many concurrent connections
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const allBuckets: any[] = [];
-      
-      for (let i = 0; i < timeChunks.length; i++) {
-        const chunk = timeChunks[i];
-        const startStr = new Date(chunk.start * 1000).toISOString().split('T')[0];
-        const endStr = new Date(chunk.end * 1000).toISOString().split('T')[0];
-        console.log(`[OpenAI] Fetching chunk ${i + 1}/${timeChunks.length}: ${startStr} to ${endStr}`);
-        
-        try {
-          const chunkBuckets = await fetchAllPagesForChunk(chunk);
-          allBuckets.push(...chunkBuckets);
-          console.log(`[OpenAI] Chunk ${i + 1} returned ${chunkBuckets.length} buckets`);
-        } catch (error) {
-          // Log error but continue with other chunks
-          console.error(`[OpenAI] Chunk ${i + 1} failed:`, error instanceof Error ? error.message : error);
-          // Re-throw to stop processing - partial data would be confusing
-          throw error;
-        }
-      }
-
-      console.log(`[OpenAI] Fetched all ${timeChunks.length} chunks, collected ${allBuckets.length} total buckets`);
-      
       // Debug: Log detailed bucket structure to understand the API response
-      if (allBuckets.length > 0) {
-        console.log(`[OpenAI] Sample bucket (first):`, JSON.stringify(allBuckets[0], null, 2));
-        console.log(`[OpenAI] Sample bucket (last):`, JSON.stringify(allBuckets[allBuckets.length - 1], null, 2));
-        console.log(`[OpenAI] All bucket keys:`, [...new Set(allBuckets.flatMap(b => Object.keys(b)))]);
+      if (usageBuckets.length > 0) {
+        console.log(`[OpenAI] Sample bucket (first):`, JSON.stringify(usageBuckets[0].bucket, null, 2));
+        console.log(`[OpenAI] All bucket keys:`, [...new Set(usageBuckets.flatMap(b => Object.keys(b.bucket)))]);
       }
 
       // OpenAI Usage API returns buckets with results containing token counts
-      // We need to calculate costs from tokens using model-specific pricing
-      // Pricing per 1M tokens (as of late 2024):
-      const MODEL_PRICING: Record<string, { input: number; output: number }> = {
-        // GPT-4o
-        'gpt-4o': { input: 2.50, output: 10.00 },
-        'gpt-4o-2024-11-20': { input: 2.50, output: 10.00 },
-        'gpt-4o-2024-08-06': { input: 2.50, output: 10.00 },
-        'gpt-4o-2024-05-13': { input: 5.00, output: 15.00 },
-        // GPT-4o mini
-        'gpt-4o-mini': { input: 0.15, output: 0.60 },
-        'gpt-4o-mini-2024-07-18': { input: 0.15, output: 0.60 },
-        // GPT-4 Turbo
-        'gpt-4-turbo': { input: 10.00, output: 30.00 },
-        'gpt-4-turbo-preview': { input: 10.00, output: 30.00 },
-        'gpt-4-1106-preview': { input: 10.00, output: 30.00 },
-        // GPT-4
-        'gpt-4': { input: 30.00, output: 60.00 },
-        'gpt-4-0613': { input: 30.00, output: 60.00 },
-        // GPT-3.5 Turbo
-        'gpt-3.5-turbo': { input: 0.50, output: 1.50 },
-        'gpt-3.5-turbo-0125': { input: 0.50, output: 1.50 },
-        'gpt-3.5-turbo-1106': { input: 1.00, output: 2.00 },
-        // Embeddings
-        'text-embedding-3-small': { input: 0.02, output: 0 },
-        'text-embedding-3-large': { input: 0.13, output: 0 },
-        'text-embedding-ada-002': { input: 0.10, output: 0 },
-        // Default fallback
-        'default': { input: 2.50, output: 10.00 },
-      };
-
+      // (or images, characters, seconds... depending on the endpoint).
+      // Costs are calculated using the pricing catalog, each daily bucket
+      // being priced with the rates in force on that day.
       const breakdown: ModelCost[] = [];
       let totalCost = 0;
       let totalInputTokens = 0;
       let totalOutputTokens = 0;
       let totalRequests = 0;
 
-      // Group by model and sum tokens/requests
-      const modelMap = new Map<string, { 
-        inputTokens: number; 
-        outputTokens: number; 
+      // Group by category + model and sum usage/requests/cost
+      const modelMap = new Map<string, {
+        endpoint: UsageEndpoint;
+        model: string;
+        inputTokens: number;
+        outputTokens: number;
+        cachedInputTokens: number;
+        units: number;
         requests: number;
+        cost: number;
+        pricingSource: PricingMatch;
       }>();
 
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const addResult = (endpoint: UsageEndpoint, result: any, bucketDate: string) => {
+        const model = result.model || endpoint.defaultModel || 'unknown';
+        const requests = result.num_model_requests || 0;
+
+        const { rates, match } = resolveModelPricing(this.id, model, bucketDate, endpoint.rateKey);
+        const usage = this.measureUsage(endpoint.category, result, rates);
+
+        totalInputTokens += usage.inputTokens;
+        totalOutputTokens += usage.outputTokens;
+        totalRequests += requests;
+
+        const mapKey = `${endpoint.category}:${model}`;
+        const existing = modelMap.get(mapKey);
+        if (existing) {
+          existing.inputTokens += usage.inputTokens;
+          existing.outputTokens += usage.outputTokens;
+          existing.cachedInputTokens += usage.cachedInputTokens;
+          existing.units += usage.units;
+          existing.requests += requests;
+          existing.cost += usage.cost;
+        } else {
+          modelMap.set(mapKey, { endpoint, model, ...usage, requests, pricingSource: match });
+        }
+      };
+
       // Parse all collected buckets from pagination
       let bucketsWithResults = 0;
       let bucketsWithoutResults = 0;
       let totalResultsProcessed = 0;
-      
-      for (const bucket of allBuckets) {
-        // Check multiple possible data structures
-        // Structure 1: bucket.results[] array (original expected)
-        // Structure 2: bucket itself contains the fields directly
-        // Structure 3: bucket is the result object
-        
-        if (bucket.results && Array.isArray(bucket.results)) {
-          bucketsWithResults++;
-          for (const result of bucket.results) {
-            const model = result.model || 'unknown';
-            const inputTokens = result.input_tokens || 0;
-            const outputTokens = result.output_tokens || 0;
-            const requests = result.num_model_requests || 0;
-
-            totalInputTokens += inputTokens;
-            totalOutputTokens += outputTokens;
-            totalRequests += requests;
-            totalResultsProcessed++;
 
-            const existing = modelMap.get(model);
-            if (existing) {
-              existing.inputTokens += inputTokens;
-              existing.outputTokens += outputTokens;
-              existing.requests += requests;
-            } else {
-              modelMap.set(model, { inputTokens, outputTokens, requests });
-            }
-          }
-        } else if (bucket.input_tokens !== undefined || bucket.output_tokens !== undefined) {
-          // Direct structure - bucket IS the result
+      for (const { endpoint, bucket } of usageBuckets) {
+        const bucketDate = bucket.start_time
+          ? new Date(bucket.start_time * 1000).toISOString()
+          : startDate;
+
+        const results = this.getBucketResults(bucket);
+        if (results) {
           bucketsWithResults++;
-          const model = bucket.model || 'unknown';
-          const inputTokens = bucket.input_tokens || 0;
-          const outputTokens = bucket.output_tokens || 0;
-          const requests = bucket.num_model_requests || 0;
-
-          totalInputTokens += inputTokens;
-          totalOutputTokens += outputTokens;
-          totalRequests += requests;
-          totalResultsProcessed++;
-
-          const existing = modelMap.get(model);
-          if (existing) {
-            existing.inputTokens += inputTokens;
-            existing.outputTokens += outputTokens;
-            existing.requests += requests;
-          } else {
-            modelMap.set(model, { inputTokens, outputTokens, requests });
+          for (const result of results) {
+            addResult(endpoint, result, bucketDate);
+            totalResultsProcessed++;
           }
         } else {
           bucketsWithoutResults++;
         }
       }
-      
+
       console.log(`[OpenAI] Parsed ${bucketsWithResults} buckets with data, ${bucketsWithoutResults} empty, ${totalResultsProcessed} total results`);
       console.log(`[OpenAI] Models found:`, [...modelMap.keys()]);
 
-      // Calculate costs for each model using model-specific pricing
-      for (const [model, { inputTokens, outputTokens, requests }] of modelMap.entries()) {
-        // Find the best matching pricing (try exact match, then prefix match, then default)
-        let pricing = MODEL_PRICING[model];
-        if (!pricing) {
-          // Try to find a prefix match (e.g., 'gpt-4o-2024-11-20' matches 'gpt-4o')
-          const modelPrefix = Object.keys(MODEL_PRICING).find(key => 
-            model.startsWith(key) || key.startsWith(model.split('-').slice(0, 2).join('-'))
-          );
-          pricing = modelPrefix ? MODEL_PRICING[modelPrefix] : MODEL_PRICING['default'];
-        }
-
-        const inputCost = (inputTokens / 1_000_000) * pricing.input;
-        const outputCost = (outputTokens / 1_000_000) * pricing.output;
-        const modelCost = inputCost + outputCost;
-
-        // Create a readable model name
-        let displayName = model;
-        if (model === 'unknown' || model === null) {
-          displayName = 'Unknown Model';
-        }
-
-        breakdown.push({
-          model: displayName,
-          cost_usd: modelCost,
+      for (const { endpoint, model, inputTokens, outputTokens, cachedInputTokens, units, requests, cost, pricingSource } of modelMap.values()) {
+        const row: ModelCost = {
+          model: this.getDisplayName(endpoint, model),
+          cost_usd: cost,
           requests,
-        });
+          pricing_source: pricingSource,
+          category: endpoint.category,
+        };
 
-        totalCost += modelCost;
-      }
+        if (endpoint.unitType) {
+          row.units = units;
+          row.unit_type = endpoint.unitType;
+        } else {
+          row.input_tokens = inputTokens;
+          row.output_tokens = outputTokens;
+          row.cached_input_tokens = cachedInputTokens;
+        }
 
-      // If no breakdown but we have totals, create a summary entry
-      if (breakdown.length === 0 && (totalInputTokens > 0 || totalOutputTokens > 0)) {
-        const defaultPricing = MODEL_PRICING['default'];
-        const inputCost = (totalInputTokens / 1_000_000) * defaultPricing.input;
-        const outputCost = (totalOutputTokens / 1_000_000) * defaultPricing.output;
-        totalCost = inputCost + outputCost;
-        
-        breakdown.push({
-          model: 'All Models (aggregated)',
-          cost_usd: totalCost,
-          requests: totalRequests,
-        });
+        breakdown.push(row);
+        totalCost += cost;
       }
 
       // Log the calculated totals
@@ -457,10 +377,45 @@ export class OpenAIProvider implements ILLMProvider {
       // Sort breakdown by cost (descending)
       breakdown.sort((a, b) => b.cost_usd - a.cost_usd);
 
+      // Billed amounts are optional: keys without access to the Costs API
+      // still get the token-based estimate
+      let billed: { total: number; breakdown: ModelCost[] } | null = null;
+      try {
+        const costs = await this.fetchAllChunks('/costs', workspace, projectId, timeChunks, {
+          group_by: 'line_item',
+          limit: MAX_DAYS_PER_REQUEST.toString(), // One bucket per day
+        });
+        if (costs.missing.length > 0) {
+          // A partial billed total would understate the month
+          throw new Error(`${costs.missing.length} time window(s) missing`);
+        }
+        billed = this.parseCostBuckets(costs.buckets);
+        console.log(`[OpenAI] Billed: $${billed.total.toFixed(2)} across ${billed.breakdown.length} line item(s)`);
+      } catch (costsError) {
+        console.error('[OpenAI] Costs API unavailable, using token estimate only:', costsError instanceof Error ? costsError.message : costsError);
+      }
+
+      if (!billed) {
+        return {
+          total_cost_usd: totalCost,
+          last_updated: new Date().toISOString(),
+          breakdown,
+          missing: missing.length > 0 ? missing : undefined,
+          estimated_cost_usd: totalCost,
+        };
+      }
+
+      // The billed total is complete: missing usage only affects the breakdown
+      // and the estimate, which is then not compared with the billed amount
       return {
-        total_cost_usd: totalCost,
+        total_cost_usd: billed.total,
         last_updated: new Date().toISOString(),
         breakdown,
+        breakdown_missing: missing.length > 0 ? missing : undefined,
+        billed_cost_usd: billed.total,
+        estimated_cost_usd: totalCost,
+        discrepancy_percent: missing.length > 0 ? undefined : calculateDiscrepancyPercent(billed.total, totalCost),
+        billed_breakdown: billed.breakdown,
       };
     } catch (error) {
       if (error instanceof Error) {
@@ -469,4 +424,404 @@ export class OpenAIProvider implements ILLMProvider {
       throw error;
     }
   }
+
+  /**
+   * Get usage-based costs per day (or per hour) and per model
+   *
+   * The Costs API only has daily buckets per line item, so the series is
+   * always the catalog estimate, even when getCosts reports billed amounts.
+   *
+   * @param params - Cost query parameters
+   * @param granularity - 'day' or 'hour' (hourly usage buckets)
+   */
+  async getCostTimeSeries(params: CostParams, granularity: TimeSeriesGranularity): Promise<CostTimeSeries> {
+    const { workspace, projectId, startDate, endDate } = params;
+
+    if (!workspace) {
+      throw new Error('Workspace is required for OpenAI provider');
+    }
+
+    try {
+      console.log(`[OpenAI] Fetching ${granularity} usage series from ${startDate} to ${endDate}`);
+
+      const timeChunks = this.getTimeChunks(startDate, endDate);
+      // Missing windows are left empty in the series
+      const { buckets: usageBuckets } = await this.fetchUsageBuckets(
+        workspace,
+        projectId,
+        timeChunks,
+        granularity === 'hour' ? { bucket_width: '1h', limit: '168' } : {}
+      );
+
+      const costs: DatedCost[] = [];
+      for (const { endpoint, bucket } of usageBuckets) {
+        const bucketDate = bucket.start_time
+          ? new Date(bucket.start_time * 1000).toISOString()
+          : startDate;
+
+        for (const result of this.getBucketResults(bucket) || []) {
+          const model = result.model || endpoint.defaultModel || 'unknown';
+          const { rates } = resolveModelPricing(this.id, model, bucketDate, endpoint.rateKey);
+          const { cost } = this.measureUsage(endpoint.category, result, rates);
+
+          // Vector store buckets are storage snapshots priced per GB-day
+          const share = endpoint.category === 'vector_stores' && granularity === 'hour' ? 1 / 24 : 1;
+
+          costs.push({
+            timestamp: bucketDate,
+            model: this.getDisplayName(endpoint, model),
+            cost_usd: cost * share,
+          });
+        }
+      }
+
+      return buildCostTimeSeries(costs, granularity, startDate, endDate, 'estimated');
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to fetch cost series: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Split a date range into windows accepted by the Admin API
+   * (31 days max per request with daily buckets)
+   */
+  private getTimeChunks(startDate: string, endDate: string): TimeChunk[] {
+    // Convert dates to Unix timestamps (seconds) as required by OpenAI usage API.
+    // endDate is inclusive: end_time is the start of the following day
+    const startTimestamp = Math.floor(new Date(startDate).getTime() / 1000);
+    const endTimestamp = Math.floor(new Date(`${endDate.split('T')[0]}T00:00:00Z`).getTime() / 1000) + SECONDS_PER_DAY;
+
+    const timeChunks: TimeChunk[] = [];
+    let chunkStart = startTimestamp;
+    while (chunkStart < endTimestamp) {
+      const chunkEnd = Math.min(chunkStart + MAX_SECONDS_PER_REQUEST, endTimestamp);
+      timeChunks.push({ start: chunkStart, end: chunkEnd });
+      chunkStart = chunkEnd;
+    }
+
+    console.log(`[OpenAI] Date range requires ${timeChunks.length} time chunk(s)`);
+    return timeChunks;
+  }
+
+  /**
+   * Fetch ALL pages of an Admin API endpoint for a single time chunk
+   *
+   * When a page fails after the first one, or the page limit is reached, the
+   * buckets fetched so far are returned with the reason in `truncated`.
+   */
+  private async fetchAllPagesForChunk(
+    path: string,
+    workspace: string,
+    projectId: string | undefined,
+    chunk: TimeChunk,
+    extraParams: Record<string, string>
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  ): Promise<{ buckets: any[]; truncated?: string }> {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const allChunkBuckets: any[] = [];
+    let nextPage: string | null = null;
+    let pageCount = 0;
+    const MAX_PAGES_PER_CHUNK = 50; // Safety limit
+
+    do {
+      const queryParams = new URLSearchParams({
+        start_time: chunk.start.toString(),
+        end_time: chunk.end.toString(),
+        ...extraParams,
+      });
+
+      // Only add project_ids if specified (omit for workspace-wide totals)
+      if (projectId) {
+        queryParams.set('project_ids', projectId);
+      }
+
+      // Add pagination token if we have one
+      if (nextPage) {
+        queryParams.set('page', nextPage);
+      }
+
+      let success = false;
+      for (let attempt = 1; attempt <= 3; attempt++) {
+        try {
+          const response = await this.fetchOpenAI(
+            `${path}?${queryParams.toString()}`,
+            workspace,
+            {},
+            true // isAdminAPI
+          );
+
+          const data = await response.json();
+
+          // Collect buckets from this page
+          if (data.data && Array.isArray(data.data)) {
+            allChunkBuckets.push(...data.data);
+          }
+
+          // Check for more pages
+          nextPage = data.has_more ? data.next_page : null;
+          pageCount++;
+          success = true;
+          break;
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : String(error);
+
+          if (errorMsg.includes('404')) {
+            throw new Error(`OpenAI endpoint ${path} not found.`);
+          } else if (errorMsg.includes('403')) {
+            throw new Error(`OpenAI API permission denied. Check API key scopes.`);
+          }
+
+          // Retry on 503 or timeout errors
+          if (attempt < 3 && (errorMsg.includes('503') || errorMsg.includes('timeout'))) {
+            console.log(`[OpenAI] Page request failed (attempt ${attempt}/3), retrying in ${attempt * 2}s...`);
+            await new Promise(resolve => setTimeout(resolve, attempt * 2000));
+            continue;
+          }
+
+          // Keep the pages already fetched
+          if (pageCount > 0) {
+            console.error(`[OpenAI] Page ${pageCount + 1} failed, keeping ${pageCount} page(s):`, errorMsg);
+            return { buckets: allChunkBuckets, truncated: `page ${pageCount + 1}: ${errorMsg}` };
+          }
+          throw error;
+        }
+      }
+
+      if (!success) {
+        break;
+      }
+    } while (nextPage && pageCount < MAX_PAGES_PER_CHUNK);
+
+    if (nextPage) {
+      console.warn(`[OpenAI] ${path}: page limit (${MAX_PAGES_PER_CHUNK}) reached, results are truncated`);
+      return { buckets: allChunkBuckets, truncated: `page limit (${MAX_PAGES_PER_CHUNK}) reached` };
+    }
+
+    return { buckets: allChunkBuckets };
+  }
+
+  /**
+   * Fetch an Admin API endpoint over all time chunks
+   *
+   * Chunks are fetched SEQUENTIALLY to avoid overwhelming the API and hitting timeouts:
+   * the API has pagination within each chunk, so parallel requests cause too many concurrent connections
+   *
+   * A failed or truncated chunk is listed in `missing` and the other chunks
+   * are still fetched; the request only fails when every chunk failed or
+   * the endpoint is not accessible.
+   */
+  private async fetchAllChunks(
+    path: string,
+    workspace: string,
+    projectId: string | undefined,
+    timeChunks: TimeChunk[],
+    extraParams: Record<string, string>
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  ): Promise<{ buckets: any[]; missing: MissingRange[] }> {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const buckets: any[] = [];
+    const missing: MissingRange[] = [];
+    let failedChunks = 0;
+    let lastError: unknown;
+
+    for (let i = 0; i < timeChunks.length; i++) {
+      const chunk = timeChunks[i];
+      const startStr = new Date(chunk.start * 1000).toISOString().split('T')[0];
+      const endStr = new Date(chunk.end * 1000).toISOString().split('T')[0];
+      // chunk.end is exclusive
+      const lastDay = new Date((chunk.end - 1) * 1000).toISOString().split('T')[0];
+      console.log(`[OpenAI] Fetching ${path} chunk ${i + 1}/${timeChunks.length}: ${startStr} to ${endStr}`);
+
+      try {
+        const chunkResult = await this.fetchAllPagesForChunk(path, workspace, projectId, chunk, extraParams);
+        buckets.push(...chunkResult.buckets);
+        if (chunkResult.truncated) {
+          missing.push({ startDate: startStr, endDate: lastDay, source: path, reason: chunkResult.truncated });
+        }
+        console.log(`[OpenAI] Chunk ${i + 1} returned ${chunkResult.buckets.length} buckets`);
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+
+        // Access errors would fail every chunk the same way
+        if (errorMsg.includes('not found') || errorMsg.includes('permission denied')) {
+          throw error;
+        }
+
+        // Log error but continue with other chunks
+        console.error(`[OpenAI] Chunk ${i + 1} failed:`, errorMsg);
+        missing.push({ startDate: startStr, endDate: lastDay, source: path, reason: errorMsg });
+        failedChunks++;
+        lastError = error;
+      }
+    }
+
+    if (failedChunks === timeChunks.length && lastError) {
+      throw lastError;
+    }
+
+    return { buckets, missing };
+  }
+
+  /**
+   * Fetch the buckets of every usage endpoint
+   *
+   * Completions are required; the other usage endpoints are best effort
+   * (organizations without access to a feature may get an error for it)
+   *
+   * @returns The buckets, and the time windows missing from them
+   */
+  private async fetchUsageBuckets(
+    workspace: string,
+    projectId: string | undefined,
+    timeChunks: TimeChunk[],
+    extraParams: Record<string, string>
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  ): Promise<{ buckets: Array<{ endpoint: UsageEndpoint; bucket: any }>; missing: MissingRange[] }> {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const usageBuckets: Array<{ endpoint: UsageEndpoint; bucket: any }> = [];
+    const missing: MissingRange[] = [];
+
+    for (const endpoint of USAGE_ENDPOINTS) {
+      try {
+        const { buckets, missing: endpointMissing } = await this.fetchAllChunks(
+          endpoint.path,
+          workspace,
+          projectId,
+          timeChunks,
+          endpoint.groupByModel ? { ...extraParams, group_by: 'model' } : extraParams
+        );
+        usageBuckets.push(...buckets.map(bucket => ({ endpoint, bucket })));
+        missing.push(...endpointMissing);
+        console.log(`[OpenAI] ${endpoint.category}: collected ${buckets.length} buckets`);
+      } catch (error) {
+        if (endpoint.category === 'completions') {
+          throw error;
+        }
+        console.error(`[OpenAI] Skipping ${endpoint.category} usage:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    console.log(`[OpenAI] Fetched ${USAGE_ENDPOINTS.length} usage endpoints, collected ${usageBuckets.length} total buckets`);
+    return { buckets: usageBuckets, missing };
+  }
+
+  /**
+   * Results of a usage bucket, or null for an empty bucket
+   *
+   * Checks multiple possible data structures:
+   * - bucket.results[] array (original expected)
+   * - bucket itself contains the fields directly
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private getBucketResults(bucket: any): any[] | null {
+    if (bucket.results && Array.isArray(bucket.results)) {
+      return bucket.results;
+    }
+    if (bucket.object && bucket.object !== 'bucket') {
+      // Direct structure - bucket IS the result
+      return [bucket];
+    }
+    return null;
+  }
+
+  /**
+   * Readable model name for a usage result
+   */
+  private getDisplayName(endpoint: UsageEndpoint, model: string): string {
+    if (model === 'unknown' || model === null) {
+      return 'Unknown Model';
+    }
+    return endpoint.label || model;
+  }
+
+  /**
+   * Measure and price one usage result according to its endpoint
+   *
+   * Vector store results are a daily snapshot of the stored bytes, so summing
+   * the daily buckets gives GB-days.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private measureUsage(category: UsageCategory, result: any, rates: Record<string, number>) {
+    const usage = { inputTokens: 0, outputTokens: 0, cachedInputTokens: 0, units: 0, cost: 0 };
+
+    switch (category) {
+      case 'completions':
+        usage.inputTokens = result.input_tokens || 0;
+        usage.outputTokens = result.output_tokens || 0;
+        usage.cachedInputTokens = result.input_cached_tokens || 0;
+        // Cached input tokens are billed at the cached rate when the catalog has one
+        usage.cost =
+          costPerMillion(usage.inputTokens - usage.cachedInputTokens, rates.input) +
+          costPerMillion(usage.cachedInputTokens, rates.cached_input ?? rates.input) +
+          costPerMillion(usage.outputTokens, rates.output);
+        break;
+      case 'embeddings':
+      case 'moderations':
+        usage.inputTokens = result.input_tokens || 0;
+        usage.cost = costPerMillion(usage.inputTokens, rates.input);
+        break;
+      case 'images':
+        usage.units = result.images || 0;
+        usage.cost = usage.units * (rates.per_image || 0);
+        break;
+      case 'audio_speeches':
+        usage.units = result.characters || 0;
+        usage.cost = costPerMillion(usage.units, rates.per_1m_characters);
+        break;
+      case 'audio_transcriptions':
+        usage.units = (result.seconds || 0) / 60;
+        usage.cost = usage.units * (rates.per_minute || 0);
+        break;
+      case 'vector_stores':
+        usage.units = (result.usage_bytes || 0) / 1_000_000_000;
+        usage.cost = usage.units * (rates.per_gb_day || 0);
+        break;
+      case 'code_interpreter_sessions':
+        usage.units = result.num_sessions ?? result.sessions ?? 0;
+        usage.cost = usage.units * (rates.per_session || 0);
+        break;
+    }
+
+    return usage;
+  }
+
+  /**
+   * Sum Costs API buckets per line item
+   *
+   * Each bucket result looks like:
+   *   { amount: { value: 0.42, currency: 'usd' }, line_item: 'gpt-4o, input', project_id: '...' }
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private parseCostBuckets(buckets: any[]): { total: number; breakdown: ModelCost[] } {
+    const lineItems = new Map<string, number>();
+
+    for (const bucket of buckets) {
+      const results = Array.isArray(bucket.results) ? bucket.results : [];
+      for (const result of results) {
+        const value = Number(result.amount?.value ?? 0);
+        if (!Number.isFinite(value)) {
+          continue;
+        }
+        const lineItem = result.line_item || 'Other';
+        lineItems.set(lineItem, (lineItems.get(lineItem) || 0) + value);
+      }
+    }
+
+    const breakdown: ModelCost[] = Array.from(lineItems.entries())
+      .map(([lineItem, cost]) => ({
+        model: lineItem,
+        cost_usd: cost,
+        requests: 0, // The Costs API only reports amounts
+        pricing_source: 'provider' as const,
+      }))
+      .sort((a, b) => b.cost_usd - a.cost_usd);
+
+    return {
+      total: breakdown.reduce((sum, item) => sum + item.cost_usd, 0),
+      breakdown,
+    };
+  }
 }
@@ -7,12 +7,21 @@
  */
 
 import { ILLMProvider } from './interface';
-import { Workspace, Project, CostParams, CostData, ModelCost } from '../types';
+import { Workspace, Project, CostParams, CostData, ModelCost, ProviderCapabilities } from '../types';
 
 export class OpenRouterProvider implements ILLMProvider {
   public readonly id = 'openrouter';
   public readonly name = 'OpenRouter';
   public readonly supportsWorkspaces = false; // Single account model
+  public readonly capabilities: ProviderCapabilities = {
+    reportsCosts: true,
+    dateRange: false, // Only today / last 7 days / last 30 days / total
+    projectCosts: false,
+    dailyGranularity: false,
+    costSource: 'billed',
+    usageUnit: null, // Credits spent, no usage volumes
+    timeSeries: [],
+  };
 
   private readonly apiKey: string;
   private readonly BASE_URL = 'https://openrouter.ai/api/v1';
@@ -120,6 +129,7 @@ export class OpenRouterProvider implements ILLMProvider {
           model: `Usage (${periodLabel})`,
           cost_usd: periodUsage,
           requests: 0, // OpenRouter doesn't provide request count in this endpoint
+          pricing_source: 'provider',
         });
       }
 
@@ -0,0 +1,17 @@
+/**
+ * Provider Plugins
+ *
+ * Providers kept in their own modules register themselves with
+ * registerProvider() and are imported here, so that they are loaded
+ * together with the factory:
+ *
+ *   // src/lib/providers/acme.ts
+ *   import { registerProvider } from './registry';
+ *   export class AcmeProvider implements ILLMProvider { ... }
+ *   registerProvider('acme', () => new AcmeProvider());
+ *
+ *   // src/lib/providers/plugins.ts
+ *   import './acme';
+ */
+
+export {};
@@ -0,0 +1,77 @@
+/**
+ * Provider Registry
+ *
+ * Holds the factories of the available providers: built-in providers,
+ * providers declared in PROVIDERS_CONFIG_PATH, and providers living in their
+ * own modules, which register themselves with registerProvider() (see plugins.ts).
+ */
+
+import { ILLMProvider } from './interface';
+import { OpenAIProvider } from './openai';
+import { AnthropicProvider } from './anthropic';
+import { ElevenLabsProvider } from './elevenlabs';
+import { DeepgramProvider } from './deepgram';
+import { OpenRouterProvider } from './openrouter';
+import { GeminiProvider } from './gemini';
+import { MistralProvider } from './mistral';
+import { AzureOpenAIProvider } from './azure-openai';
+import { BedrockProvider } from './bedrock';
+import { OpenAICompatibleProvider, loadProviderConfigs } from './openai-compatible';
+
+// Built-in providers
+const providerRegistry = new Map<string, () => ILLMProvider>([
+  ['openai', () => new OpenAIProvider()],
+  ['anthropic', () => new AnthropicProvider()],
+  ['elevenlabs', () => new ElevenLabsProvider()],
+  ['deepgram', () => new DeepgramProvider()],
+  ['openrouter', () => new OpenRouterProvider()],
+  ['gemini', () => new GeminiProvider()],
+  ['mistral', () => new MistralProvider()],
+  ['azure-openai', () => new AzureOpenAIProvider()],
+  ['bedrock', () => new BedrockProvider()],
+]);
+
+/**
+ * Register a provider
+ *
+ * The factory is called on each use and may throw (e.g. missing API key):
+ * such providers are left out of getAvailableProviders().
+ *
+ * @param id - Unique provider ID (must match the `id` of the created instances)
+ * @param factory - Creates a provider instance
+ * @throws Error if the ID is already registered
+ */
+export function registerProvider(id: string, factory: () => ILLMProvider): void {
+  if (providerRegistry.has(id)) {
+    throw new Error(`Provider '${id}' is already registered`);
+  }
+
+  providerRegistry.set(id, factory);
+}
+
+/**
+ * Get the factory of a registered provider
+ */
+export function getProviderFactory(id: string): (() => ILLMProvider) | undefined {
+  return providerRegistry.get(id);
+}
+
+/**
+ * IDs of all registered providers, in registration order
+ */
+export function listProviderIds(): string[] {
+  return Array.from(providerRegistry.keys());
+}
+
+// Providers declared in PROVIDERS_CONFIG_PATH (OpenAI-compatible / self-hosted services)
+try {
+  for (const config of loadProviderConfigs()) {
+    try {
+      registerProvider(config.id, () => new OpenAICompatibleProvider(config));
+    } catch (error) {
+      console.warn(`Warning: Configured provider '${config.id}' ignored:`, error);
+    }
+  }
+} catch (error) {
+  console.error('[Providers] Configured providers not loaded:', error);
+}
@@ -0,0 +1,204 @@
+/**
+ * Usage storage
+ *
+ * Collected usage entries are saved in a backend selected with STORAGE_BACKEND:
+ * - notion (default): Services + Usages Notion databases
+ * - sqlite: local database file (SQLITE_PATH)
+ * - postgres: Postgres database (DATABASE_URL)
+ *
+ * Summaries and provider snapshots are computed here from the stored
+ * entries, so reports are identical whatever the backend.
+ */
+
+import {
+  buildMonthlySummaries,
+  buildMonthlySummary,
+  buildMonthSnapshots,
+  getCurrentMonth,
+  getPreviousMonth,
+  MonthlySummary,
+  parseBreakdownJson,
+  ProviderSnapshot,
+  Service,
+  UsageEntry,
+  UsageWriteResult,
+} from '../notion';
+import { listPricingFallbacks, PricingFallback } from '../pricing';
+import { NotionUsageStore } from './notion';
+import { PostgresClient } from './postgres';
+import { SqliteClient } from './sqlite';
+import { SqlUsageStore } from './sql';
+import { UsageStore } from './store';
+
+export type { UsageStore } from './store';
+export type {
+  CollectionStatus,
+  IncompleteEntry,
+  MonthlySummary,
+  ProviderSnapshot,
+  Service,
+  UsageData,
+  UsageEntry,
+  UsageEntryPreview,
+  UsageWriteResult,
+} from '../notion';
+export {
+  calculateChangePercent,
+  generateUsageIdentifier,
+  generateUsageKey,
+  getCurrentMonth,
+  getPreviousMonth,
+  MISSING_DATA_LOG_PREFIX,
+  sumBreakdownTokens,
+} from '../notion';
+
+let store: UsageStore | null = null;
+
+/**
+ * Get the configured usage store (created once per process)
+ *
+ * @throws Error if STORAGE_BACKEND is not a known backend
+ */
+export function getUsageStore(): UsageStore {
+  if (store) {
+    return store;
+  }
+
+  const name = (process.env.STORAGE_BACKEND || 'notion').toLowerCase();
+
+  switch (name) {
+    case 'notion':
+      store = new NotionUsageStore();
+      break;
+    case 'sqlite':
+      store = new SqlUsageStore(new SqliteClient());
+      break;
+    case 'postgres':
+      store = new SqlUsageStore(new PostgresClient());
+      break;
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND '${name}' (expected notion, sqlite or postgres)`);
+  }
+
+  console.log(`[Storage] Backend: ${store.name}`);
+  return store;
+}
+
+/**
+ * Check if the usage storage is properly configured
+ */
+export function isStorageConfigured(): boolean {
+  try {
+    return getUsageStore().isConfigured();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Name of the configured backend, for status responses
+ */
+export function getStorageBackendName(): string {
+  return (process.env.STORAGE_BACKEND || 'notion').toLowerCase();
+}
+
+// ============================================================================
+// ENTRIES
+// ============================================================================
+
+export function getOrCreateService(providerId: string, displayName: string): Promise<Service> {
+  return getUsageStore().getOrCreateService(providerId, displayName);
+}
+
+export function createUsageEntry(entry: UsageEntry): Promise<string> {
+  return getUsageStore().createUsageEntry(entry);
+}
+
+export function upsertUsageEntry(entry: UsageEntry): Promise<UsageWriteResult> {
+  return getUsageStore().upsertUsageEntry(entry);
+}
+
+export function removeUsageEntry(id: string): Promise<void> {
+  return getUsageStore().removeUsageEntry(id);
+}
+
+/**
+ * How collected entries are written:
+ * - replace: update the entry with the same key in place (see upsertUsageEntry)
+ * - append: always add a new entry
+ */
+export type UsageWriteMode = 'replace' | 'append';
+
+/**
+ * Save a collected usage entry according to the write mode
+ */
+export async function saveUsageEntry(entry: UsageEntry, mode: UsageWriteMode = 'replace'): Promise<UsageWriteResult> {
+  if (mode === 'append') {
+    return { id: await createUsageEntry(entry), created: true, version: 1 };
+  }
+  return upsertUsageEntry(entry);
+}
+
+// ============================================================================
+// REPORTS
+// ============================================================================
+
+/**
+ * Get aggregated data per provider for a month
+ */
+export async function getMonthSnapshots(month: string): Promise<ProviderSnapshot[]> {
+  return buildMonthSnapshots(month, await getUsageStore().getMonthUsages(month));
+}
+
+/**
+ * Get the summary of a month, compared with the previous month
+ */
+export async function getMonthlySummary(month: string): Promise<{ id: string; data: MonthlySummary } | null> {
+  const usageStore = getUsageStore();
+  const [usages, previousUsages] = await Promise.all([
+    usageStore.getMonthUsages(month),
+    usageStore.getMonthUsages(getPreviousMonth(month)),
+  ]);
+  return buildMonthlySummary(month, usages, previousUsages);
+}
+
+/**
+ * Get the summaries of all collected months, most recent first
+ */
+export async function getAllMonthlySummaries(): Promise<MonthlySummary[]> {
+  return buildMonthlySummaries(await getUsageStore().getAllUsages({ summaryOnly: true }));
+}
+
+/**
+ * Models priced with the 'default' rate in the entries of the last months
+ * (current month included) and still missing from the catalog (see
+ * listPricingFallbacks)
+ */
+export async function getPricingFallbacks(months: number): Promise<PricingFallback[]> {
+  const store = getUsageStore();
+  const monthList = [getCurrentMonth()];
+  while (monthList.length < months) {
+    monthList.push(getPreviousMonth(monthList[monthList.length - 1]));
+  }
+
+  const [usages, services] = await Promise.all([
+    Promise.all(monthList.map(month => store.getMonthUsages(month))).then(lists => lists.flat()),
+    store.getAllServices(),
+  ]);
+  const providerIds = new Map(services.map(service => [service.name, service.providerId]));
+
+  return listPricingFallbacks(usages.map(usage => {
+    // Provider name from the identifier ("2026-01 - OpenAI - ProjectName")
+    const providerName = usage.identifier.split(' - ')[1] || '';
+    const breakdown = parseBreakdownJson(usage.breakdownJson);
+    if (!breakdown) {
+      console.warn(`[Storage] Unreadable breakdown JSON for ${usage.identifier}, left out of the pricing fallbacks`);
+    }
+
+    return {
+      providerId: providerIds.get(providerName) || providerName.toLowerCase(),
+      breakdown: breakdown || [],
+      collectedAt: usage.collectedAt,
+    };
+  }));
+}
@@ -0,0 +1,65 @@
+/**
+ * Notion usage store
+ *
+ * Services and Usages databases (see ../notion). Breakdowns longer than
+ * Notion's rich text limit are truncated to the models that fit, those priced
+ * with an estimated rate first; previous versions of updated entries are in
+ * the Notion page history.
+ */
+
+import {
+  archiveUsageEntry,
+  createUsageEntry,
+  getAllServices,
+  getAllUsages,
+  getMonthUsages,
+  getMonthUsagesByProvider,
+  getOrCreateService,
+  isNotionConfigured,
+  Service,
+  upsertUsageEntry,
+  UsageData,
+  UsageEntry,
+  UsageWriteResult,
+} from '../notion';
+import { UsageStore } from './store';
+
+export class NotionUsageStore implements UsageStore {
+  public readonly name = 'notion';
+
+  isConfigured(): boolean {
+    return isNotionConfigured();
+  }
+
+  getOrCreateService(providerId: string, displayName: string): Promise<Service> {
+    return getOrCreateService(providerId, displayName);
+  }
+
+  getAllServices(): Promise<Service[]> {
+    return getAllServices();
+  }
+
+  createUsageEntry(entry: UsageEntry): Promise<string> {
+    return createUsageEntry(entry);
+  }
+
+  upsertUsageEntry(entry: UsageEntry): Promise<UsageWriteResult> {
+    return upsertUsageEntry(entry);
+  }
+
+  removeUsageEntry(id: string): Promise<void> {
+    return archiveUsageEntry(id);
+  }
+
+  getMonthUsages(month: string): Promise<UsageData[]> {
+    return getMonthUsages(month);
+  }
+
+  getMonthUsagesByProvider(month: string, providerId: string): Promise<UsageData[]> {
+    return getMonthUsagesByProvider(month, providerId);
+  }
+
+  getAllUsages(options?: { summaryOnly?: boolean }): Promise<UsageData[]> {
+    return getAllUsages(options);
+  }
+}
@@ -0,0 +1,394 @@
+/**
+ * SQL usage store
+ *
+ * Normalized tables, created on first use:
+ * - services: one row per provider
+ * - usages: one row per collected entry (provider + project/workspace + month)
+ * - usage_models: the entry's model breakdown, one row per model (never truncated)
+ * - usage_versions: previous versions of entries updated by later collections
+ *
+ * The SQL is shared by SQLite and Postgres: parameters are written $1, $2...
+ * and IDs are UUIDs generated here, so no dialect-specific syntax is needed.
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  generateUsageKey,
+  SERVICE_CONSOLE_URLS,
+  Service,
+  UsageData,
+  UsageEntry,
+  UsageWriteResult,
+} from '../notion';
+import { ModelCost } from '../types';
+import { UsageStore } from './store';
+
+export type SqlValue = string | number | null;
+
+export interface SqlStatement {
+  sql: string;
+  params?: SqlValue[];
+}
+
+/**
+ * Minimal database client implemented per driver (see ./sqlite and ./postgres)
+ */
+export interface SqlClient {
+  readonly name: string;
+  isConfigured(): boolean;
+  query<T>(sql: string, params?: SqlValue[]): Promise<T[]>;
+  transaction(statements: SqlStatement[]): Promise<void>;
+}
+
+const SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS services (
+    id TEXT PRIMARY KEY,
+    provider_id TEXT NOT NULL UNIQUE,
+    name TEXT NOT NULL,
+    status TEXT NOT NULL,
+    console_url TEXT,
+    notes TEXT
+  )`,
+  `CREATE TABLE IF NOT EXISTS usages (
+    id TEXT PRIMARY KEY,
+    usage_key TEXT NOT NULL,
+    identifier TEXT NOT NULL,
+    service_id TEXT NOT NULL REFERENCES services (id),
+    month TEXT NOT NULL,
+    project TEXT NOT NULL,
+    project_id TEXT,
+    workspace TEXT,
+    models TEXT NOT NULL,
+    tokens_input BIGINT NOT NULL,
+    tokens_output BIGINT NOT NULL,
+    cost_usd DOUBLE PRECISION NOT NULL,
+    requests BIGINT NOT NULL,
+    collected_at TEXT NOT NULL,
+    collection_status TEXT NOT NULL,
+    log_status TEXT NOT NULL,
+    version INTEGER NOT NULL
+  )`,
+  'CREATE INDEX IF NOT EXISTS usages_month ON usages (month)',
+  'CREATE INDEX IF NOT EXISTS usages_key ON usages (usage_key)',
+  `CREATE TABLE IF NOT EXISTS usage_models (
+    usage_id TEXT NOT NULL REFERENCES usages (id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    model TEXT NOT NULL,
+    category TEXT,
+    cost_usd DOUBLE PRECISION NOT NULL,
+    requests BIGINT NOT NULL,
+    input_tokens BIGINT,
+    output_tokens BIGINT,
+    cached_input_tokens BIGINT,
+    units DOUBLE PRECISION,
+    unit_type TEXT,
+    pricing_source TEXT,
+    PRIMARY KEY (usage_id, position)
+  )`,
+  `CREATE TABLE IF NOT EXISTS usage_versions (
+    usage_id TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    archived_at TEXT NOT NULL,
+    entry TEXT NOT NULL,
+    PRIMARY KEY (usage_id, version)
+  )`,
+];
+
+interface ServiceRow {
+  id: string;
+  provider_id: string;
+  name: string;
+  status: string;
+  console_url: string | null;
+  notes: string | null;
+}
+
+interface UsageRow {
+  id: string;
+  identifier: string;
+  service_name: string;
+  month: string;
+  project: string;
+  project_id: string | null;
+  workspace: string | null;
+  models: string;
+  tokens_input: number | string; // Postgres returns BIGINT as strings
+  tokens_output: number | string;
+  cost_usd: number | string;
+  requests: number | string;
+  collected_at: string;
+  collection_status: UsageData['collectionStatus'];
+  log_status: string;
+  version: number | string;
+}
+
+interface UsageModelRow {
+  usage_id: string;
+  model: string;
+  category: string | null;
+  cost_usd: number | string;
+  requests: number | string;
+  input_tokens: number | string | null;
+  output_tokens: number | string | null;
+  cached_input_tokens: number | string | null;
+  units: number | string | null;
+  unit_type: string | null;
+  pricing_source: string | null;
+}
+
+function toOptionalNumber(value: number | string | null): number | undefined {
+  return value === null ? undefined : Number(value);
+}
+
+export class SqlUsageStore implements UsageStore {
+  private ready: Promise<void> | null = null;
+
+  constructor(private readonly client: SqlClient) {}
+
+  get name(): string {
+    return this.client.name;
+  }
+
+  isConfigured(): boolean {
+    return this.client.isConfigured();
+  }
+
+  /**
+   * Create the tables once per process
+   */
+  private ensureSchema(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.client.transaction(SCHEMA.map(sql => ({ sql }))).catch(error => {
+        this.ready = null; // Retried by the next call
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+
+  private parseService(row: ServiceRow): Service {
+    return {
+      id: row.id,
+      name: row.name,
+      providerId: row.provider_id,
+      status: row.status,
+      consoleUrl: row.console_url || undefined,
+      notes: row.notes || undefined,
+    };
+  }
+
+  async getOrCreateService(providerId: string, displayName: string): Promise<Service> {
+    await this.ensureSchema();
+
+    const select = 'SELECT * FROM services WHERE provider_id = $1';
+    const [existing] = await this.client.query<ServiceRow>(select, [providerId]);
+    if (existing) {
+      return this.parseService(existing);
+    }
+
+    // ON CONFLICT: another collection may have created it in the meantime
+    await this.client.query(
+      `INSERT INTO services (id, provider_id, name, status, console_url)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (provider_id) DO NOTHING`,
+      [randomUUID(), providerId, displayName, 'Actif', SERVICE_CONSOLE_URLS[providerId] || null]
+    );
+
+    const [created] = await this.client.query<ServiceRow>(select, [providerId]);
+    return this.parseService(created);
+  }
+
+  async getAllServices(): Promise<Service[]> {
+    await this.ensureSchema();
+    const rows = await this.client.query<ServiceRow>('SELECT * FROM services ORDER BY name');
+    return rows.map(row => this.parseService(row));
+  }
+
+  async createUsageEntry(entry: UsageEntry): Promise<string> {
+    await this.ensureSchema();
+
+    const id = randomUUID();
+    await this.client.transaction([
+      {
+        sql: `INSERT INTO usages (
+          id, usage_key, identifier, service_id, month, project, project_id, workspace, models, tokens_input,
+          tokens_output, cost_usd, requests, collected_at, collection_status, log_status, version
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)`,
+        params: [
+          id, generateUsageKey(entry), entry.identifier, entry.servicePageId, entry.month, entry.projectApiKey,
+          entry.projectId || null, entry.workspace || null, entry.models, entry.tokensInput, entry.tokensOutput,
+          entry.costUsd, entry.requests, entry.collectedAt, entry.collectionStatus, entry.logStatus, 1,
+        ],
+      },
+      ...this.buildModelStatements(id, entry),
+    ]);
+
+    return id;
+  }
+
+  /**
+   * Save a usage entry, updating in place the entry with the same key when one exists
+   *
+   * The previous values are kept in usage_versions; other entries with the
+   * same key (left by earlier appends) are moved there too.
+   */
+  async upsertUsageEntry(entry: UsageEntry): Promise<UsageWriteResult> {
+    const existing = await this.loadUsages('u.usage_key = $1', [generateUsageKey(entry)], 'u.collected_at DESC');
+    if (existing.length === 0) {
+      return { id: await this.createUsageEntry(entry), created: true, version: 1 };
+    }
+
+    const [current, ...duplicates] = existing;
+    const version = current.version + 1;
+    const archivedAt = new Date().toISOString();
+
+    await this.client.transaction([
+      ...existing.map(usage => ({
+        sql: 'INSERT INTO usage_versions (usage_id, version, archived_at, entry) VALUES ($1, $2, $3, $4)',
+        params: [usage.id, usage.version, archivedAt, JSON.stringify(usage)],
+      })),
+      ...duplicates.map(usage => ({ sql: 'DELETE FROM usages WHERE id = $1', params: [usage.id] })),
+      {
+        sql: `UPDATE usages SET
+          identifier = $1, service_id = $2, project = $3, models = $4, tokens_input = $5, tokens_output = $6,
+          cost_usd = $7, requests = $8, collected_at = $9, collection_status = $10, log_status = $11, version = $12
+        WHERE id = $13`,
+        params: [
+          entry.identifier, entry.servicePageId, entry.projectApiKey, entry.models, entry.tokensInput,
+          entry.tokensOutput, entry.costUsd, entry.requests, entry.collectedAt, entry.collectionStatus,
+          entry.logStatus, version, current.id,
+        ],
+      },
+      { sql: 'DELETE FROM usage_models WHERE usage_id = $1', params: [current.id] },
+      ...this.buildModelStatements(current.id, entry),
+    ]);
+
+    return { id: current.id, created: false, version };
+  }
+
+  /**
+   * Remove a usage entry, moving it to usage_versions
+   */
+  async removeUsageEntry(id: string): Promise<void> {
+    const [usage] = await this.loadUsages('u.id = $1', [id], 'u.collected_at DESC');
+    if (!usage) {
+      return;
+    }
+
+    await this.client.transaction([
+      {
+        sql: 'INSERT INTO usage_versions (usage_id, version, archived_at, entry) VALUES ($1, $2, $3, $4)',
+        params: [usage.id, usage.version, new Date().toISOString(), JSON.stringify(usage)],
+      },
+      { sql: 'DELETE FROM usages WHERE id = $1', params: [usage.id] },
+    ]);
+  }
+
+  /**
+   * Insert statements of an entry's model breakdown
+   */
+  private buildModelStatements(usageId: string, entry: UsageEntry): SqlStatement[] {
+    let breakdown: ModelCost[] = [];
+    try {
+      const parsed = JSON.parse(entry.breakdownJson);
+      breakdown = Array.isArray(parsed) ? parsed : [];
+    } catch {
+      console.warn(`[Storage] Invalid breakdown JSON for ${entry.identifier}, saved without models`);
+    }
+
+    return breakdown.map((item, position) => ({
+      sql: `INSERT INTO usage_models (
+        usage_id, position, model, category, cost_usd, requests, input_tokens, output_tokens,
+        cached_input_tokens, units, unit_type, pricing_source
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+      params: [
+        usageId, position, item.model, item.category ?? null, item.cost_usd, item.requests,
+        item.input_tokens ?? null, item.output_tokens ?? null, item.cached_input_tokens ?? null,
+        item.units ?? null, item.unit_type ?? null, item.pricing_source ?? null,
+      ],
+    }));
+  }
+
+  async getMonthUsages(month: string): Promise<UsageData[]> {
+    return this.loadUsages('u.month = $1', [month], 'u.cost_usd DESC');
+  }
+
+  async getMonthUsagesByProvider(month: string, providerId: string): Promise<UsageData[]> {
+    return this.loadUsages('u.month = $1 AND s.provider_id = $2', [month, providerId], 'u.cost_usd DESC');
+  }
+
+  async getAllUsages(options: { summaryOnly?: boolean } = {}): Promise<UsageData[]> {
+    return this.loadUsages('1 = 1', [], 'u.month DESC, u.cost_usd DESC', !options.summaryOnly);
+  }
+
+  /**
+   * Load usage entries with their service name and (unless skipped) model breakdown
+   */
+  private async loadUsages(
+    where: string,
+    params: SqlValue[],
+    orderBy: string,
+    withBreakdown = true
+  ): Promise<UsageData[]> {
+    await this.ensureSchema();
+
+    const from = 'FROM usages u JOIN services s ON s.id = u.service_id';
+    const [usages, models] = await Promise.all([
+      this.client.query<UsageRow>(
+        `SELECT u.*, s.name AS service_name ${from} WHERE ${where} ORDER BY ${orderBy}`,
+        params
+      ),
+      withBreakdown
+        ? this.client.query<UsageModelRow>(
+          `SELECT m.* ${from} JOIN usage_models m ON m.usage_id = u.id WHERE ${where} ORDER BY m.usage_id, m.position`,
+          params
+        )
+        : Promise.resolve([]),
+    ]);
+
+    const breakdowns = new Map<string, ModelCost[]>();
+    for (const row of models) {
+      const item: ModelCost = {
+        model: row.model,
+        cost_usd: Number(row.cost_usd),
+        requests: Number(row.requests),
+        input_tokens: toOptionalNumber(row.input_tokens),
+        output_tokens: toOptionalNumber(row.output_tokens),
+        cached_input_tokens: toOptionalNumber(row.cached_input_tokens),
+        units: toOptionalNumber(row.units),
+        unit_type: (row.unit_type || undefined) as ModelCost['unit_type'],
+        pricing_source: (row.pricing_source || undefined) as ModelCost['pricing_source'],
+        category: (row.category || undefined) as ModelCost['category'],
+      };
+      const breakdown = breakdowns.get(row.usage_id) || [];
+      breakdown.push(item);
+      breakdowns.set(row.usage_id, breakdown);
+    }
+
+    return usages.map(row => {
+      const tokensInput = Number(row.tokens_input);
+      const tokensOutput = Number(row.tokens_output);
+
+      return {
+        id: row.id,
+        identifier: row.identifier,
+        serviceName: row.service_name,
+        month: row.month,
+        projectApiKey: row.project,
+        workspace: row.workspace || undefined,
+        projectId: row.project_id || undefined,
+        models: row.models,
+        tokensInput,
+        tokensOutput,
+        tokensTotal: tokensInput + tokensOutput,
+        costUsd: Number(row.cost_usd),
+        requests: Number(row.requests),
+        breakdownJson: JSON.stringify(breakdowns.get(row.id) || []),
+        collectedAt: row.collected_at,
+        collectionStatus: row.collection_status,
+        logStatus: row.log_status,
+        version: Number(row.version),
+      };
+    });
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * SQLite client (better-sqlite3)
+ *
+ * Database file in SQLITE_PATH (default: ./data/llm-cost-tracker.db), created
+ * on first use. Suited to a single server; on serverless platforms use
+ * Postgres, as the local filesystem is not persistent.
+ */
+
+import { mkdir } from 'fs/promises';
+import { dirname, resolve } from 'path';
+import type { Database } from 'better-sqlite3';
+import { SqlClient, SqlStatement, SqlValue } from './sql';
+
+/**
+ * Rewrite Postgres-style parameters ($1, $2...) as SQLite positional ones
+ */
+function toPositional(sql: string, params: SqlValue[]): { sql: string; params: SqlValue[] } {
+  const ordered: SqlValue[] = [];
+  const rewritten = sql.replace(/\$(\d+)/g, (_match, index: string) => {
+    ordered.push(params[Number(index) - 1] ?? null);
+    return '?';
+  });
+  return { sql: rewritten, params: ordered };
+}
+
+export class SqliteClient implements SqlClient {
+  public readonly name = 'sqlite';
+
+  private readonly path: string;
+  private database: Promise<Database> | null = null;
+
+  constructor(path?: string) {
+    this.path = resolve(path || process.env.SQLITE_PATH || './data/llm-cost-tracker.db');
+  }
+
+  isConfigured(): boolean {
+    return true; // The file is created when missing
+  }
+
+  /**
+   * Open the database once (the driver is only loaded when SQLite is used)
+   */
+  private open(): Promise<Database> {
+    if (!this.database) {
+      this.database = (async () => {
+        await mkdir(dirname(this.path), { recursive: true });
+        const { default: BetterSqlite3 } = await import('better-sqlite3');
+        const database = new BetterSqlite3(this.path);
+        database.pragma('journal_mode = WAL');
+        database.pragma('foreign_keys = ON');
+        return database;
+      })();
+    }
+    return this.database;
+  }
+
+  async query<T>(sql: string, params: SqlValue[] = []): Promise<T[]> {
+    const database = await this.open();
+    const statement = toPositional(sql, params);
+    const prepared = database.prepare(statement.sql);
+
+    if (prepared.reader) {
+      return prepared.all(...statement.params) as T[];
+    }
+    prepared.run(...statement.params);
+    return [];
+  }
+
+  async transaction(statements: SqlStatement[]): Promise<void> {
+    const database = await this.open();
+
+    database.transaction(() => {
+      for (const { sql, params } of statements) {
+        const statement = toPositional(sql, params || []);
+        database.prepare(statement.sql).run(...statement.params);
+      }
+    })();
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Usage store interface
+ *
+ * Persistence of collected usage entries. Implemented on Notion (the
+ * Services + Usages databases) and on SQL databases (SQLite, Postgres).
+ */
+
+import { Service, UsageData, UsageEntry, UsageWriteResult } from '../notion';
+
+export interface UsageStore {
+  readonly name: string; // Backend name, e.g. 'notion', 'sqlite', 'postgres'
+
+  /**
+   * Whether the backend has the settings it needs (no connection is made)
+   */
+  isConfigured(): boolean;
+
+  /**
+   * Get or create the service of a provider
+   */
+  getOrCreateService(providerId: string, displayName: string): Promise<Service>;
+
+  /**
+   * Get all services, by name
+   */
+  getAllServices(): Promise<Service[]>;
+
+  /**
+   * Save a usage entry as a new entry
+   *
+   * @returns ID of the created entry
+   */
+  createUsageEntry(entry: UsageEntry): Promise<string>;
+
+  /**
+   * Save a usage entry, updating in place the entry with the same key
+   * (see generateUsageKey) and keeping its previous version
+   */
+  upsertUsageEntry(entry: UsageEntry): Promise<UsageWriteResult>;
+
+  /**
+   * Remove a usage entry from the totals, keeping it as a previous version
+   * (Notion: archived page)
+   */
+  removeUsageEntry(id: string): Promise<void>;
+
+  /**
+   * Get the usage entries of a month, most expensive first
+   */
+  getMonthUsages(month: string): Promise<UsageData[]>;
+
+  /**
+   * Get the usage entries of a month for one provider
+   */
+  getMonthUsagesByProvider(month: string, providerId: string): Promise<UsageData[]>;
+
+  /**
+   * Get all usage entries, most recent month first
+   *
+   * With summaryOnly, backends may only load the fields needed for monthly
+   * summaries (identifier, month, cost, collection date).
+   */
+  getAllUsages(options?: { summaryOnly?: boolean }): Promise<UsageData[]>;
+}
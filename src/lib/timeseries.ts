@@ -0,0 +1,93 @@
+/**
+ * Cost Time Series
+ *
+ * Groups dated costs into daily or hourly buckets per model, for providers
+ * whose usage data is already dated (see ILLMProvider.getCostTimeSeries).
+ * Buckets are aligned on UTC days/hours and the whole requested range is
+ * filled, so that days without usage show as zero instead of being skipped.
+ */
+
+import { CostTimeSeries, CostTimeSeriesPoint, TimeSeriesGranularity } from './types';
+
+/**
+ * A cost at a point in time, as read from a provider's usage data
+ */
+export interface DatedCost {
+  timestamp: string;  // ISO 8601 date or timestamp
+  model: string;
+  cost_usd: number;
+}
+
+// Longest range accepted for hourly series (744 points)
+export const MAX_HOURLY_RANGE_DAYS = 31;
+
+const BUCKET_MS: Record<TimeSeriesGranularity, number> = {
+  day: 24 * 60 * 60 * 1000,
+  hour: 60 * 60 * 1000,
+};
+
+/**
+ * Start of the bucket containing a timestamp, as an ISO string
+ */
+export function getBucketStart(timestamp: string, granularity: TimeSeriesGranularity): string {
+  const time = new Date(timestamp).getTime();
+  const size = BUCKET_MS[granularity];
+  return new Date(Math.floor(time / size) * size).toISOString();
+}
+
+/**
+ * Build a series from dated costs
+ *
+ * @param costs - Dated costs (several entries may share a bucket and a model)
+ * @param granularity - Bucket size
+ * @param startDate - First day of the range (YYYY-MM-DD)
+ * @param endDate - Last day of the range (YYYY-MM-DD, inclusive)
+ * @param costSource - Whether the costs were billed or estimated from usage
+ */
+export function buildCostTimeSeries(
+  costs: DatedCost[],
+  granularity: TimeSeriesGranularity,
+  startDate: string,
+  endDate: string,
+  costSource: CostTimeSeries['cost_source']
+): CostTimeSeries {
+  const size = BUCKET_MS[granularity];
+  const buckets = new Map<string, CostTimeSeriesPoint>();
+
+  const rangeStart = new Date(getBucketStart(startDate, granularity)).getTime();
+  const rangeEnd = new Date(getBucketStart(endDate, 'day')).getTime() + BUCKET_MS.day;
+  for (let time = rangeStart; time < rangeEnd; time += size) {
+    const timestamp = new Date(time).toISOString();
+    buckets.set(timestamp, { timestamp, total_cost_usd: 0, models: {} });
+  }
+
+  const modelTotals = new Map<string, number>();
+
+  for (const { timestamp, model, cost_usd } of costs) {
+    if (!Number.isFinite(cost_usd) || cost_usd === 0) {
+      continue;
+    }
+
+    const key = getBucketStart(timestamp, granularity);
+    let point = buckets.get(key);
+    if (!point) {
+      // Usage reported outside the requested range (e.g. timezone edges)
+      point = { timestamp: key, total_cost_usd: 0, models: {} };
+      buckets.set(key, point);
+    }
+
+    point.models[model] = (point.models[model] || 0) + cost_usd;
+    point.total_cost_usd += cost_usd;
+    modelTotals.set(model, (modelTotals.get(model) || 0) + cost_usd);
+  }
+
+  return {
+    granularity,
+    cost_source: costSource,
+    models: Array.from(modelTotals.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([model]) => model),
+    points: Array.from(buckets.values()).sort((a, b) => a.timestamp.localeCompare(b.timestamp)),
+    last_updated: new Date().toISOString(),
+  };
+}
@@ -19,20 +19,169 @@ export interface CostParams {
   endDate: string;    // ISO 8601 format
 }
 
+/**
+ * Unit used for non-token usage (TTS characters, STT audio duration, ...)
+ */
+export type UsageUnitType =
+  | 'characters'
+  | 'audio_hours'
+  | 'audio_minutes'
+  | 'images'
+  | 'gb_days'
+  | 'sessions'
+  | 'model_unit_hours';
+
+/**
+ * Kind of usage a breakdown row covers (mirrors the OpenAI usage endpoints)
+ */
+export type UsageCategory =
+  | 'completions'
+  | 'embeddings'
+  | 'moderations'
+  | 'images'
+  | 'audio_speeches'
+  | 'audio_transcriptions'
+  | 'vector_stores'
+  | 'code_interpreter_sessions';
+
+/**
+ * Where the cost of a breakdown row comes from
+ * - exact: model found in the pricing catalog
+ * - prefix: priced like a similar catalog model (estimate)
+ * - default: model unknown, provider default rate used (estimate)
+ * - provider: amount reported by the provider itself
+ */
+export type PricingSource = 'exact' | 'prefix' | 'default' | 'provider';
+
 export interface ModelCost {
   model: string;        // Native model name from the LLM provider
   cost_usd: number;     // Cost in USD
   requests: number;     // Number of requests/calls made
+  input_tokens?: number;         // Input (prompt) tokens, including cached ones
+  output_tokens?: number;        // Output (completion) tokens
+  cached_input_tokens?: number;  // Part of input_tokens served from the prompt cache
+  units?: number;                // Non-token usage amount (see unit_type)
+  unit_type?: UsageUnitType;     // Unit of the `units` field
+  pricing_source?: PricingSource; // Omitted for informational rows (balances, quotas)
+  category?: UsageCategory;       // Omitted when the provider has a single kind of usage
+}
+
+/**
+ * Part of a requested period that a provider could not fetch
+ * (failed time window, page or endpoint)
+ */
+export interface MissingRange {
+  startDate: string;  // YYYY-MM-DD
+  endDate: string;    // YYYY-MM-DD, inclusive
+  source?: string;    // Endpoint or page concerned
+  reason: string;
 }
 
 export interface CostData {
   total_cost_usd: number;
   last_updated: string;     // ISO 8601 timestamp
   breakdown: ModelCost[];
+  missing?: MissingRange[]; // Set when the data is partial: totals exclude these ranges
+  // Ranges missing from the breakdown and the estimate only: the total
+  // (billed amount) includes them
+  breakdown_missing?: MissingRange[];
+  unpriced_models?: string[]; // Models whose cost is an estimate (prefix/default pricing)
+  // Reconciliation, for providers exposing both usage and billing data.
+  // When billed_cost_usd is set, total_cost_usd is the billed amount.
+  billed_cost_usd?: number;       // Amount actually billed by the provider
+  estimated_cost_usd?: number;    // Amount computed from usage and the pricing catalog
+  discrepancy_percent?: number;   // (estimated - billed) / billed * 100
+  billed_breakdown?: ModelCost[]; // Billed line items, as reported by the provider
+  cache?: CacheMetadata;          // Set by /api/costs
+}
+
+/**
+ * How a response was served by the cost cache
+ * - hit: fresh cached data
+ * - stale: cached data past its TTL, refreshed in the background
+ * - miss: not cached, fetched from the provider
+ * - refresh: fetched from the provider on request (refresh=true)
+ */
+export interface CacheMetadata {
+  status: 'hit' | 'stale' | 'miss' | 'refresh';
+  cached_at: string;    // ISO 8601 time the data was fetched from the provider
+  age_seconds: number;
+  ttl_seconds: number;  // Freshness window for this provider
+  backend: string;      // 'memory', 'filesystem' or 'redis'
+  segments?: number;        // Split ranges: number of cached parts (calendar months + live tail)
+  closed_segments?: number; // Split ranges: parts that are closed months
+}
+
+/**
+ * What a provider's data supports, so that the UI and the collection adapt
+ * to it instead of special-casing provider IDs
+ */
+export interface ProviderCapabilities {
+  reportsCosts: boolean;                    // false: workspaces/projects can be listed but no usage data is exposed
+  dateRange: boolean;                       // getCosts honours any start/end dates (false: fixed windows only)
+  projectCosts: boolean;                    // getCosts can be restricted to one project (projectId)
+  dailyGranularity: boolean;                // Usage is dated per day (false: monthly or per-window totals)
+  costSource: CostSource;                   // Origin of total_cost_usd (usage × catalog rates = estimated)
+  usageUnit: 'tokens' | UsageUnitType | null; // Main usage unit (null: amounts only)
+  timeSeries: TimeSeriesGranularity[];      // Granularities of getCostTimeSeries (empty: not supported)
+}
+
+// mixed: billed for some targets, estimated for others (the CostData has
+// billed_cost_usd when its total is billed)
+export type CostSource = 'billed' | 'estimated' | 'mixed';
+
+export type TimeSeriesGranularity = 'day' | 'hour';
+
+export interface CostTimeSeriesPoint {
+  timestamp: string;                // ISO 8601 start of the bucket (UTC)
+  total_cost_usd: number;
+  models: Record<string, number>;   // Cost per model over the bucket
+}
+
+export interface CostTimeSeries {
+  granularity: TimeSeriesGranularity;
+  cost_source: 'billed' | 'estimated';
+  models: string[];                 // Every model of the series, by descending total cost
+  points: CostTimeSeriesPoint[];    // One per bucket in chronological order, empty buckets included
+  last_updated: string;             // ISO 8601 timestamp
 }
 
 export interface ProviderInfo {
   id: string;
   name: string;
   supportsWorkspaces: boolean;
+  capabilities: ProviderCapabilities;
+}
+
+/**
+ * Costs of one provider workspace in the "All providers" view
+ * (providers without workspaces have a single entry without workspace_id)
+ */
+export interface ConsolidatedCostEntry {
+  provider_id: string;
+  provider_name: string;
+  workspace_id?: string;
+  workspace_name?: string;
+  status: 'ok' | 'error' | 'unavailable';  // unavailable: provider exposes no usage data
+  total_cost_usd: number;                  // 0 unless status is 'ok'
+  cost_source: CostSource;                 // Of this entry's total when status is 'ok'
+  error?: string;
+}
+
+export interface ProviderCostSummary {
+  provider_id: string;
+  provider_name: string;
+  status: 'ok' | 'partial' | 'error' | 'unavailable'; // partial: some workspaces failed
+  total_cost_usd: number;                             // Sum of the workspaces that succeeded
+  cost_source: CostSource;                            // mixed: billed and estimated workspaces
+}
+
+export interface ConsolidatedCostData {
+  start_date: string;
+  end_date: string;
+  total_cost_usd: number;             // Sum of every entry that succeeded
+  providers: ProviderCostSummary[];   // By descending cost
+  entries: ConsolidatedCostEntry[];
+  failed_count: number;               // Entries in error: the total is partial when > 0
+  last_updated: string;               // ISO 8601 timestamp
 }
@@ -0,0 +1,40 @@
+/**
+ * Cache backend contract
+ *
+ * A backend only stores entries and drops them after their retention time;
+ * freshness (TTL) and stale-while-revalidate are decided in ./index.ts.
+ */
+
+export interface CacheEntry<T> {
+  data: T;
+  timestamp: number;  // When the data was fetched (ms since epoch)
+}
+
+export interface CacheBackend {
+  name: string;
+
+  /**
+   * Get an entry, or null if missing or past its retention time
+   */
+  get<T>(key: string): Promise<CacheEntry<T> | null>;
+
+  /**
+   * Store an entry for `retentionMs` milliseconds
+   */
+  set<T>(key: string, entry: CacheEntry<T>, retentionMs: number): Promise<void>;
+
+  /**
+   * Store an entry only if the key is missing (or past its retention time),
+   * atomically: of concurrent calls on the same key, only one stores its entry
+   *
+   * @returns Whether the entry was stored
+   */
+  setIfAbsent<T>(key: string, entry: CacheEntry<T>, retentionMs: number): Promise<boolean>;
+
+  delete(key: string): Promise<void>;
+
+  /**
+   * Remove all entries, except those whose key matches `keep`
+   */
+  clear(keep?: (key: string) => boolean): Promise<void>;
+}
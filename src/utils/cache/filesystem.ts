@@ -0,0 +1,119 @@
+/**
+ * Filesystem cache backend
+ *
+ * One JSON file per entry in CACHE_DIR (default: <tmpdir>/llm-cost-tracker-cache).
+ * Survives restarts and is shared by the processes of a server; on
+ * serverless platforms only the temporary directory is writable and it is
+ * kept per instance.
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, readdir, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CacheBackend, CacheEntry } from './backend';
+
+interface StoredEntry {
+  key: string;
+  expiresAt: number;
+  entry: CacheEntry<unknown>;
+}
+
+export class FilesystemCacheBackend implements CacheBackend {
+  public readonly name = 'filesystem';
+
+  private readonly directory: string;
+
+  constructor(directory?: string) {
+    this.directory = directory || process.env.CACHE_DIR || join(tmpdir(), 'llm-cost-tracker-cache');
+  }
+
+  /**
+   * File of a key (keys contain characters that are not valid in file names)
+   */
+  private getPath(key: string): string {
+    return join(this.directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    let stored: StoredEntry;
+    try {
+      stored = JSON.parse(await readFile(this.getPath(key), 'utf-8'));
+    } catch {
+      return null; // Missing or unreadable: treated as a miss
+    }
+
+    if (stored.key !== key || Date.now() > stored.expiresAt) {
+      await this.delete(key);
+      return null;
+    }
+
+    return stored.entry as CacheEntry<T>;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>, retentionMs: number): Promise<void> {
+    const stored: StoredEntry = { key, expiresAt: Date.now() + retentionMs, entry };
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(this.getPath(key), JSON.stringify(stored), 'utf-8');
+  }
+
+  /**
+   * Created with the 'wx' flag, which fails if the file exists: of concurrent
+   * calls (processes sharing CACHE_DIR included), only one creates it
+   */
+  async setIfAbsent<T>(key: string, entry: CacheEntry<T>, retentionMs: number): Promise<boolean> {
+    const stored: StoredEntry = { key, expiresAt: Date.now() + retentionMs, entry };
+    await mkdir(this.directory, { recursive: true });
+
+    // Second attempt after removing an expired entry
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        await writeFile(this.getPath(key), JSON.stringify(stored), { encoding: 'utf-8', flag: 'wx' });
+        return true;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      // get() removes the file when it is expired
+      if (await this.get(key)) {
+        return false;
+      }
+    }
+
+    return false;
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.getPath(key), { force: true });
+  }
+
+  async clear(keep?: (key: string) => boolean): Promise<void> {
+    let files: string[];
+    try {
+      files = await readdir(this.directory);
+    } catch {
+      return;
+    }
+
+    await Promise.all(
+      files
+        .filter(file => file.endsWith('.json'))
+        .map(async file => {
+          const path = join(this.directory, file);
+          if (keep) {
+            try {
+              const stored: StoredEntry = JSON.parse(await readFile(path, 'utf-8'));
+              if (keep(stored.key)) {
+                return;
+              }
+            } catch {
+              // Unreadable: removed
+            }
+          }
+          await rm(path, { force: true });
+        })
+    );
+  }
+}
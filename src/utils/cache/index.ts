@@ -0,0 +1,346 @@
+/**
+ * Cost cache
+ *
+ * Caches provider responses in a pluggable backend, selected with CACHE_BACKEND:
+ * - memory (default): process-local Map
+ * - filesystem: JSON files in CACHE_DIR
+ * - redis: Redis-compatible REST API (REDIS_REST_URL / REDIS_REST_TOKEN)
+ *
+ * Entries are fresh for the provider's TTL (5 minutes by default), then
+ * served stale for CACHE_STALE_SECONDS while being refreshed in the
+ * background (stale-while-revalidate).
+ *
+ * Ranges entirely in the past (ended more than CACHE_SETTLEMENT_DAYS ago)
+ * rarely change: they are cached for CACHE_CLOSED_TTL_SECONDS. Long ranges
+ * are split into calendar months (splitDateRange) so that closed months
+ * are fetched once and only the live tail is refreshed.
+ *
+ * Cache keys are composite strings in the format:
+ * ${provider}_${workspace}_${project}_${dateRange}
+ */
+
+import { CacheMetadata } from '../../lib/types';
+import { CacheBackend, CacheEntry } from './backend';
+import { MemoryCacheBackend } from './memory';
+import { FilesystemCacheBackend } from './filesystem';
+import { RedisCacheBackend } from './redis';
+
+export type { CacheBackend, CacheEntry } from './backend';
+
+// Default TTL: 5 minutes (in seconds), overridden by CACHE_TTL_SECONDS
+const DEFAULT_TTL_SECONDS = 5 * 60;
+
+// Default stale window: 1 hour (in seconds), overridden by CACHE_STALE_SECONDS
+const DEFAULT_STALE_SECONDS = 60 * 60;
+
+// Days after which billed usage is considered final (late adjustments),
+// overridden by CACHE_SETTLEMENT_DAYS
+const DEFAULT_SETTLEMENT_DAYS = 3;
+
+// Default TTL of closed ranges: 30 days (in seconds), overridden by CACHE_CLOSED_TTL_SECONDS
+const DEFAULT_CLOSED_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+// Providers whose data is only refreshed a few times a day by the provider
+// (billing exports) can be cached longer
+const PROVIDER_TTL_SECONDS: Record<string, number> = {
+  'azure-openai': 60 * 60,
+  bedrock: 60 * 60,
+  gemini: 60 * 60,
+};
+
+// Prefix of the keys of collection jobs and locks (see lib/collection),
+// which are not cached provider data
+export const COLLECTION_KEY_PREFIX = 'collect-';
+
+let backend: CacheBackend | null = null;
+
+// Background refreshes in progress, so that a key is only refreshed once at a time
+const revalidating = new Map<string, Promise<unknown>>();
+
+/**
+ * Get the configured cache backend (created once per process)
+ *
+ * Collection jobs, locks and schedules are stored in it too: falling back to
+ * the in-memory backend would silently make them local to one process.
+ *
+ * @throws Error if CACHE_BACKEND is unknown or its backend is misconfigured
+ */
+export function getCacheBackend(): CacheBackend {
+  if (backend) {
+    return backend;
+  }
+
+  const name = (process.env.CACHE_BACKEND || 'memory').toLowerCase();
+
+  switch (name) {
+    case 'filesystem':
+      backend = new FilesystemCacheBackend();
+      break;
+    case 'redis':
+      backend = new RedisCacheBackend();
+      break;
+    case 'memory':
+      backend = new MemoryCacheBackend();
+      break;
+    default:
+      throw new Error(`Unknown CACHE_BACKEND '${name}' (expected memory, filesystem or redis)`);
+  }
+
+  console.log(`[Cache] Backend: ${backend.name}`);
+  return backend;
+}
+
+/**
+ * Freshness window of a provider's data, in seconds
+ *
+ * Set per provider with CACHE_TTL_<PROVIDER_ID> (e.g. CACHE_TTL_AZURE_OPENAI=3600),
+ * or for all providers with CACHE_TTL_SECONDS.
+ */
+export function getProviderTtlSeconds(providerId: string): number {
+  const envKey = `CACHE_TTL_${providerId.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+  const candidates = [process.env[envKey], process.env.CACHE_TTL_SECONDS];
+
+  for (const candidate of candidates) {
+    const seconds = Number(candidate);
+    if (candidate && Number.isFinite(seconds) && seconds >= 0) {
+      return seconds;
+    }
+  }
+
+  return PROVIDER_TTL_SECONDS[providerId] ?? DEFAULT_TTL_SECONDS;
+}
+
+/**
+ * Read a non-negative number from the environment
+ */
+function getEnvNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function getStaleSeconds(): number {
+  return getEnvNumber('CACHE_STALE_SECONDS', DEFAULT_STALE_SECONDS);
+}
+
+// ============================================================================
+// CLOSED RANGES
+// ============================================================================
+
+/**
+ * A part of a date range (dates are YYYY-MM-DD, both inclusive)
+ */
+export interface DateSegment {
+  startDate: string;
+  endDate: string;
+  closed: boolean;  // Entirely before the settlement cutoff: cached long-term
+}
+
+/**
+ * Whether a range ending on endDate is closed (past the settlement lag)
+ */
+export function isClosedRange(endDate: string, now: Date = new Date()): boolean {
+  const cutoff = new Date(now.getTime() - getEnvNumber('CACHE_SETTLEMENT_DAYS', DEFAULT_SETTLEMENT_DAYS) * 86_400_000);
+  return endDate.split('T')[0] < cutoff.toISOString().split('T')[0];
+}
+
+/**
+ * Split a range into calendar months, the months that are not closed
+ * yet being grouped into a single live tail
+ *
+ * e.g. 2025-11-15 → 2026-10-19 on 2026-10-19: 2025-11-15 → 2025-11-30,
+ * 2025-12-01 → 2025-12-31, ..., 2026-09-01 → 2026-09-30 (closed),
+ * then 2026-10-01 → 2026-10-19 (live)
+ */
+export function splitDateRange(startDate: string, endDate: string, now: Date = new Date()): DateSegment[] {
+  const start = startDate.split('T')[0];
+  const end = endDate.split('T')[0];
+  const segments: DateSegment[] = [];
+
+  let cursor = start;
+  while (cursor <= end) {
+    const [year, month] = cursor.split('-').map(Number);
+    const monthEnd = new Date(Date.UTC(year, month, 0)).toISOString().split('T')[0];
+    const segmentEnd = monthEnd < end ? monthEnd : end;
+    const closed = isClosedRange(segmentEnd, now);
+
+    const previous = segments[segments.length - 1];
+    if (previous && !previous.closed && !closed) {
+      previous.endDate = segmentEnd;
+    } else {
+      segments.push({ startDate: cursor, endDate: segmentEnd, closed });
+    }
+
+    cursor = new Date(Date.UTC(year, month, 1)).toISOString().split('T')[0];
+  }
+
+  return segments;
+}
+
+/**
+ * Combine the cache metadata of the segments of a split range
+ *
+ * The status is the "least cached" one, and the age is the live tail's
+ * (closed months are not expected to change).
+ */
+export function mergeCacheMetadata(parts: Array<CacheMetadata & { closed?: boolean }>): CacheMetadata {
+  const order: CacheMetadata['status'][] = ['refresh', 'miss', 'stale', 'hit'];
+  const status = order.find(candidate => parts.some(part => part.status === candidate)) || 'hit';
+  const live = parts.filter(part => !part.closed);
+  const reference = (live.length > 0 ? live : parts)
+    .reduce((oldest, part) => (part.age_seconds > oldest.age_seconds ? part : oldest));
+
+  return {
+    status,
+    cached_at: reference.cached_at,
+    age_seconds: reference.age_seconds,
+    ttl_seconds: reference.ttl_seconds,
+    backend: reference.backend,
+    segments: parts.length,
+    closed_segments: parts.filter(part => part.closed).length,
+  };
+}
+
+// ============================================================================
+// CACHED FETCH
+// ============================================================================
+
+/**
+ * Generate a cache key from query parameters
+ *
+ * @param provider - Provider ID (e.g., 'openai', 'anthropic')
+ * @param workspace - Optional workspace ID
+ * @param projectId - Optional project ID (omit for workspace-wide totals)
+ * @param startDate - Start date (ISO format)
+ * @param endDate - End date (ISO format)
+ * @returns Composite cache key string
+ */
+export function generateCacheKey(
+  provider: string,
+  workspace: string | undefined,
+  projectId: string | undefined,
+  startDate: string,
+  endDate: string
+): string {
+  const workspaceKey = workspace || 'none';
+  const projectKey = projectId || 'all-projects';
+  const dateRange = `${startDate}_${endDate}`;
+  return `${provider}_${workspaceKey}_${projectKey}_${dateRange}`;
+}
+
+export interface CachedOptions<T = unknown> {
+  forceRefresh?: boolean;  // Skip the cached entry and fetch fresh data
+  closed?: boolean;        // Closed range (see isClosedRange): cached for CACHE_CLOSED_TTL_SECONDS
+  // Data that must not be stored (e.g. partial data): fetched again next time
+  cacheable?: (data: T) => boolean;
+  // Keeps a background refresh alive after the response is sent
+  // (e.g. `after` from next/server on serverless platforms)
+  waitUntil?: (task: Promise<unknown>) => void;
+}
+
+/**
+ * Get data from cache, or fetch and store it
+ *
+ * Backend errors never fail the request: the data is then fetched directly.
+ *
+ * @param key - Cache key (see generateCacheKey)
+ * @param providerId - Provider ID, for its TTL
+ * @param fetcher - Loads fresh data from the provider
+ * @param options - Forced refresh and background task handling
+ * @returns The data and how it was served
+ */
+export async function cached<T>(
+  key: string,
+  providerId: string,
+  fetcher: () => Promise<T>,
+  options: CachedOptions<T> = {}
+): Promise<{ data: T; cache: CacheMetadata }> {
+  const cacheBackend = getCacheBackend();
+  const ttlSeconds = options.closed
+    ? getEnvNumber('CACHE_CLOSED_TTL_SECONDS', DEFAULT_CLOSED_TTL_SECONDS)
+    : getProviderTtlSeconds(providerId);
+
+  const metadata = (status: CacheMetadata['status'], timestamp: number): CacheMetadata => ({
+    status,
+    cached_at: new Date(timestamp).toISOString(),
+    age_seconds: Math.max(0, Math.round((Date.now() - timestamp) / 1000)),
+    ttl_seconds: ttlSeconds,
+    backend: cacheBackend.name,
+  });
+
+  let entry: CacheEntry<T> | null = null;
+  if (!options.forceRefresh) {
+    try {
+      entry = await cacheBackend.get<T>(key);
+    } catch (error) {
+      console.error(`[Cache] Read failed for ${key}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  if (entry) {
+    const age = Date.now() - entry.timestamp;
+
+    if (age <= ttlSeconds * 1000) {
+      console.log(`[Cache] HIT ${key}`);
+      return { data: entry.data, cache: metadata('hit', entry.timestamp) };
+    }
+
+    console.log(`[Cache] STALE ${key}, refreshing in the background`);
+    if (!revalidating.has(key)) {
+      const task = refresh(key, ttlSeconds, fetcher, options.cacheable)
+        .catch(error => {
+          console.error(`[Cache] Background refresh failed for ${key}:`, error instanceof Error ? error.message : error);
+        })
+        .finally(() => revalidating.delete(key));
+      revalidating.set(key, task);
+      options.waitUntil?.(task);
+    }
+    return { data: entry.data, cache: metadata('stale', entry.timestamp) };
+  }
+
+  console.log(`[Cache] ${options.forceRefresh ? 'REFRESH' : 'MISS'} ${key}`);
+  const fresh = await refresh(key, ttlSeconds, fetcher, options.cacheable);
+  return { data: fresh.data, cache: metadata(options.forceRefresh ? 'refresh' : 'miss', fresh.timestamp) };
+}
+
+/**
+ * Fetch fresh data and store it for the TTL plus the stale window
+ */
+async function refresh<T>(
+  key: string,
+  ttlSeconds: number,
+  fetcher: () => Promise<T>,
+  cacheable?: (data: T) => boolean
+): Promise<CacheEntry<T>> {
+  const entry: CacheEntry<T> = { data: await fetcher(), timestamp: Date.now() };
+
+  if (cacheable && !cacheable(entry.data)) {
+    console.log(`[Cache] SKIP ${key} (not cacheable)`);
+    return entry;
+  }
+
+  try {
+    await getCacheBackend().set(key, entry, (ttlSeconds + getStaleSeconds()) * 1000);
+  } catch (error) {
+    console.error(`[Cache] Write failed for ${key}:`, error instanceof Error ? error.message : error);
+  }
+
+  return entry;
+}
+
+/**
+ * Manually invalidate a specific cache entry
+ *
+ * @param key - Cache key to invalidate
+ */
+export async function invalidateCache(key: string): Promise<void> {
+  await getCacheBackend().delete(key);
+}
+
+/**
+ * Clear all cached provider data
+ *
+ * Collection jobs and locks (keys starting with COLLECTION_KEY_PREFIX) are kept.
+ */
+export async function clearAllCache(): Promise<void> {
+  await getCacheBackend().clear(key => key.startsWith(COLLECTION_KEY_PREFIX));
+}
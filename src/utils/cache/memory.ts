@@ -0,0 +1,55 @@
+/**
+ * In-memory cache backend
+ *
+ * Process-local: entries are lost on restart and not shared between
+ * serverless instances. Default backend, fine for local development.
+ */
+
+import { CacheBackend, CacheEntry } from './backend';
+
+export class MemoryCacheBackend implements CacheBackend {
+  public readonly name = 'memory';
+
+  private readonly entries = new Map<string, { entry: CacheEntry<unknown>; expiresAt: number }>();
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const stored = this.entries.get(key);
+
+    if (!stored) {
+      return null;
+    }
+
+    if (Date.now() > stored.expiresAt) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    return stored.entry as CacheEntry<T>;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>, retentionMs: number): Promise<void> {
+    this.entries.set(key, { entry, expiresAt: Date.now() + retentionMs });
+  }
+
+  async setIfAbsent<T>(key: string, entry: CacheEntry<T>, retentionMs: number): Promise<boolean> {
+    // No await between the check and the write: atomic within the process
+    const stored = this.entries.get(key);
+    if (stored && Date.now() <= stored.expiresAt) {
+      return false;
+    }
+    this.entries.set(key, { entry, expiresAt: Date.now() + retentionMs });
+    return true;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(keep?: (key: string) => boolean): Promise<void> {
+    for (const key of Array.from(this.entries.keys())) {
+      if (!keep?.(key)) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Redis cache backend (REST)
+ *
+ * Talks to a Redis-compatible service over its REST API (Upstash, Vercel KV...),
+ * which works from serverless functions without a persistent connection.
+ * Configured with REDIS_REST_URL and REDIS_REST_TOKEN (or the Vercel KV
+ * variables KV_REST_API_URL and KV_REST_API_TOKEN).
+ *
+ * Every key is prefixed with CACHE_KEY_PREFIX (default: 'llm-cost-tracker:'),
+ * so that clear() only removes this application's entries.
+ */
+
+import { CacheBackend, CacheEntry } from './backend';
+
+const MAX_SCAN_ITERATIONS = 100; // Safety limit for clear()
+
+export class RedisCacheBackend implements CacheBackend {
+  public readonly name = 'redis';
+
+  private readonly url: string;
+  private readonly token: string;
+  private readonly prefix: string;
+
+  constructor() {
+    this.url = (process.env.REDIS_REST_URL || process.env.KV_REST_API_URL || '').replace(/\/$/, '');
+    this.token = process.env.REDIS_REST_TOKEN || process.env.KV_REST_API_TOKEN || '';
+    this.prefix = process.env.CACHE_KEY_PREFIX || 'llm-cost-tracker:';
+
+    if (!this.url || !this.token) {
+      throw new Error(
+        'Redis cache not configured. Please set REDIS_REST_URL and REDIS_REST_TOKEN environment variables.'
+      );
+    }
+  }
+
+  /**
+   * Run one Redis command, e.g. ['GET', 'key']
+   */
+  private async command<T>(args: Array<string | number>): Promise<T> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(args),
+    });
+
+    const body = await response.json().catch(() => ({}));
+
+    if (!response.ok || body.error) {
+      throw new Error(`Redis API error (${response.status}): ${body.error || response.statusText}`);
+    }
+
+    return body.result as T;
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const value = await this.command<string | null>(['GET', this.prefix + key]);
+    return value ? (JSON.parse(value) as CacheEntry<T>) : null;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>, retentionMs: number): Promise<void> {
+    await this.command(['SET', this.prefix + key, JSON.stringify(entry), 'PX', Math.max(1, Math.round(retentionMs))]);
+  }
+
+  async setIfAbsent<T>(key: string, entry: CacheEntry<T>, retentionMs: number): Promise<boolean> {
+    const result = await this.command<string | null>(
+      ['SET', this.prefix + key, JSON.stringify(entry), 'NX', 'PX', Math.max(1, Math.round(retentionMs))]
+    );
+    return result === 'OK';
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.command(['DEL', this.prefix + key]);
+  }
+
+  async clear(keep?: (key: string) => boolean): Promise<void> {
+    let cursor = '0';
+    let iterations = 0;
+
+    do {
+      const [nextCursor, keys] = await this.command<[string, string[]]>(
+        ['SCAN', cursor, 'MATCH', `${this.prefix}*`, 'COUNT', 100]
+      );
+      const removed = keep ? keys.filter(key => !keep(key.slice(this.prefix.length))) : keys;
+      if (removed.length > 0) {
+        await this.command(['DEL', ...removed]);
+      }
+      cursor = nextCursor;
+      iterations++;
+    } while (cursor !== '0' && iterations < MAX_SCAN_ITERATIONS);
+  }
+}
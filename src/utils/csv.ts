@@ -0,0 +1,85 @@
+/**
+ * Minimal CSV parser for usage and billing exports
+ *
+ * Supports quoted fields (with embedded commas, newlines and "" escapes),
+ * CRLF line endings and a UTF-8 BOM. The first line is used as the header.
+ */
+
+/**
+ * Parse CSV text into one object per row, keyed by header name
+ *
+ * @param text - CSV content
+ * @param delimiter - Field separator (default: ',')
+ * @returns Rows as header -> value maps (empty lines are skipped)
+ */
+export function parseCsv(text: string, delimiter: string = ','): Record<string, string>[] {
+  const records = parseCsvRecords(text.replace(/^\uFEFF/, ''), delimiter);
+  if (records.length === 0) {
+    return [];
+  }
+
+  const headers = records[0].map(header => header.trim());
+
+  return records
+    .slice(1)
+    .filter(record => record.some(value => value.trim() !== ''))
+    .map(record => {
+      const row: Record<string, string> = {};
+      headers.forEach((header, index) => {
+        row[header] = record[index] ?? '';
+      });
+      return row;
+    });
+}
+
+/**
+ * Split CSV text into records of raw field values
+ */
+function parseCsvRecords(text: string, delimiter: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      // Treat CRLF as a single line break
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  // Last record when the file does not end with a newline
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records;
+}